@@ -3,6 +3,7 @@
 import { useEffect, useState, useMemo } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Select,
@@ -31,13 +32,27 @@ import {
   detectErrorPattern,
   analyzeErrorPatterns,
   calculateDifficultyMetrics,
+  calculateQuantileCalibration,
+  analyzeDistractorPairs,
+  analyzeRunReasoning,
+  getMetricIntervals,
+  PREDICTION_INTERVAL_LEVEL,
 } from "@/lib/evaluator";
+import { analyzeRolloutCalibration } from "@/lib/calibration";
+import { analyzeAblation } from "@/lib/ablation";
+import { describeWeakness, mineWeaknesses } from "@/lib/adversarial";
+import {
+  analyzeDeltaSensitivity,
+  OVER_WEIGHTED_ELASTICITY,
+  UNDER_WEIGHTED_ELASTICITY,
+} from "@/lib/sensitivity";
 
 export default function Analysis() {
   const [runs, setRuns] = useState<BenchmarkRun[]>([]);
   const [domains, setDomains] = useState<DomainConfig[]>([]);
   const [selectedRunId, setSelectedRunId] = useState<string>("");
   const [loading, setLoading] = useState(true);
+  const [mining, setMining] = useState(false);
 
   useEffect(() => {
     Promise.all([
@@ -173,6 +188,87 @@ export default function Analysis() {
     };
   }, [selectedRun, domainConfig]);
 
+  const meanErrorInterval = useMemo(
+    () => (selectedRun?.aggregateMetrics ? getMetricIntervals(selectedRun).meanError : undefined),
+    [selectedRun]
+  );
+
+  // Does rollout spread predict error?
+  const rolloutCalibration = useMemo(
+    () => (selectedRun ? analyzeRolloutCalibration(selectedRun.scenarios, selectedRun.results) : null),
+    [selectedRun]
+  );
+
+  // Expected vs predicted shift per delta, from twin pairs
+  const deltaSensitivity = useMemo(
+    () => (selectedRun ? analyzeDeltaSensitivity(domainConfig, selectedRun.scenarios, selectedRun.results) : []),
+    [selectedRun, domainConfig]
+  );
+
+  // Implied per-delta effects from ablation counterfactuals
+  const ablationAnalysis = useMemo(
+    () =>
+      selectedRun?.mode === "ablation"
+        ? analyzeAblation(domainConfig, selectedRun.scenarios, selectedRun.results)
+        : null,
+    [selectedRun, domainConfig]
+  );
+
+  // Paired clean/distracted error shifts, most misleading distractor first
+  const distractorPairs = useMemo(
+    () => (selectedRun ? analyzeDistractorPairs(domainConfig, selectedRun.scenarios, selectedRun.results) : null),
+    [selectedRun, domainConfig]
+  );
+
+  // Whether reasoning traces name the scenario's anchor and deltas
+  const runReasoning = useMemo(
+    () =>
+      selectedRun && domainConfig
+        ? analyzeRunReasoning(selectedRun.scenarios, selectedRun.results, domainConfig)
+        : null,
+    [selectedRun, domainConfig]
+  );
+
+  // Scenario features that fail more often than average across every run of the domain
+  const weaknesses = useMemo(
+    () => (domainConfig ? mineWeaknesses(domainConfig, runs) : []),
+    [domainConfig, runs]
+  );
+
+  // Save scenarios near the mined weaknesses as a new adversarial test set
+  const handleMineTestSet = async () => {
+    if (!domainConfig) return;
+    setMining(true);
+    try {
+      const res = await fetch("/api/test-sets/mine", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ domainId: domainConfig.id }),
+      });
+      const data = await res.json();
+      alert(
+        res.ok
+          ? `Created test set ${data.name} (${data.scenarioCount} scenarios)`
+          : data.error || "Error: could not create test set"
+      );
+    } finally {
+      setMining(false);
+    }
+  };
+
+  // Observed vs nominal quantile levels, for runs where the model reported uncertainty
+  const calibrationData = useMemo(
+    () =>
+      selectedRun
+        ? calculateQuantileCalibration(selectedRun.scenarios, selectedRun.results).map((point) => ({
+            level: point.level * 100,
+            observed: point.observedRate * 100,
+            count: point.count,
+          }))
+        : [],
+    [selectedRun]
+  );
+
   if (loading) {
     return (
       <div className="container max-w-screen-2xl py-8">
@@ -313,6 +409,13 @@ export default function Analysis() {
               <TabsTrigger value="anchor">Anchor Analysis</TabsTrigger>
               <TabsTrigger value="difficulty">Difficulty Analysis</TabsTrigger>
               <TabsTrigger value="patterns">Error Patterns</TabsTrigger>
+              <TabsTrigger value="uncertainty">Uncertainty</TabsTrigger>
+              <TabsTrigger value="rollout-calibration">Rollout Calibration</TabsTrigger>
+              <TabsTrigger value="sensitivity">Delta Sensitivity</TabsTrigger>
+              <TabsTrigger value="attribution">Delta Attribution</TabsTrigger>
+              <TabsTrigger value="distractors">Distractors</TabsTrigger>
+              <TabsTrigger value="reasoning">Reasoning</TabsTrigger>
+              <TabsTrigger value="weaknesses">Weaknesses</TabsTrigger>
             </TabsList>
 
             {/* Systematic Bias Tab */}
@@ -373,6 +476,14 @@ export default function Analysis() {
                         {(selectedRun.aggregateMetrics?.meanError ?? 0).toFixed(3)}%
                       </span>
                     </div>
+                    {meanErrorInterval && (
+                      <div className="text-sm font-mono text-muted-foreground mb-2">
+                        95% CI [{meanErrorInterval.lower.toFixed(3)}, {meanErrorInterval.upper.toFixed(3)}]
+                        {meanErrorInterval.lower <= 0 && meanErrorInterval.upper >= 0 && (
+                          <span className="font-sans"> · includes zero</span>
+                        )}
+                      </div>
+                    )}
                     <div className="text-lg capitalize text-muted-foreground">
                       {analysisData.errorPatternSummary.systematicBias === "neutral" 
                         ? "No systematic bias detected"
@@ -879,6 +990,19 @@ export default function Analysis() {
                         </div>
                       </div>
                     )}
+                    {analysisData.errorPatternSummary.arithmeticErrorRate !== undefined &&
+                      analysisData.errorPatternSummary.arithmeticErrorRate > 5 && (
+                      <div className="p-4 rounded-lg bg-orange-500/10 border border-orange-500/30">
+                        <div className="font-medium text-orange-400 mb-1">
+                          Arithmetic Errors
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {analysisData.errorPatternSummary.arithmeticErrorRate}% of scenarios state a final value
+                          that does not follow from the model&apos;s own calculation. Consider a tool or a stricter
+                          calculation format.
+                        </div>
+                      </div>
+                    )}
                     {analysisData.errorPatternSummary.systematicBias !== "neutral" && (
                       <div className={`p-4 rounded-lg ${
                         analysisData.errorPatternSummary.systematicBias === "overestimate"
@@ -916,6 +1040,814 @@ export default function Analysis() {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            {/* Uncertainty Tab */}
+            <TabsContent value="uncertainty" className="space-y-6">
+              {selectedRun.aggregateMetrics?.uncertaintyRollouts ? (
+                <>
+                  <div className="grid gap-4 md:grid-cols-4">
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardDescription>Interval Coverage</CardDescription>
+                        <CardTitle className="text-2xl font-mono">
+                          {selectedRun.aggregateMetrics.intervalCoverage != null
+                            ? `${selectedRun.aggregateMetrics.intervalCoverage.toFixed(1)}%`
+                            : "—"}
+                        </CardTitle>
+                        <CardDescription>
+                          nominal {(PREDICTION_INTERVAL_LEVEL * 100).toFixed(0)}%
+                        </CardDescription>
+                      </CardHeader>
+                    </Card>
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardDescription>Mean Interval Width</CardDescription>
+                        <CardTitle className="text-2xl font-mono">
+                          {selectedRun.aggregateMetrics.intervalWidth?.toFixed(3) ?? "—"}
+                        </CardTitle>
+                      </CardHeader>
+                    </Card>
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardDescription>Pinball Loss</CardDescription>
+                        <CardTitle className="text-2xl font-mono">
+                          {selectedRun.aggregateMetrics.pinballLoss?.toFixed(3) ?? "—"}
+                        </CardTitle>
+                        <CardDescription>lower is better</CardDescription>
+                      </CardHeader>
+                    </Card>
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardDescription>CRPS</CardDescription>
+                        <CardTitle className="text-2xl font-mono">
+                          {selectedRun.aggregateMetrics.crps?.toFixed(3) ?? "—"}
+                        </CardTitle>
+                        <CardDescription>lower is better</CardDescription>
+                      </CardHeader>
+                    </Card>
+                  </div>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Calibration</CardTitle>
+                      <CardDescription>
+                        Share of ground truths at or below each reported quantile. Points on the
+                        diagonal are calibrated; a steeper curve means intervals are too narrow.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="h-[400px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <ScatterChart>
+                            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                            <XAxis
+                              type="number"
+                              dataKey="level"
+                              name="Quantile level"
+                              domain={[0, 100]}
+                              stroke="hsl(var(--muted-foreground))"
+                              tickFormatter={(v) => `${v}%`}
+                            />
+                            <YAxis
+                              type="number"
+                              dataKey="observed"
+                              name="Observed"
+                              domain={[0, 100]}
+                              stroke="hsl(var(--muted-foreground))"
+                              tickFormatter={(v) => `${v}%`}
+                            />
+                            <Tooltip
+                              contentStyle={{
+                                backgroundColor: "hsl(var(--card))",
+                                border: "1px solid hsl(var(--border))",
+                                borderRadius: "8px",
+                              }}
+                              formatter={(value) => `${typeof value === "number" ? value.toFixed(1) : value}%`}
+                            />
+                            <ReferenceLine
+                              segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]}
+                              stroke="#71717a"
+                              strokeDasharray="4 4"
+                            />
+                            <Scatter data={calibrationData} fill="var(--chart-1)" line />
+                          </ScatterChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </>
+              ) : (
+                <Card>
+                  <CardContent className="py-12 text-center text-muted-foreground">
+                    The model did not report uncertainty in this run. Use the &quot;uncertainty&quot;
+                    prompt strategy (or a template asking for &quot;low&quot;/&quot;high&quot; or
+                    &quot;quantiles&quot;) to score intervals.
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            {/* Rollout Calibration Tab */}
+            <TabsContent value="rollout-calibration" className="space-y-6">
+              {rolloutCalibration && rolloutCalibration.points.length > 0 ? (
+                <>
+                  <div className="grid gap-4 md:grid-cols-4">
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardDescription>Spearman ρ (spread vs error)</CardDescription>
+                        <CardTitle className="text-2xl font-mono">
+                          {rolloutCalibration.spearman?.toFixed(2) ?? "—"}
+                        </CardTitle>
+                      </CardHeader>
+                    </Card>
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardDescription>Pearson r (spread vs error)</CardDescription>
+                        <CardTitle className="text-2xl font-mono">
+                          {rolloutCalibration.pearson?.toFixed(2) ?? "—"}
+                        </CardTitle>
+                      </CardHeader>
+                    </Card>
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardDescription>Scenarios Analysed</CardDescription>
+                        <CardTitle className="text-2xl font-mono">
+                          {rolloutCalibration.points.length}
+                        </CardTitle>
+                      </CardHeader>
+                    </Card>
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardDescription>Low Variance More Accurate?</CardDescription>
+                        <CardTitle className="text-2xl font-mono">
+                          {rolloutCalibration.lowVarianceMoreAccurate === undefined
+                            ? "—"
+                            : rolloutCalibration.lowVarianceMoreAccurate
+                            ? "Yes"
+                            : "No"}
+                        </CardTitle>
+                      </CardHeader>
+                    </Card>
+                  </div>
+
+                  <div className="grid gap-6 lg:grid-cols-2">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Rollout Spread vs Error</CardTitle>
+                        <CardDescription>
+                          One point per scenario; a rising cloud means spread signals error
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="h-[300px]">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <ScatterChart>
+                              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                              <XAxis
+                                type="number"
+                                dataKey="stdDeviation"
+                                name="Std deviation"
+                                stroke="hsl(var(--muted-foreground))"
+                              />
+                              <YAxis
+                                type="number"
+                                dataKey="absoluteError"
+                                name="Absolute error"
+                                stroke="hsl(var(--muted-foreground))"
+                              />
+                              <Tooltip
+                                contentStyle={{
+                                  backgroundColor: "hsl(var(--card))",
+                                  border: "1px solid hsl(var(--border))",
+                                  borderRadius: "8px",
+                                }}
+                                formatter={(value) => (typeof value === "number" ? value.toFixed(3) : value)}
+                              />
+                              <Scatter data={rolloutCalibration.points}>
+                                {rolloutCalibration.points.map((point, index) => (
+                                  <Cell key={`cell-${index}`} fill={point.withinTolerance ? "#22c55e" : "#ef4444"} />
+                                ))}
+                              </Scatter>
+                            </ScatterChart>
+                          </ResponsiveContainer>
+                        </div>
+                      </CardContent>
+                    </Card>
+
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Reliability Diagram</CardTitle>
+                        <CardDescription>
+                          How often the ground truth falls inside central intervals of the rollout
+                          predictions; points below the diagonal mean rollouts are overconfident
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="h-[300px]">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <ScatterChart>
+                              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                              <XAxis
+                                type="number"
+                                dataKey="nominal"
+                                name="Nominal coverage"
+                                domain={[0, 100]}
+                                stroke="hsl(var(--muted-foreground))"
+                                tickFormatter={(v) => `${v}%`}
+                              />
+                              <YAxis
+                                type="number"
+                                dataKey="observed"
+                                name="Observed coverage"
+                                domain={[0, 100]}
+                                stroke="hsl(var(--muted-foreground))"
+                                tickFormatter={(v) => `${v}%`}
+                              />
+                              <Tooltip
+                                contentStyle={{
+                                  backgroundColor: "hsl(var(--card))",
+                                  border: "1px solid hsl(var(--border))",
+                                  borderRadius: "8px",
+                                }}
+                                formatter={(value) => `${typeof value === "number" ? value.toFixed(1) : value}%`}
+                              />
+                              <ReferenceLine
+                                segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]}
+                                stroke="#71717a"
+                                strokeDasharray="4 4"
+                              />
+                              <Scatter
+                                data={rolloutCalibration.reliability.map((point) => ({
+                                  nominal: point.level * 100,
+                                  observed: point.observedRate * 100,
+                                }))}
+                                fill="var(--chart-2)"
+                                line
+                              />
+                            </ScatterChart>
+                          </ResponsiveContainer>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </div>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Accuracy by Rollout Variance</CardTitle>
+                      <CardDescription>Scenarios split into terciles by rollout std deviation</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr>
+                            <th className="text-left p-2 border-b border-border">Variance</th>
+                            <th className="text-right p-2 border-b border-border">Std Deviation</th>
+                            <th className="text-right p-2 border-b border-border">Scenarios</th>
+                            <th className="text-right p-2 border-b border-border">Mean Abs Error</th>
+                            <th className="text-right p-2 border-b border-border">Hit Rate</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {rolloutCalibration.buckets.map((bucket) => (
+                            <tr key={bucket.label}>
+                              <td className="p-2 border-b border-border capitalize">{bucket.label}</td>
+                              <td className="text-right p-2 border-b border-border font-mono">
+                                {bucket.minStdDeviation.toFixed(3)}–{bucket.maxStdDeviation.toFixed(3)}
+                              </td>
+                              <td className="text-right p-2 border-b border-border font-mono">{bucket.count}</td>
+                              <td className="text-right p-2 border-b border-border font-mono">
+                                {bucket.meanAbsoluteError.toFixed(3)}
+                              </td>
+                              <td className="text-right p-2 border-b border-border font-mono">
+                                {bucket.hitRate.toFixed(1)}%
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </CardContent>
+                  </Card>
+                </>
+              ) : (
+                <Card>
+                  <CardContent className="py-12 text-center text-muted-foreground">
+                    Rollout calibration needs scenarios with at least two successful rollouts.
+                    Run with more rollouts per scenario (or add rollouts to this run).
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            {/* Delta Sensitivity Tab */}
+            <TabsContent value="sensitivity" className="space-y-6">
+              {deltaSensitivity.length > 0 ? (
+                <>
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Expected vs Predicted Shift by Delta</CardTitle>
+                      <CardDescription>
+                        Mean change when the delta is applied, across twin pairs
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="h-[400px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={deltaSensitivity} layout="vertical">
+                            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                            <XAxis type="number" stroke="hsl(var(--muted-foreground))" />
+                            <YAxis
+                              dataKey="deltaKey"
+                              type="category"
+                              width={160}
+                              stroke="hsl(var(--muted-foreground))"
+                              tick={{ fontSize: 12 }}
+                              tickFormatter={(v) => v.replace(/_/g, " ")}
+                            />
+                            <Tooltip
+                              contentStyle={{
+                                backgroundColor: "hsl(var(--card))",
+                                border: "1px solid hsl(var(--border))",
+                                borderRadius: "8px",
+                              }}
+                              formatter={(value) => (typeof value === "number" ? value.toFixed(3) : value)}
+                            />
+                            <Legend />
+                            <ReferenceLine x={0} stroke="#71717a" strokeWidth={2} />
+                            <Bar dataKey="meanExpectedShift" name="Expected" fill="#71717a" />
+                            <Bar dataKey="meanPredictedShift" name="Predicted" fill="var(--chart-1)" />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Sensitivity by Delta</CardTitle>
+                      <CardDescription>
+                        Elasticity is the slope of predicted on expected shift: 1 means the
+                        adjustment is fully weighted, below {UNDER_WEIGHTED_ELASTICITY} under-weighted.
+                        Pairs that swap one delta for another also carry the other delta&apos;s effect.
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr>
+                            <th className="text-left p-2 border-b border-border">Delta</th>
+                            <th className="text-right p-2 border-b border-border">Pairs (isolated)</th>
+                            <th className="text-right p-2 border-b border-border">Expected Shift</th>
+                            <th className="text-right p-2 border-b border-border">Predicted Shift</th>
+                            <th className="text-right p-2 border-b border-border">Sign Accuracy</th>
+                            <th className="text-right p-2 border-b border-border">Elasticity</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {deltaSensitivity.map((delta) => (
+                            <tr key={delta.deltaKey}>
+                              <td className="p-2 border-b border-border">
+                                <div className="capitalize">{delta.deltaKey.replace(/_/g, " ")}</div>
+                                {delta.description && (
+                                  <div className="text-xs text-muted-foreground">{delta.description}</div>
+                                )}
+                              </td>
+                              <td className="text-right p-2 border-b border-border font-mono">
+                                {delta.shifts.length} ({delta.isolatedPairs})
+                              </td>
+                              <td className="text-right p-2 border-b border-border font-mono">
+                                {delta.meanExpectedShift > 0 ? "+" : ""}{delta.meanExpectedShift.toFixed(3)}
+                              </td>
+                              <td className="text-right p-2 border-b border-border font-mono">
+                                {delta.meanPredictedShift > 0 ? "+" : ""}{delta.meanPredictedShift.toFixed(3)}
+                              </td>
+                              <td className="text-right p-2 border-b border-border font-mono">
+                                {delta.signAccuracy !== undefined ? `${delta.signAccuracy.toFixed(0)}%` : "—"}
+                              </td>
+                              <td className="text-right p-2 border-b border-border">
+                                {delta.elasticity !== undefined ? (
+                                  <div className="flex items-center justify-end gap-2">
+                                    <span className="font-mono">{delta.elasticity.toFixed(2)}</span>
+                                    {delta.elasticity < UNDER_WEIGHTED_ELASTICITY ? (
+                                      <Badge variant="outline" className="text-blue-400 border-blue-400/50">under</Badge>
+                                    ) : delta.elasticity > OVER_WEIGHTED_ELASTICITY ? (
+                                      <Badge variant="outline" className="text-red-400 border-red-400/50">over</Badge>
+                                    ) : null}
+                                  </div>
+                                ) : (
+                                  "—"
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </CardContent>
+                  </Card>
+                </>
+              ) : (
+                <Card>
+                  <CardContent className="py-12 text-center text-muted-foreground">
+                    No completed twin pairs in this run. Generate scenarios with twins to measure
+                    per-delta sensitivity.
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            {/* Delta Attribution Tab (ablation runs) */}
+            <TabsContent value="attribution" className="space-y-6">
+              {ablationAnalysis && ablationAnalysis.deltas.length > 0 ? (
+                <>
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Implied vs True Effect by Delta</CardTitle>
+                      <CardDescription>
+                        Prediction with the delta minus prediction without it, averaged over{" "}
+                        {ablationAnalysis.baseScenarios} base scenarios
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="h-[400px]">
+                        <ResponsiveContainer width="100%" height="100%">
+                          <BarChart data={ablationAnalysis.deltas} layout="vertical">
+                            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                            <XAxis type="number" stroke="hsl(var(--muted-foreground))" />
+                            <YAxis
+                              dataKey="deltaKey"
+                              type="category"
+                              width={160}
+                              stroke="hsl(var(--muted-foreground))"
+                              tick={{ fontSize: 12 }}
+                              tickFormatter={(v) => v.replace(/_/g, " ")}
+                            />
+                            <Tooltip
+                              contentStyle={{
+                                backgroundColor: "hsl(var(--card))",
+                                border: "1px solid hsl(var(--border))",
+                                borderRadius: "8px",
+                              }}
+                              formatter={(value) => (typeof value === "number" ? value.toFixed(3) : value)}
+                            />
+                            <Legend />
+                            <ReferenceLine x={0} stroke="#71717a" strokeWidth={2} />
+                            <Bar dataKey="meanTrueEffect" name="True" fill="#71717a" />
+                            <Bar dataKey="meanImpliedEffect" name="Implied by model" fill="var(--chart-2)" />
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </div>
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Delta Attribution</CardTitle>
+                      <CardDescription>
+                        Weight is the slope of implied on true effect: 1 means the model hears the
+                        factor at full strength, 0 means it ignores it.
+                        {ablationAnalysis.meanAbsDistractorEffect !== undefined && (
+                          <>
+                            {" "}Removing distractors moved predictions by{" "}
+                            {ablationAnalysis.meanAbsDistractorEffect.toFixed(3)} on average
+                            (should be 0).
+                          </>
+                        )}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr>
+                            <th className="text-left p-2 border-b border-border">Delta</th>
+                            <th className="text-right p-2 border-b border-border">Config</th>
+                            <th className="text-right p-2 border-b border-border">Ablations</th>
+                            <th className="text-right p-2 border-b border-border">True Effect</th>
+                            <th className="text-right p-2 border-b border-border">Implied Effect</th>
+                            <th className="text-right p-2 border-b border-border">Sign Accuracy</th>
+                            <th className="text-right p-2 border-b border-border">Weight</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {ablationAnalysis.deltas.map((delta) => (
+                            <tr key={delta.deltaKey}>
+                              <td className="p-2 border-b border-border">
+                                <div className="capitalize">{delta.deltaKey.replace(/_/g, " ")}</div>
+                                {delta.description && (
+                                  <div className="text-xs text-muted-foreground">{delta.description}</div>
+                                )}
+                              </td>
+                              <td className="text-right p-2 border-b border-border font-mono">
+                                {delta.configValue === undefined
+                                  ? "—"
+                                  : delta.type === "multiplicative"
+                                  ? `×${delta.configValue}`
+                                  : `${delta.configValue > 0 ? "+" : ""}${delta.configValue}`}
+                              </td>
+                              <td className="text-right p-2 border-b border-border font-mono">{delta.effects.length}</td>
+                              <td className="text-right p-2 border-b border-border font-mono">
+                                {delta.meanTrueEffect > 0 ? "+" : ""}{delta.meanTrueEffect.toFixed(3)}
+                              </td>
+                              <td className="text-right p-2 border-b border-border font-mono">
+                                {delta.meanImpliedEffect > 0 ? "+" : ""}{delta.meanImpliedEffect.toFixed(3)}
+                              </td>
+                              <td className="text-right p-2 border-b border-border font-mono">
+                                {delta.signAccuracy !== undefined ? `${delta.signAccuracy.toFixed(0)}%` : "—"}
+                              </td>
+                              <td className="text-right p-2 border-b border-border">
+                                {delta.weight !== undefined ? (
+                                  <div className="flex items-center justify-end gap-2">
+                                    <span className="font-mono">{delta.weight.toFixed(2)}</span>
+                                    {delta.weight < UNDER_WEIGHTED_ELASTICITY ? (
+                                      <Badge variant="outline" className="text-blue-400 border-blue-400/50">under</Badge>
+                                    ) : delta.weight > OVER_WEIGHTED_ELASTICITY ? (
+                                      <Badge variant="outline" className="text-red-400 border-red-400/50">over</Badge>
+                                    ) : null}
+                                  </div>
+                                ) : (
+                                  "—"
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </CardContent>
+                  </Card>
+                </>
+              ) : (
+                <Card>
+                  <CardContent className="py-12 text-center text-muted-foreground">
+                    {selectedRun.mode === "ablation"
+                      ? "No completed base scenarios with counterfactuals yet."
+                      : "Delta attribution needs an ablation run. Start one from the playground with Ablation Mode enabled."}
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            {/* Distractor Pairs Tab */}
+            <TabsContent value="distractors" className="space-y-6">
+              {distractorPairs && distractorPairs.pairs > 0 ? (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Most Misleading Distractors</CardTitle>
+                    <CardDescription>
+                      Change in absolute error when one distractor is added to an otherwise identical
+                      scenario ({distractorPairs.pairs} pairs, mean shift{" "}
+                      {distractorPairs.meanAbsErrorShift > 0 ? "+" : ""}
+                      {distractorPairs.meanAbsErrorShift.toFixed(3)})
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr>
+                          <th className="text-left p-2 border-b border-border">Distractor</th>
+                          <th className="text-right p-2 border-b border-border">Pairs</th>
+                          <th className="text-right p-2 border-b border-border">Error Shift</th>
+                          <th className="text-right p-2 border-b border-border">Prediction Shift</th>
+                          <th className="text-right p-2 border-b border-border">Hit Rate Change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {distractorPairs.byDistractor.map((d) => (
+                          <tr key={d.distractor}>
+                            <td className="p-2 border-b border-border">{d.distractor}</td>
+                            <td className="text-right p-2 border-b border-border font-mono">{d.pairs}</td>
+                            <td
+                              className={`text-right p-2 border-b border-border font-mono ${
+                                d.meanAbsErrorShift > 0.05 ? "text-red-400" : d.meanAbsErrorShift < -0.05 ? "text-emerald-400" : ""
+                              }`}
+                            >
+                              {d.meanAbsErrorShift > 0 ? "+" : ""}{d.meanAbsErrorShift.toFixed(3)}
+                            </td>
+                            <td className="text-right p-2 border-b border-border font-mono">
+                              {d.meanPredictionShift > 0 ? "+" : ""}{d.meanPredictionShift.toFixed(3)}
+                            </td>
+                            <td className="text-right p-2 border-b border-border font-mono">
+                              {d.hitRateChange > 0 ? "+" : ""}{d.hitRateChange.toFixed(0)}pp
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardContent className="py-12 text-center text-muted-foreground">
+                    No clean/distracted pairs in this run. Generate scenarios with Distractor Pairs
+                    enabled to rank distractors by their effect.
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            {/* Reasoning Tab */}
+            <TabsContent value="reasoning" className="space-y-6">
+              {runReasoning && runReasoning.scenarios.length > 0 ? (
+                <>
+                  <div className="grid gap-4 md:grid-cols-4">
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardDescription>Factor Recall</CardDescription>
+                        <CardTitle className="text-2xl font-mono">
+                          {((runReasoning.recall ?? 0) * 100).toFixed(1)}%
+                        </CardTitle>
+                        <CardDescription>anchor and applied deltas mentioned</CardDescription>
+                      </CardHeader>
+                    </Card>
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardDescription>Factor Precision</CardDescription>
+                        <CardTitle className="text-2xl font-mono">
+                          {((runReasoning.precision ?? 0) * 100).toFixed(1)}%
+                        </CardTitle>
+                        <CardDescription>cited factors that apply</CardDescription>
+                      </CardHeader>
+                    </Card>
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardDescription>Anchor Identified</CardDescription>
+                        <CardTitle className="text-2xl font-mono">
+                          {((runReasoning.anchorRate ?? 0) * 100).toFixed(1)}%
+                        </CardTitle>
+                        <CardDescription>of {runReasoning.scenarios.length} scenarios</CardDescription>
+                      </CardHeader>
+                    </Card>
+                    <Card>
+                      <CardHeader className="pb-2">
+                        <CardDescription>Error Causes</CardDescription>
+                        <CardTitle className="text-2xl font-mono">
+                          {runReasoning.misreadRate != null
+                            ? `${runReasoning.misreadRate}% / ${runReasoning.wrongArithmeticRate}%`
+                            : "—"}
+                        </CardTitle>
+                        <CardDescription>misread scenario / wrong arithmetic</CardDescription>
+                      </CardHeader>
+                    </Card>
+                  </div>
+
+                  <div className="grid gap-6 lg:grid-cols-2">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Delta Identification</CardTitle>
+                        <CardDescription>
+                          How often the reasoning mentions each applied delta, most-missed first
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr>
+                              <th className="text-left p-2 border-b border-border">Delta</th>
+                              <th className="text-right p-2 border-b border-border">Identified</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {runReasoning.deltas.map((d) => (
+                              <tr key={d.deltaKey}>
+                                <td className="p-2 border-b border-border">
+                                  {domainConfig?.deltas[d.deltaKey]?.description ?? d.deltaKey}
+                                </td>
+                                <td
+                                  className={`text-right p-2 border-b border-border font-mono ${
+                                    d.identified / d.total < 0.5 ? "text-red-400" : ""
+                                  }`}
+                                >
+                                  {d.identified}/{d.total}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </CardContent>
+                    </Card>
+
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Inaccurate Scenarios</CardTitle>
+                        <CardDescription>
+                          Factors the reasoning missed or cited wrongly where the prediction was off
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-3">
+                          {runReasoning.scenarios
+                            .filter((r) => !r.withinTolerance)
+                            .sort((a, b) => a.recall - b.recall)
+                            .slice(0, 10)
+                            .map((r) => (
+                              <div key={r.scenarioId} className="p-3 rounded-lg border bg-muted/30">
+                                <div className="flex items-center justify-between mb-1">
+                                  <span className="font-mono text-xs">{r.scenarioId.slice(0, 8)}</span>
+                                  {r.cause && (
+                                    <Badge
+                                      variant="outline"
+                                      className={
+                                        r.cause === "misread_scenario"
+                                          ? "text-amber-400 border-amber-400/50"
+                                          : "text-blue-400 border-blue-400/50"
+                                      }
+                                    >
+                                      {r.cause.replace(/_/g, " ")}
+                                    </Badge>
+                                  )}
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                  Recall {(r.recall * 100).toFixed(0)}%, precision {(r.precision * 100).toFixed(0)}%
+                                  {r.anchorRate < 0.5 && ", anchor not mentioned"}
+                                </div>
+                                {r.missedDeltas.length > 0 && (
+                                  <div className="text-xs text-muted-foreground mt-1">
+                                    Missed: {r.missedDeltas.join(", ")}
+                                  </div>
+                                )}
+                                {(r.spuriousDeltas.length > 0 || r.mentionedDistractors.length > 0) && (
+                                  <div className="text-xs text-muted-foreground mt-1">
+                                    Cited wrongly: {[...r.spuriousDeltas, ...r.mentionedDistractors].join(", ")}
+                                  </div>
+                                )}
+                              </div>
+                            ))}
+                          {runReasoning.scenarios.every((r) => r.withinTolerance) && (
+                            <div className="text-center text-muted-foreground py-8">
+                              All predictions within tolerance
+                            </div>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  </div>
+                </>
+              ) : (
+                <Card>
+                  <CardContent className="py-12 text-center text-muted-foreground">
+                    No reasoning traces to analyse in this run.
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
+
+            {/* Weaknesses Tab */}
+            <TabsContent value="weaknesses" className="space-y-6">
+              {weaknesses.length > 0 ? (
+                <Card>
+                  <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                    <div>
+                      <CardTitle>Weaknesses Across Runs</CardTitle>
+                      <CardDescription>
+                        Anchors, deltas, delta pairs and distractors that fail more often than average in
+                        every {domainConfig?.name ?? "domain"} run. Lift is the failure rate above the overall
+                        rate; error is relative to tolerance.
+                      </CardDescription>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={handleMineTestSet} disabled={mining}>
+                      {mining ? "Generating..." : "Create Adversarial Test Set"}
+                    </Button>
+                  </CardHeader>
+                  <CardContent>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr>
+                          <th className="text-left p-2 border-b border-border">Feature</th>
+                          <th className="text-right p-2 border-b border-border">Failures</th>
+                          <th className="text-right p-2 border-b border-border">Failure Rate</th>
+                          <th className="text-right p-2 border-b border-border">Lift</th>
+                          <th className="text-right p-2 border-b border-border">Error / Tolerance</th>
+                          <th className="text-left p-2 border-b border-border">Dominant Pattern</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {weaknesses.map((w) => (
+                          <tr key={`${w.kind}:${w.keys.join("|")}`}>
+                            <td className="p-2 border-b border-border">{describeWeakness(w)}</td>
+                            <td className="text-right p-2 border-b border-border font-mono">
+                              {w.failures}/{w.observations}
+                            </td>
+                            <td className="text-right p-2 border-b border-border font-mono text-red-400">
+                              {w.failureRate}%
+                            </td>
+                            <td className="text-right p-2 border-b border-border font-mono">+{w.lift}pp</td>
+                            <td className="text-right p-2 border-b border-border font-mono">
+                              {w.meanRelativeError.toFixed(1)}×
+                            </td>
+                            <td className="p-2 border-b border-border capitalize">
+                              {w.dominantPattern?.replace(/_/g, " ") ?? "-"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </CardContent>
+                </Card>
+              ) : (
+                <Card>
+                  <CardContent className="py-12 text-center text-muted-foreground">
+                    No weaknesses found: no feature fails more often than average in at least three results.
+                  </CardContent>
+                </Card>
+              )}
+            </TabsContent>
           </Tabs>
         </>
       )}
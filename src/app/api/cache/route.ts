@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { getResponseCacheStats, clearResponseCache } from "@/lib/response-cache";
+
+/**
+ * GET /api/cache
+ * Response cache size, overall and per model
+ */
+export async function GET() {
+  try {
+    const stats = await getResponseCacheStats();
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error("Error reading response cache:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/cache
+ * Evict cached responses
+ *
+ * Query:
+ *   - olderThanDays: Only entries cached more than this many days ago (optional)
+ *   - model: Only entries for this model (optional)
+ */
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const olderThanDaysParam = searchParams.get("olderThanDays");
+    const olderThanDays = olderThanDaysParam !== null ? Number(olderThanDaysParam) : undefined;
+    if (olderThanDays !== undefined && (!Number.isFinite(olderThanDays) || olderThanDays < 0)) {
+      return NextResponse.json(
+        { error: "olderThanDays must be a non-negative number" },
+        { status: 400 }
+      );
+    }
+
+    const removed = await clearResponseCache({
+      olderThanDays,
+      model: searchParams.get("model") ?? undefined,
+    });
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error("Error clearing response cache:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,13 @@ import { generateScenarios, upgradeScenarioNarrative } from "@/lib/generator";
 import { renderPrompt, buildTemplateContext } from "@/prompts/engine";
 import { callOpenRouterMultiple, type OpenRouterConfig } from "@/lib/openrouter";
 import { evaluateMultipleRollouts } from "@/lib/evaluator";
+import {
+  DEFAULT_PROVIDER,
+  getProvider,
+  getProviderApiKey,
+  getProviderBaseUrl,
+  isProviderId,
+} from "@/lib/providers";
 
 export async function POST(request: Request) {
   try {
@@ -17,8 +24,18 @@ export async function POST(request: Request) {
       seed,
       useNarrativeDescription = false,
       narrativeModel,
+      provider = DEFAULT_PROVIDER,
+      baseUrl,
+      structuredOutput = false,
     } = body;
 
+    if (!isProviderId(provider)) {
+      return NextResponse.json(
+        { error: `Unknown provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+
     // Validate required fields
     if (!domainId || !promptTemplate) {
       return NextResponse.json(
@@ -86,10 +103,11 @@ export async function POST(request: Request) {
     }
 
     // Check API key is available for LLM evaluation
-    const llmApiKey = apiKey || process.env.OPENROUTER_API_KEY;
-    if (!llmApiKey) {
+    const llmProvider = getProvider(provider)!;
+    const llmApiKey = getProviderApiKey(provider);
+    if (llmProvider.requiresApiKey && !llmApiKey) {
       return NextResponse.json(
-        { error: "OPENROUTER_API_KEY not configured" },
+        { error: `${llmProvider.apiKeyEnv} not configured` },
         { status: 500 }
       );
     }
@@ -99,10 +117,23 @@ export async function POST(request: Request) {
       apiKey: llmApiKey,
       model,
       temperature: 0.3,
+      provider,
+      baseUrl: getProviderBaseUrl(provider, baseUrl),
+      structuredOutput: structuredOutput === true,
     };
 
-    const llmResults = await callOpenRouterMultiple(renderedPrompt, config, rollouts);
+    const llmResults = await callOpenRouterMultiple(
+      renderedPrompt,
+      { ...config, context: { scenario, domainConfig } },
+      rollouts
+    );
     const result = evaluateMultipleRollouts(scenario, llmResults);
+    if (result.status === "failed") {
+      return NextResponse.json(
+        { error: `All ${llmResults.length} rollouts failed: ${llmResults[0]?.error ?? "no rollouts"}` },
+        { status: 502 }
+      );
+    }
 
     return NextResponse.json({
       scenario,
@@ -110,10 +141,12 @@ export async function POST(request: Request) {
       context,
       result,
       rollouts: llmResults.map((r) => ({
-        prediction: r.prediction.yield,
+        prediction: r.prediction.estimate,
         reasoning: r.prediction.reasoning,
         latencyMs: r.latencyMs,
         rawResponse: r.rawResponse,
+        status: r.status,
+        error: r.error,
       })),
     });
   } catch (error) {
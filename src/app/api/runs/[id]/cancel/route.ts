@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { cancelRun } from "@/lib/run-queue";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const run = await cancelRun(id);
+    return NextResponse.json(run);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: message },
+      { status: message === "Run not found" ? 404 : 409 }
+    );
+  }
+}
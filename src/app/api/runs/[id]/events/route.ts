@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { loadBenchmarkRun } from "@/lib/storage";
+import { subscribeToRun, SETTLED_RUN_STATUSES, type RunEvent } from "@/lib/run-events";
+
+// Keep-alive comment interval so proxies don't close idle streams
+const HEARTBEAT_MS = 15000;
+
+/**
+ * Stream run progress as Server-Sent Events. Sends a snapshot of the run
+ * first, then incremental events until the run settles.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const run = await loadBenchmarkRun(id);
+
+  if (!run) {
+    return NextResponse.json({ error: "Run not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: RunEvent) => {
+        if (closed) return;
+        // Unnamed events so clients receive everything via onmessage; the type is in the payload
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+
+      // Subscribe before sending the snapshot so no event falls in between
+      const unsubscribe = subscribeToRun(id, (event) => {
+        send(event);
+        if (event.type === "status" && SETTLED_RUN_STATUSES.includes(event.status)) {
+          close();
+        }
+      });
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": heartbeat\n\n"));
+      }, HEARTBEAT_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+      request.signal.addEventListener("abort", close);
+
+      send({ type: "snapshot", run });
+      if (SETTLED_RUN_STATUSES.includes(run.status)) {
+        close();
+      }
+    },
+    cancel() {
+      // The stream is already closed; a later abort must not close it again
+      closed = true;
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
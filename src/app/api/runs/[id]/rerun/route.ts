@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { rerunScenarios } from "@/lib/run-queue";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    // Optional body: { scenarioIds: string[] }; defaults to failed and pending scenarios
+    const body = await request.json().catch(() => ({}));
+    const scenarioIds = Array.isArray(body?.scenarioIds) ? body.scenarioIds.map(String) : undefined;
+
+    const run = await rerunScenarios(id, scenarioIds);
+    return NextResponse.json(run, { status: 202 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: message },
+      { status: message === "Run not found" ? 404 : 409 }
+    );
+  }
+}
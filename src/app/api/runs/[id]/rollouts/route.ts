@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { addRollouts } from "@/lib/run-queue";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    // Body: { count: number } - rollouts to add per scenario
+    const body = await request.json().catch(() => ({}));
+    const run = await addRollouts(id, Number(body?.count));
+    return NextResponse.json(run, { status: 202 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return NextResponse.json(
+      { error: message },
+      { status: message === "Run not found" ? 404 : message.startsWith("Rollouts to add") ? 400 : 409 }
+    );
+  }
+}
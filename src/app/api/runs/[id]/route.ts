@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
-import { loadBenchmarkRun, deleteBenchmarkRun } from "@/lib/storage";
+import { loadBenchmarkRun } from "@/lib/storage";
+import { discardRun } from "@/lib/run-queue";
 
 export async function GET(
   request: Request,
@@ -20,7 +21,8 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id } = await params;
-  const success = await deleteBenchmarkRun(id);
+  // Active runs are stopped first and deleted once their current batch ends
+  const success = await discardRun(id);
 
   if (!success) {
     return NextResponse.json({ error: "Run not found" }, { status: 404 });
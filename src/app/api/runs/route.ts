@@ -2,24 +2,25 @@ import { NextResponse } from "next/server";
 import { v4 as uuidv4 } from "uuid";
 import {
   listBenchmarkRuns,
+  loadBenchmarkRun,
   saveBenchmarkRun,
   loadDomainConfig,
   loadExpertFacts,
+  loadJudgeTemplate,
   loadTestSet,
 } from "@/lib/storage";
-import { generateScenarios } from "@/lib/generator";
-import { generateNarrativeDescription, generateFallbackDescriptionSync } from "@/lib/narrative-generator";
-import { renderPrompt } from "@/prompts/engine";
-import { callOpenRouterMultiple, type OpenRouterConfig } from "@/lib/openrouter";
+import { generateAblationScenarios, generateScenarios } from "@/lib/generator";
+import { createPendingResult } from "@/lib/run-executor";
+import { DEFAULT_JUDGE_TEMPLATE } from "@/lib/judge";
+import { enqueueRun } from "@/lib/run-queue";
 import {
-  evaluateMultipleRollouts,
-  calculateAggregateMetrics,
-  calculateScenarioDifficulty,
-  detectErrorPattern,
-  analyzeErrorPatterns,
-  calculateDifficultyMetrics,
-} from "@/lib/evaluator";
-import type { BenchmarkRun, ScenarioResult } from "@/domains/schema";
+  DEFAULT_PROVIDER,
+  getProvider,
+  getProviderApiKey,
+  getProviderBaseUrl,
+  isProviderId,
+} from "@/lib/providers";
+import type { BenchmarkRun, Scenario, ScenarioResult } from "@/domains/schema";
 
 export async function GET() {
   const runs = await listBenchmarkRuns();
@@ -37,17 +38,82 @@ export async function POST(request: Request) {
       promptTemplateId,
       scenarioCount = 10,
       generateTwins = true,
+      generateDistractorPairs = false, // Clean/distracted variants of each scenario
       rolloutsPerScenario = 1,
       seed,
       useNarrativeDescriptions = true, // Now defaults to true
       narrativeModel = "openai/gpt-4o-mini",
+      provider = DEFAULT_PROVIDER,
+      baseUrl,
+      narrativeProvider = DEFAULT_PROVIDER,
+      replayRunId, // Mock provider: replay raw responses (and scenarios) from a previous run
+      noiseStdDev, // Mock provider: noise for "mock/ground-truth-noise"
+      maxRetries, // Retries per model call on rate limits and transient errors
+      maxConcurrency, // Max in-flight requests to the provider (default: environment, then provider default)
+      useCache = true, // Reuse cached responses for identical prompts
+      mode = "standard", // "ablation": add one-at-a-time counterfactuals for each scenario
+      structuredOutput = false, // Request native structured output where the provider supports it
+      judgeModel, // Optional LLM-as-judge pass over each rollout's reasoning
+      judgeProvider = DEFAULT_PROVIDER,
+      judgeTemplate = DEFAULT_JUDGE_TEMPLATE,
     } = body;
 
+    if (mode !== "standard" && mode !== "ablation") {
+      return NextResponse.json(
+        { error: `Unknown run mode: ${mode}` },
+        { status: 400 }
+      );
+    }
+
+    if (!isProviderId(provider) || !isProviderId(narrativeProvider)) {
+      return NextResponse.json(
+        { error: `Unknown provider: ${isProviderId(provider) ? narrativeProvider : provider}` },
+        { status: 400 }
+      );
+    }
+
+    if (judgeModel) {
+      if (!isProviderId(judgeProvider)) {
+        return NextResponse.json(
+          { error: `Unknown provider: ${judgeProvider}` },
+          { status: 400 }
+        );
+      }
+      if (!(await loadJudgeTemplate(judgeTemplate))) {
+        return NextResponse.json(
+          { error: `Unknown judge template: ${judgeTemplate}` },
+          { status: 400 }
+        );
+      }
+      const judgeLlmProvider = getProvider(judgeProvider)!;
+      if (judgeLlmProvider.requiresApiKey && !getProviderApiKey(judgeProvider)) {
+        return NextResponse.json(
+          { error: `${judgeLlmProvider.apiKeyEnv} not configured` },
+          { status: 500 }
+        );
+      }
+    }
+
     // Determine if using test set or generating scenarios
     let actualDomainId = domainId;
-    let skeletonScenarios;
+    let skeletonScenarios: Scenario[];
     let testSetVersion: string | undefined;
 
+    // Replaying a run needs its cassette, and its scenarios unless a test set is given
+    const replayRun = replayRunId ? await loadBenchmarkRun(replayRunId) : null;
+    if (replayRunId && !replayRun) {
+      return NextResponse.json(
+        { error: `Run "${replayRunId}" not found` },
+        { status: 404 }
+      );
+    }
+    if (model === "mock/replay" && !replayRun) {
+      return NextResponse.json(
+        { error: "replayRunId is required for mock/replay" },
+        { status: 400 }
+      );
+    }
+
     if (testSetName) {
       // Load scenarios from existing test set
       const testSet = await loadTestSet(testSetName);
@@ -63,6 +129,11 @@ export async function POST(request: Request) {
       testSetVersion = testSet.version;
 
       console.log(`Using test set: ${testSetName} (${testSet.scenarioCount} scenarios)`);
+    } else if (replayRun) {
+      skeletonScenarios = replayRun.scenarios;
+      actualDomainId = replayRun.domainId;
+
+      console.log(`Replaying run: ${replayRun.id} (${replayRun.scenarios.length} scenarios)`);
     } else {
       // Generate new scenarios
       if (!domainId) {
@@ -72,9 +143,6 @@ export async function POST(request: Request) {
         );
       }
 
-      // Get API key for potential narrative generation
-      const apiKey = process.env.OPENROUTER_API_KEY;
-
       // Load domain config
       const domainConfig = await loadDomainConfig(domainId);
       if (!domainConfig) {
@@ -85,6 +153,7 @@ export async function POST(request: Request) {
       skeletonScenarios = generateScenarios(domainConfig, {
         count: scenarioCount,
         generateTwins,
+        generateDistractorPairs,
         seed,
       });
     }
@@ -100,16 +169,21 @@ export async function POST(request: Request) {
     // Validate rollouts (1-10)
     const rollouts = Math.max(1, Math.min(10, rolloutsPerScenario));
 
-    // Get API key from environment
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
+    // Get API key from environment (local servers and the mock provider don't need one)
+    const llmProvider = getProvider(provider)!;
+    const apiKey = getProviderApiKey(provider);
+    if (llmProvider.requiresApiKey && !apiKey) {
       return NextResponse.json(
-        { error: "OPENROUTER_API_KEY not configured" },
+        { error: `${llmProvider.apiKeyEnv} not configured` },
         { status: 500 }
       );
     }
+    const providerBaseUrl = getProviderBaseUrl(provider, baseUrl);
+
+    // Narratives may come from a different provider than the one under test
+    const narrativeApiKey = getProviderApiKey(narrativeProvider);
 
-    // Load domain config and facts
+    // Check the domain exists before queueing
     const domainConfig = await loadDomainConfig(actualDomainId);
     const expertFacts = await loadExpertFacts(actualDomainId);
 
@@ -117,247 +191,66 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Domain not found" }, { status: 404 });
     }
 
-    // Create run ID and start time
+    // Ablation runs compare template descriptions only (replayed ablation runs already have their counterfactuals)
+    if (mode === "ablation" && !skeletonScenarios.some((s) => s.ablation)) {
+      skeletonScenarios = generateAblationScenarios(domainConfig, skeletonScenarios);
+    }
+
+    // Create run ID (startedAt is set when the queue picks the run up)
     const runId = uuidv4();
-    const startedAt = new Date().toISOString();
+    const createdAt = new Date().toISOString();
 
     // Initialize placeholder results
-    const initialResults: ScenarioResult[] = skeletonScenarios.map((scenario) => ({
-      scenarioId: scenario.id,
-      status: "pending" as const,
-      rollouts: [],
-      meanPrediction: 0,
-      stdDeviation: 0,
-      minPrediction: 0,
-      maxPrediction: 0,
-      error: 0,
-      absoluteError: 0,
-      withinTolerance: false,
-      rolloutConsistency: 0,
-    }));
+    const initialResults: ScenarioResult[] = skeletonScenarios.map((scenario) =>
+      createPendingResult(scenario.id)
+    );
 
     // Create initial run - either generating narratives or running directly
-    const shouldGenerateNarratives = !testSetName && useNarrativeDescriptions;
+    const narrativeKeyMissing = getProvider(narrativeProvider)!.requiresApiKey && !narrativeApiKey;
+    if (!testSetName && !replayRun && useNarrativeDescriptions && narrativeKeyMissing) {
+      console.warn(`No API key for narrative provider "${narrativeProvider}", using template descriptions`);
+    }
+    const shouldGenerateNarratives =
+      mode !== "ablation" && !testSetName && !replayRun && useNarrativeDescriptions && !narrativeKeyMissing;
 
     const run: BenchmarkRun = {
       id: runId,
-      timestamp: startedAt,
+      timestamp: createdAt,
       domainId: actualDomainId,
       model,
+      provider,
+      providerBaseUrl: provider === "openai-compatible" ? providerBaseUrl : undefined,
       promptStrategy: promptTemplateId || "custom",
       promptTemplate,
       rolloutsPerScenario: rollouts,
-      status: shouldGenerateNarratives ? "generating_narratives" : "running",
-      startedAt,
+      mode: mode === "ablation" ? "ablation" : undefined,
+      structuredOutput: structuredOutput === true || undefined,
+      status: "queued",
+      seed,
       testSetName, // NEW: Reference to test set if used
       testSetVersion, // NEW: Version of test set if used
-      useNarrativeDescriptions,
-      narrativeModel: useNarrativeDescriptions ? narrativeModel : undefined,
+      replayRunId: replayRun?.id,
+      mockNoiseStdDev: provider === "mock" ? noiseStdDev : undefined,
+      maxRetries: typeof maxRetries === "number" ? Math.max(0, Math.min(10, maxRetries)) : undefined,
+      maxConcurrency: typeof maxConcurrency === "number" ? Math.max(1, Math.min(64, Math.floor(maxConcurrency))) : undefined,
+      useCache: useCache !== false,
+      useNarrativeDescriptions: mode !== "ablation" && useNarrativeDescriptions,
+      narrativeModel: mode !== "ablation" && useNarrativeDescriptions ? narrativeModel : undefined,
+      narrativeProvider: shouldGenerateNarratives ? narrativeProvider : undefined,
       narrativesGenerated: shouldGenerateNarratives ? 0 : undefined,
       narrativesTotal: shouldGenerateNarratives ? skeletonScenarios.length : undefined,
+      judgeModel: judgeModel || undefined,
+      judgeProvider: judgeModel ? judgeProvider : undefined,
+      judgeTemplate: judgeModel ? judgeTemplate : undefined,
       scenarios: skeletonScenarios,
       results: initialResults,
     };
 
-    // Save initial run state
-    await saveBenchmarkRun(run);
-
-    // If using narrative descriptions (and not from test set), generate them in parallel batches
-    if (shouldGenerateNarratives) {
-      console.log(`Generating ${skeletonScenarios.length} scenarios with LLM-based narratives (parallel)...`);
-      
-      const NARRATIVE_BATCH_SIZE = 5; // Process 5 narratives in parallel
-      
-      for (let batchStart = 0; batchStart < skeletonScenarios.length; batchStart += NARRATIVE_BATCH_SIZE) {
-        const batchEnd = Math.min(batchStart + NARRATIVE_BATCH_SIZE, skeletonScenarios.length);
-        const batchIndices = Array.from({ length: batchEnd - batchStart }, (_, i) => batchStart + i);
-        
-        // Generate narratives for this batch in parallel
-        const batchPromises = batchIndices.map(async (i) => {
-          const scenario = skeletonScenarios[i];
-          const narrativeSeed = (seed || Date.now()) + i * 1000;
-          
-          try {
-            const narrative = await generateNarrativeDescription(
-              domainConfig,
-              scenario.anchor,
-              scenario.appliedDeltas,
-              scenario.distractors,
-              narrativeSeed,
-              { apiKey, model: narrativeModel }
-            );
-            
-            return {
-              index: i,
-              description: narrative.description,
-            };
-          } catch (error) {
-            console.error(`Failed to generate narrative for scenario ${i}:`, error);
-            return {
-              index: i,
-              description: generateFallbackDescriptionSync(
-                domainConfig,
-                scenario.anchor,
-                scenario.appliedDeltas,
-                scenario.distractors
-              ),
-            };
-          }
-        });
-        
-        const batchResults = await Promise.all(batchPromises);
-        
-        // Update scenarios with generated narratives
-        for (const result of batchResults) {
-          run.scenarios[result.index] = {
-            ...skeletonScenarios[result.index],
-            contextDescription: result.description,
-          };
-        }
-        
-        // Update progress
-        run.narrativesGenerated = batchEnd;
-        await saveBenchmarkRun(run);
-        
-        // Small delay between batches to avoid rate limiting
-        if (batchEnd < skeletonScenarios.length) {
-          await new Promise((resolve) => setTimeout(resolve, 200));
-        }
-      }
-      
-      console.log(`Generated ${skeletonScenarios.length} scenarios with narratives`);
-      
-      // Transition to running status
-      run.status = "running";
-      await saveBenchmarkRun(run);
-    }
-
-    // Run scenarios through the LLM in parallel batches
-    const config: OpenRouterConfig = {
-      apiKey,
-      model,
-      temperature: 0.3,
-    };
-
-    const SCENARIO_BATCH_SIZE = 3; // Process 3 scenarios in parallel (each may have multiple rollouts)
-
-    for (let batchStart = 0; batchStart < run.scenarios.length; batchStart += SCENARIO_BATCH_SIZE) {
-      const batchEnd = Math.min(batchStart + SCENARIO_BATCH_SIZE, run.scenarios.length);
-      const batchIndices = Array.from({ length: batchEnd - batchStart }, (_, i) => batchStart + i);
-      
-      // Mark scenarios in this batch as running
-      const scenarioStartTimes: Record<number, string> = {};
-      for (const i of batchIndices) {
-        const scenarioStartedAt = new Date().toISOString();
-        scenarioStartTimes[i] = scenarioStartedAt;
-        run.results[i] = {
-          ...run.results[i],
-          status: "running",
-          startedAt: scenarioStartedAt,
-        };
-      }
-      await saveBenchmarkRun(run);
-
-      // Run this batch of scenarios in parallel
-      const batchPromises = batchIndices.map(async (i) => {
-        const scenario = run.scenarios[i];
-        const scenarioStartedAt = scenarioStartTimes[i];
-
-        const prompt = renderPrompt(
-          promptTemplate,
-          domainConfig,
-          expertFacts,
-          scenario
-        );
-
-        try {
-          // Run multiple rollouts for variance estimation
-          const llmResults = await callOpenRouterMultiple(prompt, config, rollouts);
-          const result = evaluateMultipleRollouts(scenario, llmResults);
-          
-          // Calculate additional metrics
-          const difficulty = calculateScenarioDifficulty(scenario, domainConfig);
-          const errorPattern = detectErrorPattern(scenario, result, domainConfig);
-          
-          return {
-            index: i,
-            result: {
-              ...result,
-              status: "completed" as const,
-              startedAt: scenarioStartedAt,
-              completedAt: new Date().toISOString(),
-              difficulty,
-              errorPattern,
-              renderedPrompt: prompt,
-            },
-          };
-        } catch (error) {
-          return {
-            index: i,
-            result: {
-              scenarioId: scenario.id,
-              status: "failed" as const,
-              startedAt: scenarioStartedAt,
-              completedAt: new Date().toISOString(),
-              rollouts: [{
-                prediction: 0,
-                reasoning: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-                latencyMs: 0,
-              }],
-              meanPrediction: 0,
-              stdDeviation: 0,
-              minPrediction: 0,
-              maxPrediction: 0,
-              error: scenario.groundTruth.value,
-              absoluteError: scenario.groundTruth.value,
-              withinTolerance: false,
-              rolloutConsistency: 0,
-              renderedPrompt: prompt,
-            },
-          };
-        }
-      });
-
-      const batchResults = await Promise.all(batchPromises);
-      
-      // Update results
-      for (const { index, result } of batchResults) {
-        run.results[index] = result;
-      }
-
-      // Save after each batch completes
-      await saveBenchmarkRun(run);
-
-      // Small delay between batches to avoid rate limiting
-      if (batchEnd < run.scenarios.length) {
-        await new Promise((resolve) => setTimeout(resolve, 200));
-      }
-    }
-
-    // Calculate aggregate metrics and mark run as completed
-    const completedResults = run.results.filter(r => r.status === "completed" || r.status === "failed");
-    const baseMetrics = calculateAggregateMetrics(run.scenarios, completedResults);
-    
-    // Calculate difficulty and error pattern summaries
-    const difficultyMetrics = calculateDifficultyMetrics(run.scenarios, domainConfig);
-    const errorPatternSummary = analyzeErrorPatterns(run.scenarios, completedResults, domainConfig);
-
-    run.status = "completed";
-    run.completedAt = new Date().toISOString();
-    
-    // Merge all metrics - baseMetrics is guaranteed to have required fields
-    if (baseMetrics) {
-      run.aggregateMetrics = {
-        ...baseMetrics,
-        avgDifficulty: difficultyMetrics.avgDifficulty,
-        difficultyDistribution: difficultyMetrics.distribution,
-        errorPatternSummary,
-      };
-    }
-
+    // Save initial run state and hand it to the background queue
     await saveBenchmarkRun(run);
+    enqueueRun(run.id);
 
-    return NextResponse.json(run);
+    return NextResponse.json(run, { status: 202 });
   } catch (error) {
     console.error("Error creating run:", error);
     return NextResponse.json(
@@ -0,0 +1,157 @@
+import { NextResponse } from "next/server";
+import {
+  listBenchmarkRuns,
+  loadTestSet,
+  saveTestSet,
+  loadDomainConfig,
+} from "@/lib/storage";
+import { generateScenariosWithNarrative, generateScenarios } from "@/lib/generator";
+import { describeWeakness, mineWeaknesses } from "@/lib/adversarial";
+import type { TestSet } from "@/domains/schema";
+
+/**
+ * POST /api/test-sets/mine
+ * Create an adversarial test set from past failures: mine the weaknesses of
+ * stored runs and generate scenarios near their failed examples. The set is
+ * saved as "<name>-v<n>" with version n.0.0, n the first version not yet taken.
+ *
+ * Body:
+ *   - domainId: Domain ID (required)
+ *   - runIds: Runs to mine (default: every run of the domain)
+ *   - name: Base name (default: adversarial-<domainId>)
+ *   - description: Description (optional)
+ *   - size: Number of base scenarios (default: 10)
+ *   - maxWeaknesses: Weaknesses to stress (default: 5)
+ *   - minObservations: Results that must share a feature before it counts (default: 3)
+ *   - generateTwins: Generate twin pairs (default: true)
+ *   - seed: Random seed (optional)
+ *   - useNarrativeDescriptions: Use LLM narratives (default: true)
+ *   - narrativeModel: Model for narratives (default: openai/gpt-4o-mini)
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const {
+      domainId,
+      runIds,
+      description,
+      size = 10,
+      maxWeaknesses = 5,
+      minObservations = 3,
+      generateTwins = true,
+      seed,
+      useNarrativeDescriptions = true,
+      narrativeModel = "openai/gpt-4o-mini",
+    } = body;
+    const baseName: string = body.name || `adversarial-${domainId}`;
+
+    if (!domainId) {
+      return NextResponse.json(
+        { error: "domainId is required" },
+        { status: 400 }
+      );
+    }
+
+    const domainConfig = await loadDomainConfig(domainId);
+    if (!domainConfig) {
+      return NextResponse.json(
+        { error: `Domain "${domainId}" not found` },
+        { status: 404 }
+      );
+    }
+
+    const domainRuns = (await listBenchmarkRuns()).filter((r) => r.domainId === domainId);
+    const runs = Array.isArray(runIds) ? domainRuns.filter((r) => runIds.includes(r.id)) : domainRuns;
+    if (Array.isArray(runIds)) {
+      const missing = runIds.filter((id: string) => !runs.some((r) => r.id === id));
+      if (missing.length > 0) {
+        return NextResponse.json(
+          { error: `Runs not found for domain "${domainId}": ${missing.join(", ")}` },
+          { status: 404 }
+        );
+      }
+    }
+
+    const weaknesses = mineWeaknesses(domainConfig, runs, { maxWeaknesses, minObservations });
+    if (weaknesses.length === 0) {
+      return NextResponse.json(
+        { error: `No weaknesses found in ${runs.length} run(s) of "${domainId}"` },
+        { status: 400 }
+      );
+    }
+
+    // Next free version of the base name
+    let version = 1;
+    while (await loadTestSet(`${baseName}-v${version}`)) version++;
+    const name = `${baseName}-v${version}`;
+
+    let scenarios;
+    const actualSeed = seed || Math.floor(Math.random() * 1000000000);
+
+    if (useNarrativeDescriptions) {
+      const apiKey = process.env.OPENROUTER_API_KEY;
+      if (!apiKey) {
+        return NextResponse.json(
+          { error: "OPENROUTER_API_KEY not configured" },
+          { status: 500 }
+        );
+      }
+
+      console.log(`Generating ${size} adversarial scenarios with LLM narratives...`);
+      scenarios = await generateScenariosWithNarrative(domainConfig, {
+        count: size,
+        generateTwins,
+        seed: actualSeed,
+        weaknesses,
+        narrativeConfig: { apiKey, model: narrativeModel },
+        narrativeModel,
+      });
+    } else {
+      scenarios = generateScenarios(domainConfig, {
+        count: size,
+        generateTwins,
+        seed: actualSeed,
+        weaknesses,
+      });
+    }
+
+    const sourceRunIds = Array.from(
+      new Set(weaknesses.flatMap((w) => w.examples.map((e) => e.runId)))
+    );
+
+    const testSet: TestSet = {
+      name,
+      version: `${version}.0.0`,
+      description:
+        description ||
+        `Adversarial test set with ${scenarios.length} scenarios for ${domainConfig.name}, mined from ${runs.length} run(s)`,
+      created: new Date().toISOString(),
+      domainId,
+      scenarioCount: scenarios.length,
+      seed: actualSeed,
+      generateTwins,
+      useNarrativeDescriptions,
+      narrativeModel: useNarrativeDescriptions ? narrativeModel : undefined,
+      sourceRunIds,
+      scenarios,
+      weaknesses,
+      changelog: [
+        `v${version}.0.0 (${new Date().toISOString().split('T')[0]}): Mined from ${runs.length} run(s); stresses ${weaknesses
+          .map(describeWeakness)
+          .join("; ")}`,
+      ],
+    };
+
+    await saveTestSet(testSet);
+
+    console.log(`✅ Created adversarial test set: ${name} (${scenarios.length} scenarios)`);
+
+    return NextResponse.json(testSet);
+  } catch (error) {
+    console.error("Error mining test set:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -6,7 +6,8 @@ import {
   loadDomainConfig,
 } from "@/lib/storage";
 import { generateScenariosWithNarrative, generateScenarios } from "@/lib/generator";
-import type { TestSet } from "@/domains/schema";
+import { analyzeCoverage } from "@/lib/coverage";
+import { CoverageDesignSchema, type TestSet } from "@/domains/schema";
 
 /**
  * GET /api/test-sets
@@ -35,9 +36,12 @@ export async function GET() {
  *   - domainId: Domain ID (default: real-estate-yield)
  *   - size: Number of base scenarios (default: 10)
  *   - generateTwins: Generate twin pairs (default: true)
+ *   - generateDistractorPairs: Generate clean/distracted variant pairs (default: false)
  *   - seed: Random seed (optional)
  *   - useNarrativeDescriptions: Use LLM narratives (default: true)
  *   - narrativeModel: Model for narratives (default: openai/gpt-4o-mini)
+ *   - design: Coverage design for stratified generation (optional): deltaOccurrences,
+ *     pairwiseDeltas, difficultyMix ({ level: share }), distractorShare (0-1)
  */
 export async function POST(request: Request) {
   try {
@@ -48,6 +52,7 @@ export async function POST(request: Request) {
       domainId = "real-estate-yield",
       size = 10,
       generateTwins = true,
+      generateDistractorPairs = false,
       seed,
       useNarrativeDescriptions = true,
       narrativeModel = "openai/gpt-4o-mini",
@@ -60,6 +65,15 @@ export async function POST(request: Request) {
       );
     }
 
+    const parsedDesign = body.design !== undefined ? CoverageDesignSchema.safeParse(body.design) : undefined;
+    if (parsedDesign && !parsedDesign.success) {
+      return NextResponse.json(
+        { error: `Invalid design: ${parsedDesign.error.issues.map((i) => `${i.path.join(".")} ${i.message}`).join("; ")}` },
+        { status: 400 }
+      );
+    }
+    const design = parsedDesign?.data;
+
     // Check if test set already exists
     const existing = await loadTestSet(name);
     if (existing) {
@@ -95,7 +109,9 @@ export async function POST(request: Request) {
       scenarios = await generateScenariosWithNarrative(domainConfig, {
         count: size,
         generateTwins,
+        generateDistractorPairs,
         seed: actualSeed,
+        design,
         narrativeConfig: { apiKey, model: narrativeModel },
         narrativeModel,
       });
@@ -103,7 +119,9 @@ export async function POST(request: Request) {
       scenarios = generateScenarios(domainConfig, {
         count: size,
         generateTwins,
+        generateDistractorPairs,
         seed: actualSeed,
+        design,
       });
     }
 
@@ -117,9 +135,11 @@ export async function POST(request: Request) {
       scenarioCount: scenarios.length,
       seed: actualSeed,
       generateTwins,
+      generateDistractorPairs: generateDistractorPairs || undefined,
       useNarrativeDescriptions,
       narrativeModel: useNarrativeDescriptions ? narrativeModel : undefined,
       scenarios,
+      coverage: design ? analyzeCoverage(domainConfig, scenarios, design) : undefined,
       changelog: [
         `v1.0.0 (${new Date().toISOString().split('T')[0]}): Initial version`,
       ],
@@ -16,12 +16,36 @@ import {
   ScatterChart,
   Scatter,
   Cell,
+  ErrorBar,
 } from "recharts";
-import type { BenchmarkRun } from "@/domains/schema";
+import type { BenchmarkRun, MetricInterval } from "@/domains/schema";
+import { calculateAggregateMetrics, summarizeRolloutFailures } from "@/lib/evaluator";
+import {
+  SIGNIFICANCE_LEVEL,
+  comparePaired,
+  groupRunsByConfiguration,
+  summarizeConfiguration,
+  type ConfidenceInterval,
+} from "@/lib/significance";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Format an estimate with its confidence interval, e.g. "62.5% [40.0–85.0]"
+function formatCI(ci: ConfidenceInterval | undefined, digits: number, unit = ""): string {
+  if (!ci) return "—";
+  return `${ci.estimate.toFixed(digits)}${unit} [${ci.lower.toFixed(digits)}–${ci.upper.toFixed(digits)}]`;
+}
 
 export default function Compare() {
   const [runs, setRuns] = useState<BenchmarkRun[]>([]);
   const [loading, setLoading] = useState(true);
+  const [significanceTestSet, setSignificanceTestSet] = useState<string>("");
+  const [modelSort, setModelSort] = useState<"hitRate" | "judgeScore">("hitRate");
 
   useEffect(() => {
     fetch("/api/runs")
@@ -77,22 +101,52 @@ export default function Compare() {
     return acc;
   }, {} as Record<string, BenchmarkRun[]>);
 
+  // Hit rate and RMSE over the pooled results of a group, with error bar
+  // offsets ([below, above]) from 95% intervals over the same results
+  const getPooledAccuracy = (groupRuns: BenchmarkRun[]) => {
+    const metrics = calculateAggregateMetrics(
+      groupRuns.flatMap((r) => r.scenarios),
+      groupRuns.flatMap((r) => r.results)
+    );
+    const hitRate = metrics?.hitRate ?? 0;
+    const rmse = metrics?.rmse ?? 0;
+    const toOffsets = (value: number, interval?: MetricInterval) =>
+      interval ? [Math.max(0, value - interval.lower), Math.max(0, interval.upper - value)] : [0, 0];
+    return {
+      hitRate,
+      rmse,
+      hitRateError: toOffsets(hitRate, metrics?.intervals?.hitRate),
+      rmseError: toOffsets(rmse, metrics?.intervals?.rmse),
+    };
+  };
+
   // Prepare chart data - model comparison
-  const modelChartData = Object.entries(byModel).map(([model, modelRuns]) => ({
-    name: model,
-    hitRate: modelRuns.reduce((sum, r) => sum + (r.aggregateMetrics?.hitRate ?? 0), 0) / modelRuns.length,
-    rmse: modelRuns.reduce((sum, r) => sum + (r.aggregateMetrics?.rmse ?? 0), 0) / modelRuns.length,
-    latency: modelRuns.reduce((sum, r) => sum + (r.aggregateMetrics?.avgLatencyMs ?? 0), 0) / modelRuns.length,
-    runs: modelRuns.length,
-  }));
+  const modelChartData = Object.entries(byModel).map(([model, modelRuns]) => {
+    // Judge scores only exist for runs with a judge model
+    const judgeScores = modelRuns
+      .map((r) => r.aggregateMetrics?.judgeScore)
+      .filter((score): score is number => score !== undefined);
+    return {
+      name: model,
+      ...getPooledAccuracy(modelRuns),
+      judgeScore: judgeScores.length > 0
+        ? judgeScores.reduce((sum, score) => sum + score, 0) / judgeScores.length
+        : undefined,
+      latency: modelRuns.reduce((sum, r) => sum + (r.aggregateMetrics?.avgLatencyMs ?? 0), 0) / modelRuns.length,
+      ...summarizeRolloutFailures(modelRuns),
+      runs: modelRuns.length,
+    };
+  });
 
   // Prepare chart data - strategy comparison
-  const strategyChartData = Object.entries(byStrategy).map(([strategy, strategyRuns]) => ({
-    name: strategy.replace(/-/g, " "),
-    hitRate: strategyRuns.reduce((sum, r) => sum + (r.aggregateMetrics?.hitRate ?? 0), 0) / strategyRuns.length,
-    rmse: strategyRuns.reduce((sum, r) => sum + (r.aggregateMetrics?.rmse ?? 0), 0) / strategyRuns.length,
-    runs: strategyRuns.length,
-  }));
+  const strategyChartData = Object.entries(byStrategy).map(([strategy, strategyRuns]) => {
+    return {
+      name: strategy.replace(/-/g, " "),
+      ...getPooledAccuracy(strategyRuns),
+      ...summarizeRolloutFailures(strategyRuns),
+      runs: strategyRuns.length,
+    };
+  });
 
   // Scatter plot data - accuracy vs latency
   const scatterData = completedRuns.map((run) => ({
@@ -103,6 +157,23 @@ export default function Compare() {
     id: run.id,
   }));
 
+  // Paired significance testing needs runs on the same scenarios, i.e. the same version of a test set
+  const getTestSetKey = (run: BenchmarkRun) =>
+    run.testSetName ? `${run.testSetName}@${run.testSetVersion ?? ""}` : undefined;
+  const testSets = new Map<string, string>();
+  for (const run of completedRuns) {
+    const key = getTestSetKey(run);
+    if (key) testSets.set(key, run.testSetVersion ? `${run.testSetName} v${run.testSetVersion}` : run.testSetName!);
+  }
+  const testSetKeys = [...testSets.keys()];
+  const activeTestSet = testSetKeys.includes(significanceTestSet) ? significanceTestSet : testSetKeys[0];
+  const configurationSummaries = activeTestSet
+    ? Object.values(groupRunsByConfiguration(completedRuns.filter((r) => getTestSetKey(r) === activeTestSet)))
+        .map((configRuns) => summarizeConfiguration(configRuns))
+        .sort((a, b) => a.meanAbsoluteError - b.meanAbsoluteError)
+    : [];
+  const referenceConfiguration = configurationSummaries[0];
+
   // Color mapping by provider
   const getModelColor = (modelName: string): string => {
     const lowerModel = modelName.toLowerCase();
@@ -176,6 +247,7 @@ export default function Compare() {
           <TabsTrigger value="strategies">By Strategy</TabsTrigger>
           <TabsTrigger value="scatter">Accuracy vs Latency</TabsTrigger>
           <TabsTrigger value="matrix">Full Matrix</TabsTrigger>
+          <TabsTrigger value="significance">Significance</TabsTrigger>
         </TabsList>
 
         {/* By Model */}
@@ -204,6 +276,7 @@ export default function Compare() {
                         {modelChartData.map((entry, index) => (
                           <Cell key={`cell-${index}`} fill={getModelColor(entry.name)} />
                         ))}
+                        <ErrorBar dataKey="hitRateError" direction="x" width={4} stroke="hsl(var(--foreground))" />
                       </Bar>
                     </BarChart>
                   </ResponsiveContainer>
@@ -234,6 +307,7 @@ export default function Compare() {
                         {modelChartData.map((entry, index) => (
                           <Cell key={`cell-${index}`} fill={getModelColor(entry.name)} />
                         ))}
+                        <ErrorBar dataKey="rmseError" direction="x" width={4} stroke="hsl(var(--foreground))" />
                       </Bar>
                     </BarChart>
                   </ResponsiveContainer>
@@ -244,13 +318,27 @@ export default function Compare() {
 
           {/* Model Summary Table */}
           <Card>
-            <CardHeader>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
               <CardTitle>Model Summary</CardTitle>
+              <Select value={modelSort} onValueChange={(value) => setModelSort(value as typeof modelSort)}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hitRate">Sort by hit rate</SelectItem>
+                  <SelectItem value="judgeScore">Sort by judge score</SelectItem>
+                </SelectContent>
+              </Select>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
                 {modelChartData
-                  .sort((a, b) => b.hitRate - a.hitRate)
+                  // Models without judged runs go last when sorting by judge score
+                  .sort((a, b) =>
+                    modelSort === "judgeScore"
+                      ? (b.judgeScore ?? -Infinity) - (a.judgeScore ?? -Infinity) || b.hitRate - a.hitRate
+                      : b.hitRate - a.hitRate
+                  )
                   .map((model, i) => (
                     <div
                       key={model.name}
@@ -274,6 +362,12 @@ export default function Compare() {
                             {model.hitRate.toFixed(1)}%
                           </p>
                         </div>
+                        <div title="Mean LLM-as-judge reasoning score (1-5)">
+                          <p className="text-sm text-muted-foreground">Judge Score</p>
+                          <p className="text-lg font-mono font-semibold">
+                            {model.judgeScore !== undefined ? model.judgeScore.toFixed(2) : "—"}
+                          </p>
+                        </div>
                         <div>
                           <p className="text-sm text-muted-foreground">RMSE</p>
                           <p className="text-lg font-mono font-semibold">
@@ -286,6 +380,12 @@ export default function Compare() {
                             {Math.round(model.latency)}ms
                           </p>
                         </div>
+                        <div title={`${model.rolloutErrorRate.toFixed(1)}% of ${model.totalRollouts} rollouts failed`}>
+                          <p className="text-sm text-muted-foreground">Parse Failures</p>
+                          <p className={`text-lg font-mono font-semibold ${model.parseFailureRate > 0 ? "text-amber-400" : ""}`}>
+                            {model.parseFailureRate.toFixed(1)}%
+                          </p>
+                        </div>
                       </div>
                     </div>
                   ))}
@@ -316,7 +416,9 @@ export default function Compare() {
                           borderRadius: "8px",
                         }}
                       />
-                      <Bar dataKey="hitRate" fill="var(--chart-3)" radius={[4, 4, 0, 0]} />
+                      <Bar dataKey="hitRate" fill="var(--chart-3)" radius={[4, 4, 0, 0]}>
+                        <ErrorBar dataKey="hitRateError" width={4} stroke="hsl(var(--foreground))" />
+                      </Bar>
                     </BarChart>
                   </ResponsiveContainer>
                 </div>
@@ -342,13 +444,56 @@ export default function Compare() {
                           borderRadius: "8px",
                         }}
                       />
-                      <Bar dataKey="rmse" fill="var(--chart-4)" radius={[4, 4, 0, 0]} />
+                      <Bar dataKey="rmse" fill="var(--chart-4)" radius={[4, 4, 0, 0]}>
+                        <ErrorBar dataKey="rmseError" width={4} stroke="hsl(var(--foreground))" />
+                      </Bar>
                     </BarChart>
                   </ResponsiveContainer>
                 </div>
               </CardContent>
             </Card>
           </div>
+
+          {/* Strategy Failure Rates */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Rollout Failures by Strategy</CardTitle>
+              <CardDescription>
+                Failed rollouts are excluded from hit rate and RMSE and reported here instead
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {strategyChartData.map((strategy) => (
+                  <div
+                    key={strategy.name}
+                    className="flex items-center justify-between p-3 rounded-lg bg-muted/50"
+                  >
+                    <div>
+                      <h4 className="font-semibold capitalize">{strategy.name}</h4>
+                      <p className="text-sm text-muted-foreground">
+                        {strategy.totalRollouts} rollouts across {strategy.runs} run{strategy.runs !== 1 ? "s" : ""}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-8 text-right">
+                      <div>
+                        <p className="text-sm text-muted-foreground">Parse Failures</p>
+                        <p className={`text-lg font-mono font-semibold ${strategy.parseFailureRate > 0 ? "text-amber-400" : ""}`}>
+                          {strategy.parseFailureRate.toFixed(1)}%
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">All Failures</p>
+                        <p className={`text-lg font-mono font-semibold ${strategy.rolloutErrorRate > 0 ? "text-red-400" : ""}`}>
+                          {strategy.rolloutErrorRate.toFixed(1)}%
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         {/* Scatter Plot */}
@@ -481,6 +626,105 @@ export default function Compare() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Significance */}
+        <TabsContent value="significance">
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>Paired Comparison on a Shared Test Set</CardTitle>
+                  <CardDescription>
+                    95% bootstrap intervals per configuration. Each configuration is compared with the most
+                    accurate one on per-scenario absolute error (paired permutation and Wilcoxon signed-rank
+                    tests, significant at p &lt; {SIGNIFICANCE_LEVEL}). Repeated runs are averaged per scenario.
+                  </CardDescription>
+                </div>
+                {testSetKeys.length > 0 && (
+                  <Select value={activeTestSet} onValueChange={setSignificanceTestSet}>
+                    <SelectTrigger className="w-[220px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[...testSets].map(([key, label]) => (
+                        <SelectItem key={key} value={key}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {configurationSummaries.length === 0 ? (
+                <div className="py-8 text-center text-muted-foreground">
+                  No completed runs on a test set yet. Paired comparisons need runs that share scenarios.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr>
+                        <th className="text-left p-2 border-b border-border">Configuration</th>
+                        <th className="text-right p-2 border-b border-border">Runs</th>
+                        <th className="text-right p-2 border-b border-border">Hit Rate</th>
+                        <th className="text-right p-2 border-b border-border">RMSE</th>
+                        <th className="text-right p-2 border-b border-border">Directional</th>
+                        <th className="text-right p-2 border-b border-border">Δ Abs. Error vs #1</th>
+                        <th className="text-right p-2 border-b border-border">p (perm. / Wilcoxon)</th>
+                        <th className="text-center p-2 border-b border-border">vs #1</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {configurationSummaries.map((summary, i) => {
+                        const comparison = i > 0 ? comparePaired(referenceConfiguration, summary) : null;
+                        return (
+                          <tr key={summary.key}>
+                            <td className="p-2 border-b border-border">
+                              <span className="text-muted-foreground mr-2">#{i + 1}</span>
+                              <span className="font-medium">{summary.model.split("/").pop()}</span>
+                              <span className="text-muted-foreground capitalize"> · {summary.promptStrategy.replace(/-/g, " ")}</span>
+                            </td>
+                            <td className="text-right p-2 border-b border-border font-mono">{summary.runIds.length}</td>
+                            <td className="text-right p-2 border-b border-border font-mono">{formatCI(summary.hitRate, 1, "%")}</td>
+                            <td className="text-right p-2 border-b border-border font-mono">{formatCI(summary.rmse, 3)}</td>
+                            <td className="text-right p-2 border-b border-border font-mono">{formatCI(summary.directionalAccuracy, 0, "%")}</td>
+                            <td className="text-right p-2 border-b border-border font-mono">
+                              {comparison ? formatCI(comparison.meanDifference, 3) : "—"}
+                            </td>
+                            <td className="text-right p-2 border-b border-border font-mono">
+                              {comparison
+                                ? `${comparison.permutationPValue.toFixed(3)} / ${comparison.wilcoxonPValue.toFixed(3)}`
+                                : "—"}
+                            </td>
+                            <td className="text-center p-2 border-b border-border">
+                              {!comparison ? (
+                                <Badge variant="secondary">reference</Badge>
+                              ) : comparison.significant && (comparison.meanDifference?.estimate ?? 0) < 0 ? (
+                                <Badge className="bg-emerald-500/20 text-emerald-400" title={`${comparison.sharedScenarios} shared scenarios`}>
+                                  better
+                                </Badge>
+                              ) : comparison.significant ? (
+                                <Badge className="bg-red-500/20 text-red-400" title={`${comparison.sharedScenarios} shared scenarios`}>
+                                  worse
+                                </Badge>
+                              ) : (
+                                <Badge variant="outline" className="text-muted-foreground" title={`${comparison.sharedScenarios} shared scenarios`}>
+                                  not significant
+                                </Badge>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -599,6 +599,12 @@ export default function Dashboard() {
                         {run.status === "running" && (
                           <span className="text-amber-400 animate-pulse">●</span>
                         )}
+                        {run.status === "queued" && (
+                          <span className="text-sky-400 animate-pulse">●</span>
+                        )}
+                        {run.status === "paused" && (
+                          <span className="text-slate-400">●</span>
+                        )}
                         {formatDate(run.timestamp)}
                       </div>
                     </TableCell>
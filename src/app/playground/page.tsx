@@ -16,8 +16,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
-import type { PromptTemplate, Scenario, ScenarioResult, RolloutResult, TestSet } from "@/domains/schema";
+import type { BenchmarkRun, PromptTemplate, Scenario, ScenarioResult, RolloutResult, TestSet } from "@/domains/schema";
 import { AVAILABLE_MODELS } from "@/lib/openrouter";
+import { AVAILABLE_PROVIDERS, DEFAULT_PROVIDER, MOCK_MODELS } from "@/lib/providers";
 
 interface PlaygroundRollout {
   prediction: number;
@@ -37,18 +38,27 @@ export default function Playground() {
   const router = useRouter();
   const [templates, setTemplates] = useState<PromptTemplate[]>([]);
   const [testSets, setTestSets] = useState<Array<Omit<TestSet, 'scenarios'>>>([]);
+  const [pastRuns, setPastRuns] = useState<BenchmarkRun[]>([]);
 
   // State with defaults (will be hydrated from localStorage after mount)
   const [selectedTemplate, setSelectedTemplate] = useState<string>("");
   const [customTemplate, setCustomTemplate] = useState<string>("");
   const [selectedModel, setSelectedModel] = useState<string>("openai/gpt-4o-mini");
+  const [selectedProvider, setSelectedProvider] = useState<string>(DEFAULT_PROVIDER);
+  const [providerBaseUrl, setProviderBaseUrl] = useState<string>("");
+  const [replayRunId, setReplayRunId] = useState<string>("");
   const [useTestSet, setUseTestSet] = useState<boolean>(true);
   const [selectedTestSet, setSelectedTestSet] = useState<string>("");
   const [scenarioCount, setScenarioCount] = useState<number>(5);
   const [rolloutsPerScenario, setRolloutsPerScenario] = useState<number>(3);
   const [seed, setSeed] = useState<number>(Date.now());
   const [useNarrativeDescriptions, setUseNarrativeDescriptions] = useState<boolean>(true);
+  const [useCache, setUseCache] = useState<boolean>(true);
+  const [ablationMode, setAblationMode] = useState<boolean>(false);
+  const [distractorPairs, setDistractorPairs] = useState<boolean>(false);
   const [narrativeModel, setNarrativeModel] = useState<string>("openai/gpt-4o-mini");
+  const [judgeModel, setJudgeModel] = useState<string>("none");
+  const [structuredOutput, setStructuredOutput] = useState<boolean>(false);
 
   const [loading, setLoading] = useState(false);
   const [previewLoading, setPreviewLoading] = useState(false);
@@ -62,21 +72,35 @@ export default function Playground() {
     // Load saved settings from localStorage
     const savedTemplate = localStorage.getItem('playground_template');
     const savedModel = localStorage.getItem('playground_model');
+    const savedProvider = localStorage.getItem('playground_provider');
+    const savedBaseUrl = localStorage.getItem('playground_baseUrl');
     const savedUseTestSet = localStorage.getItem('playground_useTestSet');
     const savedTestSet = localStorage.getItem('playground_testSet');
     const savedScenarioCount = localStorage.getItem('playground_scenarioCount');
     const savedRollouts = localStorage.getItem('playground_rollouts');
     const savedNarratives = localStorage.getItem('playground_narratives');
     const savedNarrativeModel = localStorage.getItem('playground_narrativeModel');
+    const savedUseCache = localStorage.getItem('playground_useCache');
+    const savedAblationMode = localStorage.getItem('playground_ablationMode');
+    const savedDistractorPairs = localStorage.getItem('playground_distractorPairs');
+    const savedJudgeModel = localStorage.getItem('playground_judgeModel');
+    const savedStructuredOutput = localStorage.getItem('playground_structuredOutput');
 
     if (savedTemplate) setSelectedTemplate(savedTemplate);
     if (savedModel) setSelectedModel(savedModel);
+    if (savedProvider) setSelectedProvider(savedProvider);
+    if (savedBaseUrl) setProviderBaseUrl(savedBaseUrl);
     if (savedUseTestSet !== null) setUseTestSet(savedUseTestSet !== 'false');
     if (savedTestSet) setSelectedTestSet(savedTestSet);
     if (savedScenarioCount) setScenarioCount(parseInt(savedScenarioCount));
     if (savedRollouts) setRolloutsPerScenario(parseInt(savedRollouts));
     if (savedNarratives !== null) setUseNarrativeDescriptions(savedNarratives !== 'false');
     if (savedNarrativeModel) setNarrativeModel(savedNarrativeModel);
+    if (savedUseCache !== null) setUseCache(savedUseCache !== 'false');
+    if (savedAblationMode !== null) setAblationMode(savedAblationMode === 'true');
+    if (savedDistractorPairs !== null) setDistractorPairs(savedDistractorPairs === 'true');
+    if (savedJudgeModel) setJudgeModel(savedJudgeModel);
+    if (savedStructuredOutput !== null) setStructuredOutput(savedStructuredOutput === 'true');
 
     setIsHydrated(true);
 
@@ -101,6 +125,12 @@ export default function Playground() {
         }
       })
       .catch((err) => console.error("Failed to load test sets:", err));
+
+    // Load past runs (replay sources for the mock provider)
+    fetch("/api/runs")
+      .then((res) => res.json())
+      .then((data) => setPastRuns(data))
+      .catch((err) => console.error("Failed to load runs:", err));
   }, []);
 
   useEffect(() => {
@@ -123,6 +153,18 @@ export default function Playground() {
     }
   }, [selectedModel, isHydrated]);
 
+  useEffect(() => {
+    if (isHydrated) {
+      localStorage.setItem('playground_provider', selectedProvider);
+    }
+  }, [selectedProvider, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated) {
+      localStorage.setItem('playground_baseUrl', providerBaseUrl);
+    }
+  }, [providerBaseUrl, isHydrated]);
+
   useEffect(() => {
     if (isHydrated) {
       localStorage.setItem('playground_useTestSet', String(useTestSet));
@@ -153,12 +195,42 @@ export default function Playground() {
     }
   }, [useNarrativeDescriptions, isHydrated]);
 
+  useEffect(() => {
+    if (isHydrated) {
+      localStorage.setItem('playground_useCache', String(useCache));
+    }
+  }, [useCache, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated) {
+      localStorage.setItem('playground_ablationMode', String(ablationMode));
+    }
+  }, [ablationMode, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated) {
+      localStorage.setItem('playground_distractorPairs', String(distractorPairs));
+    }
+  }, [distractorPairs, isHydrated]);
+
   useEffect(() => {
     if (isHydrated) {
       localStorage.setItem('playground_narrativeModel', narrativeModel);
     }
   }, [narrativeModel, isHydrated]);
 
+  useEffect(() => {
+    if (isHydrated) {
+      localStorage.setItem('playground_judgeModel', judgeModel);
+    }
+  }, [judgeModel, isHydrated]);
+
+  useEffect(() => {
+    if (isHydrated) {
+      localStorage.setItem('playground_structuredOutput', String(structuredOutput));
+    }
+  }, [structuredOutput, isHydrated]);
+
   const handlePreview = async () => {
     setPreviewLoading(true);
     try {
@@ -194,12 +266,15 @@ export default function Playground() {
         body: JSON.stringify({
           domainId: "real-estate-yield",
           model: selectedModel,
+          provider: selectedProvider,
+          baseUrl: selectedProvider === "openai-compatible" ? providerBaseUrl || undefined : undefined,
           promptTemplate: customTemplate,
           scenario: result?.scenario,
           rolloutsPerScenario,
           seed,
           useNarrativeDescription: useNarrativeDescriptions,
           narrativeModel,
+          structuredOutput,
         }),
       });
       const data = await res.json();
@@ -220,9 +295,15 @@ export default function Playground() {
     try {
       const requestBody: any = {
         model: selectedModel,
+        provider: selectedProvider,
+        baseUrl: selectedProvider === "openai-compatible" ? providerBaseUrl || undefined : undefined,
         promptTemplate: customTemplate,
         promptTemplateId: selectedTemplate,
         rolloutsPerScenario,
+        useCache,
+        mode: ablationMode ? "ablation" : "standard",
+        judgeModel: judgeModel !== "none" ? judgeModel : undefined,
+        structuredOutput,
       };
 
       if (useTestSet && selectedTestSet) {
@@ -233,6 +314,7 @@ export default function Playground() {
         requestBody.domainId = "real-estate-yield";
         requestBody.scenarioCount = scenarioCount;
         requestBody.generateTwins = true;
+        requestBody.generateDistractorPairs = distractorPairs;
         requestBody.seed = seed;
         requestBody.useNarrativeDescriptions = useNarrativeDescriptions;
         requestBody.narrativeModel = narrativeModel;
@@ -276,9 +358,11 @@ export default function Playground() {
   const selectedTestSetData = testSets.find(ts => ts.name === selectedTestSet);
   const effectiveScenarioCount = useTestSet && selectedTestSetData
     ? selectedTestSetData.scenarioCount
-    : scenarioCount * 2; // *2 for twins
-  const totalApiCalls = effectiveScenarioCount * rolloutsPerScenario;
-  const narrativeCalls = useTestSet ? 0 : (useNarrativeDescriptions ? scenarioCount * 2 : 0);
+    : scenarioCount * (distractorPairs ? 3 : 2); // *2 for twins, +1 for distracted copies
+  // A judge adds one call per rollout
+  const totalApiCalls = effectiveScenarioCount * rolloutsPerScenario * (judgeModel !== "none" ? 2 : 1);
+  // Ablation runs always use template descriptions
+  const narrativeCalls = useTestSet || ablationMode ? 0 : (useNarrativeDescriptions ? scenarioCount * (distractorPairs ? 3 : 2) : 0);
 
   return (
     <div className="container max-w-screen-2xl py-8">
@@ -300,24 +384,104 @@ export default function Playground() {
             </CardHeader>
             <CardContent className="space-y-4">
               <div>
-                <label className="text-sm font-medium mb-2 block">Model</label>
-                <Select value={selectedModel} onValueChange={setSelectedModel}>
+                <label className="text-sm font-medium mb-2 block">Provider</label>
+                <Select value={selectedProvider} onValueChange={setSelectedProvider}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {AVAILABLE_MODELS.map((model) => (
-                      <SelectItem key={model.id} value={model.id}>
-                        <span className="font-medium">{model.name}</span>
-                        <span className="text-muted-foreground ml-2">
-                          ({model.provider})
-                        </span>
+                    {AVAILABLE_PROVIDERS.map((provider) => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        <span className="font-medium">{provider.name}</span>
+                        {provider.free && (
+                          <span className="text-muted-foreground ml-2">(free)</span>
+                        )}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
 
+              {selectedProvider === "openai-compatible" && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Base URL</label>
+                  <Input
+                    value={providerBaseUrl}
+                    onChange={(e) => setProviderBaseUrl(e.target.value)}
+                    placeholder={
+                      AVAILABLE_PROVIDERS.find((p) => p.id === selectedProvider)?.defaultBaseUrl
+                    }
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="text-sm font-medium mb-2 block">Model</label>
+                {selectedProvider === "openrouter" ? (
+                  <Select value={selectedModel} onValueChange={setSelectedModel}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AVAILABLE_MODELS.map((model) => (
+                        <SelectItem key={model.id} value={model.id}>
+                          <span className="font-medium">{model.name}</span>
+                          <span className="text-muted-foreground ml-2">
+                            ({model.provider})
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : selectedProvider === "mock" ? (
+                  <Select value={selectedModel} onValueChange={setSelectedModel}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a mock policy..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MOCK_MODELS.map((model) => (
+                        <SelectItem key={model.id} value={model.id}>
+                          <span className="font-medium">{model.name}</span>
+                          <span className="text-muted-foreground ml-2">
+                            ({model.description})
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    value={selectedModel}
+                    onChange={(e) => setSelectedModel(e.target.value)}
+                    placeholder="Model ID as the provider expects it"
+                  />
+                )}
+              </div>
+
+              {selectedProvider === "mock" && selectedModel === "mock/replay" && (
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Replay Run</label>
+                  <Select value={replayRunId} onValueChange={setReplayRunId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a run to replay..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pastRuns.map((run) => (
+                        <SelectItem key={run.id} value={run.id}>
+                          <span className="font-medium">{run.model}</span>
+                          <span className="text-muted-foreground ml-2">
+                            ({run.promptStrategy}, {new Date(run.timestamp).toLocaleString()})
+                          </span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Reuses the run&apos;s scenarios unless a test set is selected
+                  </p>
+                </div>
+              )}
+
               <div>
                 <label className="text-sm font-medium mb-2 block">
                   Prompt Template
@@ -394,6 +558,17 @@ export default function Playground() {
                         {selectedTestSetData.description}
                       </p>
                     )}
+                    {selectedTestSetData?.coverage && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Coverage:{" "}
+                        {Object.keys(selectedTestSetData.coverage.deltaCounts).length -
+                          selectedTestSetData.coverage.unmetDeltas.length}
+                        /{Object.keys(selectedTestSetData.coverage.deltaCounts).length} deltas at target
+                        {selectedTestSetData.coverage.design.pairwiseDeltas &&
+                          ` • ${selectedTestSetData.coverage.pairsCovered}/${selectedTestSetData.coverage.pairsTotal} delta pairs`}
+                        {` • ${(selectedTestSetData.coverage.distractorShare * 100).toFixed(0)}% with distractors`}
+                      </p>
+                    )}
                   </div>
                 )}
               </div>
@@ -418,6 +593,99 @@ export default function Playground() {
                 </p>
               </div>
 
+              {/* Response Cache Toggle */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm font-medium">Response Cache</label>
+                  <p className="text-xs text-muted-foreground">
+                    Reuse earlier answers to identical prompts instead of paying again
+                  </p>
+                </div>
+                <button
+                  onClick={() => setUseCache(!useCache)}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    useCache ? "bg-purple-500" : "bg-muted"
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      useCache ? "translate-x-6" : "translate-x-1"
+                    }`}
+                  />
+                </button>
+              </div>
+
+              {/* Structured Output Toggle */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm font-medium">Structured Output</label>
+                  <p className="text-xs text-muted-foreground">
+                    Ask the provider for a JSON-schema response (a tool call for Anthropic) instead of
+                    parsing free text. The mock provider ignores this.
+                  </p>
+                </div>
+                <button
+                  onClick={() => setStructuredOutput(!structuredOutput)}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    structuredOutput ? "bg-purple-500" : "bg-muted"
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      structuredOutput ? "translate-x-6" : "translate-x-1"
+                    }`}
+                  />
+                </button>
+              </div>
+
+              {/* Ablation Mode Toggle */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm font-medium">Ablation Mode</label>
+                  <p className="text-xs text-muted-foreground">
+                    Also run each scenario with every delta (and the distractors) removed one at a time,
+                    to estimate the effect the model gives each factor. Uses template descriptions.
+                  </p>
+                </div>
+                <button
+                  onClick={() => setAblationMode(!ablationMode)}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    ablationMode ? "bg-purple-500" : "bg-muted"
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      ablationMode ? "translate-x-6" : "translate-x-1"
+                    }`}
+                  />
+                </button>
+              </div>
+
+              {/* LLM-as-Judge */}
+              <div>
+                <label className="text-sm font-medium mb-2 block">
+                  Judge Model
+                </label>
+                <Select value={judgeModel} onValueChange={setJudgeModel}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">
+                      <span className="font-medium">No judge</span>
+                    </SelectItem>
+                    {AVAILABLE_MODELS.map((model) => (
+                      <SelectItem key={model.id} value={model.id}>
+                        <span className="font-medium">{model.name}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Grades each rollout&apos;s reasoning against the reference calculation (one extra call per rollout)
+                </p>
+              </div>
+
               {!useTestSet && (
                 <>
                   <Separator />
@@ -444,6 +712,28 @@ export default function Playground() {
                 </div>
               </div>
 
+              {/* Distractor Pairs Toggle */}
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm font-medium">Distractor Pairs</label>
+                  <p className="text-xs text-muted-foreground">
+                    Pair each clean scenario with a copy that adds one distractor, to measure each distractor&apos;s effect
+                  </p>
+                </div>
+                <button
+                  onClick={() => setDistractorPairs(!distractorPairs)}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    distractorPairs ? "bg-purple-500" : "bg-muted"
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      distractorPairs ? "translate-x-6" : "translate-x-1"
+                    }`}
+                  />
+                </button>
+              </div>
+
               {/* Narrative Generation Toggle (only when not using test set) */}
               <div className="space-y-3">
                 <div className="flex items-center justify-between">
@@ -519,7 +809,7 @@ export default function Playground() {
                 </div>
               )}
 
-              {!useTestSet && useNarrativeDescriptions && (
+              {!useTestSet && !ablationMode && useNarrativeDescriptions && (
                 <div className="bg-purple-500/10 border border-purple-500/20 rounded-lg p-3 text-sm">
                   <span className="text-purple-400">
                     Narrative generation will add ~{narrativeCalls} LLM calls before evaluation.
@@ -585,7 +875,9 @@ export default function Playground() {
                   >
                     {runningBenchmark
                       ? `Starting benchmark...`
-                      : useTestSet
+                      : ablationMode
+                        ? `Run Ablation Benchmark`
+                        : useTestSet
                         ? `Run Benchmark (${totalApiCalls} calls)`
                         : `Run Benchmark (${narrativeCalls + totalApiCalls} calls)`}
                   </Button>
@@ -45,9 +45,94 @@ import {
   ComposedChart,
   Line,
 } from "recharts";
-import type { BenchmarkRun, Scenario, ScenarioResult, DomainConfig } from "@/domains/schema";
-import { calculateScenarioDifficulty } from "@/lib/evaluator";
+import type {
+  BenchmarkRun,
+  Scenario,
+  ScenarioResult,
+  DomainConfig,
+  RolloutStatus,
+  MetricInterval,
+  ParseStrategy,
+} from "@/domains/schema";
+import {
+  calculateScenarioDifficulty,
+  FALLBACK_PARSE_STRATEGIES,
+  getMetricIntervals,
+  getRolloutStatus,
+} from "@/lib/evaluator";
 import { formatCostCompact } from "@/lib/pricing";
+import { verifyArithmetic } from "@/lib/arithmetic";
+import type { RunEvent } from "@/lib/run-events";
+
+const IN_PROGRESS_STATUSES: BenchmarkRun["status"][] = ["queued", "generating_narratives", "running"];
+
+// Apply an incremental progress event from the run event stream
+function applyRunEvent(run: BenchmarkRun | null, event: RunEvent): BenchmarkRun | null {
+  if (event.type === "snapshot") return event.run;
+  if (!run) return run;
+
+  switch (event.type) {
+    case "status":
+      return { ...run, status: event.status, statusMessage: event.statusMessage };
+    case "narrative_generated": {
+      const scenarios = [...run.scenarios];
+      scenarios[event.index] = { ...scenarios[event.index], contextDescription: event.contextDescription };
+      return {
+        ...run,
+        scenarios,
+        narrativesGenerated: event.narrativesGenerated,
+        narrativesTotal: event.narrativesTotal,
+      };
+    }
+    case "scenario_started": {
+      const results = [...run.results];
+      // Re-run scenarios keep their earlier rollouts
+      results[event.index] = { ...results[event.index], status: "running", startedAt: event.startedAt };
+      return { ...run, results };
+    }
+    case "rollout_completed": {
+      const results = [...run.results];
+      const result = results[event.index];
+      results[event.index] = {
+        ...result,
+        rollouts: [
+          ...result.rollouts,
+          {
+            prediction: event.prediction,
+            reasoning: "",
+            latencyMs: event.latencyMs,
+            status: event.status,
+            error: event.error,
+          },
+        ],
+      };
+      return { ...run, results };
+    }
+    case "rollout_retrying":
+      // Retries are transient; the rollout arrives once it succeeds or fails
+      return run;
+    case "scenario_evaluated": {
+      const results = [...run.results];
+      results[event.index] = event.result;
+      return { ...run, results };
+    }
+    case "aggregate_updated":
+      return { ...run, aggregateMetrics: event.aggregateMetrics };
+  }
+}
+
+const ROLLOUT_STATUS_LABELS: Record<RolloutStatus, string> = {
+  ok: "OK",
+  parse_error: "Parse error",
+  http_error: "Request failed",
+  timeout: "Timed out",
+};
+
+// Helper to format a 95% confidence interval, e.g. "40.0–80.0%"
+function formatInterval(interval: MetricInterval | undefined, digits: number, unit = ""): string | null {
+  if (!interval) return null;
+  return `${interval.lower.toFixed(digits)}–${interval.upper.toFixed(digits)}${unit}`;
+}
 
 // Helper to format duration
 function formatDuration(startedAt?: string, completedAt?: string): string {
@@ -153,13 +238,36 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
     fetchRun();
   }, [resolvedParams.id]); // Only depend on id for initial fetch
 
-  // Auto-refresh while run is in progress (either generating narratives or running)
+  // Stream live progress while the run is in progress
+  const isInProgress = !!run && IN_PROGRESS_STATUSES.includes(run.status);
   useEffect(() => {
-    if (!run || (run.status !== "running" && run.status !== "generating_narratives")) return;
+    if (!isInProgress) return;
+
+    const source = new EventSource(`/api/runs/${resolvedParams.id}/events`);
+    source.onmessage = (message) => {
+      const event: RunEvent = JSON.parse(message.data);
+      setRun((prev) => applyRunEvent(prev, event));
 
-    const intervalId = setInterval(fetchRun, 1000);
-    return () => clearInterval(intervalId);
-  }, [run?.status, fetchRun]);
+      if (event.type === "scenario_evaluated") {
+        setSelectedScenario((prev) =>
+          prev && prev.scenario.id === event.result.scenarioId
+            ? { scenario: prev.scenario, result: event.result }
+            : prev
+        );
+      }
+      if (event.type === "status" && !IN_PROGRESS_STATUSES.includes(event.status)) {
+        // Stop the browser from reconnecting, then load the final metrics
+        source.close();
+        fetch(`/api/runs/${resolvedParams.id}`)
+          .then((res) => res.json())
+          .then((data) => {
+            if (!data.error) setRun(data);
+          });
+      }
+    };
+
+    return () => source.close();
+  }, [isInProgress, resolvedParams.id]);
 
   const handleDelete = async () => {
     if (!confirm("Are you sure you want to delete this run?")) return;
@@ -168,13 +276,58 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
     router.push("/");
   };
 
+  const handleRunAction = async (action: "pause" | "resume" | "cancel") => {
+    if (action === "cancel" && !confirm("Cancel this run? Finished scenarios are kept.")) return;
+
+    const res = await fetch(`/api/runs/${resolvedParams.id}/${action}`, { method: "POST" });
+    if (!res.ok) {
+      const data = await res.json();
+      alert(data.error || `Error: could not ${action} run`);
+    }
+    // Active runs stop after their current batch; the event stream picks up the change
+    fetchRun();
+  };
+
+  // Re-run failed/pending scenarios, or the given ones; new rollouts are appended
+  const handleRerun = async (scenarioIds?: string[]) => {
+    const res = await fetch(`/api/runs/${resolvedParams.id}/rerun`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(scenarioIds ? { scenarioIds } : {}),
+    });
+    if (!res.ok) {
+      const data = await res.json();
+      alert(data.error || "Error: could not re-run scenarios");
+    }
+    fetchRun();
+  };
+
+  // Top up a completed run with more rollouts per scenario
+  const handleAddRollouts = async () => {
+    const input = prompt("Rollouts to add per scenario (1-10):", "3");
+    if (input === null) return;
+
+    const res = await fetch(`/api/runs/${resolvedParams.id}/rollouts`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ count: parseInt(input, 10) }),
+    });
+    if (!res.ok) {
+      const data = await res.json();
+      alert(data.error || "Error: could not add rollouts");
+    }
+    fetchRun();
+  };
+
   // Generate distribution chart data for selected scenario
   const distributionData = useMemo(() => {
     if (!selectedScenario || selectedScenario.result.rollouts.length < 1) {
       return { gaussian: [], predictions: [], groundTruth: 0, mean: 0 };
     }
     
-    const predictions = selectedScenario.result.rollouts.map(r => r.prediction);
+    const predictions = selectedScenario.result.rollouts
+      .filter(r => getRolloutStatus(r) === "ok")
+      .map(r => r.prediction);
     const groundTruth = selectedScenario.scenario.groundTruth.value;
     const mean = selectedScenario.result.meanPrediction;
     const stdDev = selectedScenario.result.stdDeviation;
@@ -255,10 +408,19 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
     return "text-red-400";
   };
 
+  // Re-runs add the original number of rollouts per scenario, without top-ups
+  const rerunRollouts = run.rolloutsPerScenario - (run.rolloutsAdded ?? 0);
+
   // Check if this run has multiple rollouts
   const hasMultipleRollouts = run.rolloutsPerScenario > 1 || 
     run.results.some(r => r.rollouts && r.rollouts.length > 1);
 
+  const metricIntervals = run.aggregateMetrics ? getMetricIntervals(run) : undefined;
+
+  // Scenarios can be re-run once the run has stopped
+  const canRerun = ["completed", "cancelled", "failed"].includes(run.status);
+  const rerunnableCount = run.results.filter(r => r.status === "failed" || r.status === "pending").length;
+
   // Group scenarios with their results
   const scenarioResults = run.scenarios.map((scenario) => ({
     scenario,
@@ -275,6 +437,25 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
   // Get status badge styling
   const getStatusBadge = () => {
     switch (run.status) {
+      case "queued":
+        return (
+          <Badge variant="default" className="bg-sky-500/20 text-sky-400 border-sky-500/40 animate-pulse">
+            <span className="mr-1.5">●</span>
+            Queued
+          </Badge>
+        );
+      case "paused":
+        return (
+          <Badge variant="default" className="bg-slate-500/20 text-slate-300 border-slate-500/40">
+            Paused ({completedScenarios}/{totalScenarios})
+          </Badge>
+        );
+      case "cancelled":
+        return (
+          <Badge variant="default" className="bg-slate-500/20 text-slate-400 border-slate-500/40">
+            Cancelled ({completedScenarios}/{totalScenarios})
+          </Badge>
+        );
       case "generating_narratives":
         return (
           <Badge variant="default" className="bg-purple-500/20 text-purple-400 border-purple-500/40 animate-pulse">
@@ -297,7 +478,11 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
         );
       case "failed":
         return (
-          <Badge variant="default" className="bg-red-500/20 text-red-400 border-red-500/40">
+          <Badge
+            variant="default"
+            className="bg-red-500/20 text-red-400 border-red-500/40"
+            title={run.statusMessage}
+          >
             Failed
           </Badge>
         );
@@ -334,6 +519,14 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
                 </Badge>
               </>
             )}
+            {run.mode === "ablation" && (
+              <>
+                <span>•</span>
+                <Link href="/analysis" className="hover:text-foreground">
+                  <Badge variant="outline" className="text-xs">ablation</Badge>
+                </Link>
+              </>
+            )}
             <span>•</span>
             <span>
               {new Date(run.timestamp).toLocaleDateString("en-US", {
@@ -351,9 +544,48 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
                 </span>
               </>
             )}
+            {run.cacheStats && run.cacheStats.hits + run.cacheStats.misses > 0 && (
+              <>
+                <span>•</span>
+                <span className="font-mono text-xs" title="Model calls answered from the response cache">
+                  cache {run.cacheStats.hits}/{run.cacheStats.hits + run.cacheStats.misses} hits
+                </span>
+              </>
+            )}
+            {run.useCache === false && (
+              <>
+                <span>•</span>
+                <span className="text-xs">cache off</span>
+              </>
+            )}
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {["queued", "generating_narratives", "running"].includes(run.status) && (
+            <Button variant="outline" size="sm" className="h-7" onClick={() => handleRunAction("pause")}>
+              Pause
+            </Button>
+          )}
+          {run.status === "paused" && (
+            <Button variant="outline" size="sm" className="h-7" onClick={() => handleRunAction("resume")}>
+              Resume
+            </Button>
+          )}
+          {["queued", "generating_narratives", "running", "paused"].includes(run.status) && (
+            <Button variant="outline" size="sm" className="h-7" onClick={() => handleRunAction("cancel")}>
+              Cancel
+            </Button>
+          )}
+          {canRerun && rerunnableCount > 0 && (
+            <Button variant="outline" size="sm" className="h-7" onClick={() => handleRerun()}>
+              Re-run {rerunnableCount} failed/pending
+            </Button>
+          )}
+          {run.status === "completed" && (
+            <Button variant="outline" size="sm" className="h-7" onClick={handleAddRollouts}>
+              Add rollouts
+            </Button>
+          )}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" size="sm" className="h-7">
@@ -404,7 +636,17 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
       {run.status === "running" && (
         <div className="mb-4">
           <div className="flex items-center justify-between text-xs text-muted-foreground mb-1">
-            <span>Running evaluations...</span>
+            <span>
+              Running evaluations...
+              {run.aggregateMetrics && (
+                <span className="ml-2 font-mono">
+                  hit rate {run.aggregateMetrics.hitRate.toFixed(1)}%
+                  {run.aggregateMetrics.totalCost != null && (
+                    <> · cost {formatCostCompact(run.aggregateMetrics.totalCost)}</>
+                  )}
+                </span>
+              )}
+            </span>
             <span>{completedScenarios} / {totalScenarios}</span>
           </div>
           <div className="h-1.5 w-full bg-muted rounded-full overflow-hidden">
@@ -424,18 +666,33 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
             <div className={`text-lg font-mono font-bold ${run.aggregateMetrics.hitRate != null ? getHitRateColor(run.aggregateMetrics.hitRate) : ""}`}>
               {run.aggregateMetrics.hitRate != null ? `${run.aggregateMetrics.hitRate.toFixed(1)}%` : "—"}
             </div>
+            {metricIntervals?.hitRate && (
+              <div className="text-[10px] font-mono text-muted-foreground" title="95% confidence interval">
+                {formatInterval(metricIntervals.hitRate, 1, "%")}
+              </div>
+            )}
           </div>
           <div className="bg-card border rounded-lg px-3 py-2">
             <div className="text-xs text-muted-foreground">RMSE</div>
             <div className="text-lg font-mono font-bold">
               {run.aggregateMetrics.rmse != null ? run.aggregateMetrics.rmse.toFixed(3) : "—"}
             </div>
+            {metricIntervals?.rmse && (
+              <div className="text-[10px] font-mono text-muted-foreground" title="95% confidence interval">
+                {formatInterval(metricIntervals.rmse, 3)}
+              </div>
+            )}
           </div>
           <div className="bg-card border rounded-lg px-3 py-2">
             <div className="text-xs text-muted-foreground">Mean Error</div>
             <div className="text-lg font-mono font-bold">
               {run.aggregateMetrics.meanError != null ? `${run.aggregateMetrics.meanError > 0 ? "+" : ""}${run.aggregateMetrics.meanError.toFixed(3)}` : "—"}
             </div>
+            {metricIntervals?.meanError && (
+              <div className="text-[10px] font-mono text-muted-foreground" title="95% confidence interval">
+                {formatInterval(metricIntervals.meanError, 3)}
+              </div>
+            )}
           </div>
           <div className="bg-card border rounded-lg px-3 py-2">
             <div className="text-xs text-muted-foreground">Directional</div>
@@ -444,6 +701,11 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
                 ? `${run.aggregateMetrics.directionalAccuracy.toFixed(0)}%`
                 : "—"}
             </div>
+            {metricIntervals?.directionalAccuracy && (
+              <div className="text-[10px] font-mono text-muted-foreground" title="95% confidence interval">
+                {formatInterval(metricIntervals.directionalAccuracy, 0, "%")}
+              </div>
+            )}
           </div>
           <div className="bg-card border rounded-lg px-3 py-2">
             <div className="text-xs text-muted-foreground">Latency</div>
@@ -482,6 +744,37 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
         </div>
       )}
 
+      {run.aggregateMetrics?.rolloutStatusCounts && run.aggregateMetrics.rolloutErrorRate ? (
+        <div className="mb-4 text-xs text-amber-400">
+          {run.aggregateMetrics.totalRollouts! - run.aggregateMetrics.rolloutStatusCounts.ok} of {run.aggregateMetrics.totalRollouts} rollouts failed
+          ({run.aggregateMetrics.rolloutErrorRate.toFixed(1)}%): {run.aggregateMetrics.rolloutStatusCounts.parse_error} parse errors,{" "}
+          {run.aggregateMetrics.rolloutStatusCounts.http_error} request errors, {run.aggregateMetrics.rolloutStatusCounts.timeout} timeouts.
+          Failed rollouts are excluded from accuracy metrics.
+        </div>
+      ) : null}
+
+      {run.aggregateMetrics?.fallbackParseRate ? (
+        <div className="mb-4 text-xs text-amber-400">
+          {run.aggregateMetrics.fallbackParseRate.toFixed(1)}% of estimates were read from free text by fallback
+          heuristics (
+          {Object.entries(run.aggregateMetrics.parseStrategyCounts ?? {})
+            .filter(([strategy]) => FALLBACK_PARSE_STRATEGIES.includes(strategy as ParseStrategy))
+            .map(([strategy, count]) => `${count} ${strategy.replace(/_/g, " ")}`)
+            .join(", ")}
+          ) and may have picked up the wrong number.
+          {!run.structuredOutput && " Structured output avoids this on supported providers."}
+        </div>
+      ) : null}
+
+      {run.judgeModel && (
+        <div className="mb-4 text-xs text-muted-foreground">
+          Reasoning judged by {run.judgeModel.split("/").pop()} ({run.judgeTemplate}):{" "}
+          {run.aggregateMetrics?.judgeScore != null
+            ? <>mean score <span className="font-mono">{run.aggregateMetrics.judgeScore.toFixed(2)}</span>/5 over {run.aggregateMetrics.judgedRollouts} rollouts</>
+            : "no scores yet"}
+        </div>
+      )}
+
       {/* Main Content with Resizable Panels */}
       <ResizablePanelGroup orientation="horizontal" className="min-h-[600px] rounded-lg border">
         {/* Scenarios Panel */}
@@ -811,6 +1104,17 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
                   </div>
                 )}
 
+                {canRerun && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7"
+                    onClick={() => handleRerun([selectedScenario.scenario.id])}
+                  >
+                    Re-run this scenario ({rerunRollouts} more rollout{rerunRollouts !== 1 ? "s" : ""})
+                  </Button>
+                )}
+
                 {/* 3. Collapsible Rollouts - only show when there are results */}
                 {selectedScenario.result.rollouts.length > 0 && (
                 <div>
@@ -819,9 +1123,13 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
                   </h4>
                   <Accordion type="single" collapsible className="space-y-1">
                     {selectedScenario.result.rollouts.map((rollout, i) => {
-                      const hasPrediction = rollout.prediction != null;
+                      const rolloutStatus = getRolloutStatus(rollout);
+                      const hasPrediction = rollout.prediction != null && rolloutStatus === "ok";
                       const error = hasPrediction ? rollout.prediction - selectedScenario.scenario.groundTruth.value : null;
                       const withinTol = error != null && Math.abs(error) <= selectedScenario.scenario.groundTruth.tolerance;
+                      const arithmetic = hasPrediction ? verifyArithmetic(rollout.reasoning, rollout.prediction) : undefined;
+                      const wrongStep = arithmetic?.steps.find((s) => !s.correct);
+                      const judgeScore = selectedScenario.result.judge?.scores.find((s) => s.rolloutIndex === i);
                       
                       return (
                         <AccordionItem 
@@ -841,9 +1149,39 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
                                     <span className={`text-xs ${withinTol ? "text-emerald-400" : "text-red-400"}`}>
                                       ({error! > 0 ? "+" : ""}{error!.toFixed(3)}%)
                                     </span>
+                                    {rollout.low != null && rollout.high != null && (
+                                      <span className="text-xs font-mono text-muted-foreground" title="Model-reported 80% interval">
+                                        [{rollout.low.toFixed(2)}–{rollout.high.toFixed(2)}]
+                                      </span>
+                                    )}
+                                    {arithmetic && !arithmetic.consistent && (
+                                      <span
+                                        className="text-xs text-amber-400"
+                                        title={
+                                          wrongStep
+                                            ? `Calculation gives ${wrongStep.computed.toFixed(3)}, stated ${wrongStep.stated}`
+                                            : `Stated final ${arithmetic.statedFinal} differs from the returned estimate`
+                                        }
+                                      >
+                                        arithmetic
+                                      </span>
+                                    )}
+                                    {rollout.parseStrategy && FALLBACK_PARSE_STRATEGIES.includes(rollout.parseStrategy) && (
+                                      <span className="text-xs text-amber-400" title="Estimate read from free text, not JSON">
+                                        {rollout.parseStrategy.replace(/_/g, " ")}
+                                      </span>
+                                    )}
+                                    {judgeScore && (
+                                      <span
+                                        className="text-xs font-mono text-muted-foreground"
+                                        title={`Coverage ${judgeScore.factorCoverage}, direction ${judgeScore.correctDirection}, magnitude ${judgeScore.justifiedMagnitude}, no hallucination ${judgeScore.hallucinatedFacts}${judgeScore.comment ? ` — ${judgeScore.comment}` : ""}`}
+                                      >
+                                        judge {judgeScore.overall.toFixed(1)}/5
+                                      </span>
+                                    )}
                                   </>
                                 ) : (
-                                  <span className="text-red-400 text-sm">Failed</span>
+                                  <span className="text-red-400 text-sm">{ROLLOUT_STATUS_LABELS[rolloutStatus]}</span>
                                 )}
                               </div>
                               <div className="flex items-center gap-2">
@@ -866,6 +1204,11 @@ export default function RunDetail({ params }: { params: Promise<{ id: string }>
                             <div className="text-sm leading-relaxed text-muted-foreground bg-background/50 p-3 rounded">
                               {rollout.reasoning || "No reasoning provided"}
                             </div>
+                            {rolloutStatus === "parse_error" && rollout.rawResponse && (
+                              <pre className="mt-2 bg-background/50 p-3 rounded text-xs whitespace-pre-wrap font-mono max-h-[200px] overflow-auto border">
+                                {rollout.rawResponse}
+                              </pre>
+                            )}
                           </AccordionContent>
                         </AccordionItem>
                       );
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { financialPlugin } from "./index";
+import { ANCHOR_BASE_RATES, generateScenarioMetrics } from "./formula";
+
+const { config } = financialPlugin;
+const anchors = Object.keys(config.anchors);
+const seeds = [1, 42, 1234, 99999];
+
+function groundTruth(anchorKey: string, deltaKeys: string[], seed: number): number {
+  const metrics = generateScenarioMetrics(anchorKey, deltaKeys, seed);
+  return financialPlugin.computeGroundTruth!(anchorKey, deltaKeys, metrics).value;
+}
+
+describe("financial growth formula", () => {
+  it("gives the anchor's base rate when no delta applies", () => {
+    for (const anchorKey of anchors) {
+      for (const seed of seeds) {
+        expect(groundTruth(anchorKey, [], seed)).toBe(ANCHOR_BASE_RATES[anchorKey]);
+      }
+    }
+  });
+
+  it("moves the result by each config delta's value", () => {
+    for (const [deltaKey, delta] of Object.entries(config.deltas)) {
+      for (const anchorKey of anchors) {
+        for (const seed of seeds) {
+          const effect = groundTruth(anchorKey, [deltaKey], seed) - groundTruth(anchorKey, [], seed);
+          expect(effect, `${deltaKey} on ${anchorKey}`).toBe(delta.value);
+        }
+      }
+    }
+  });
+
+  it("adds up deltas that apply together", () => {
+    const deltaKeys = ["product_stagnation", "price_increase"];
+    expect(groundTruth("saas_startup_growth", deltaKeys, 7)).toBe(85 - 10 + 5);
+  });
+
+  it("ignores the anchor's own NRR and quota attainment", () => {
+    for (const seed of seeds) {
+      const metrics = generateScenarioMetrics("saas_scaleup_growth", [], seed);
+      expect(metrics.nrr).toBeGreaterThanOrEqual(100);
+      expect(metrics.nrr).toBeLessThan(110);
+      expect(metrics.quotaAttainment).toBeGreaterThanOrEqual(50);
+    }
+  });
+});
@@ -5,7 +5,13 @@
  * This replaces the abstract anchor-delta system with explicit numeric calculations.
  */
 
-import type { ScenarioMetrics, FormulaCoefficients, AnchorMetricRanges } from "../schema";
+import type {
+  CalculationStep,
+  ScenarioMetrics,
+  FormulaCoefficients,
+  AnchorMetricRanges,
+} from "../schema";
+import { createRng } from "@/lib/statistics";
 
 /**
  * Default formula coefficients for the financial domain
@@ -36,9 +42,30 @@ export const DEFAULT_FORMULA_COEFFICIENTS: FormulaCoefficients = {
 
   // Product adjustments
   productLaunch: 8, // +8%
+  productStagnation: -10, // -10%
+  priceIncrease: 5, // +5%
   pricePressure: -6, // -6%
 };
 
+/**
+ * Deltas the formula expresses through metrics (see applyDeltasToMetrics).
+ * Other deltas add their config value on top of the formula.
+ */
+export const FORMULA_DELTA_KEYS = [
+  "strong_nrr",
+  "weak_nrr",
+  "market_expansion",
+  "market_contraction",
+  "strong_sales_team",
+  "sales_challenges",
+  "product_innovation",
+  "product_stagnation",
+  "economic_tailwind",
+  "economic_headwind",
+  "price_increase",
+  "price_pressure",
+];
+
 /**
  * Base growth rates by anchor type
  * These are the starting points before any adjustments
@@ -207,7 +234,7 @@ export function calculateGrowthRate(
   anchorKey: string,
   metrics: ScenarioMetrics,
   coefficients: FormulaCoefficients = DEFAULT_FORMULA_COEFFICIENTS
-): { value: number; calculation: string } {
+): { value: number; calculation: string; steps: CalculationStep[] } {
   const baseRate = ANCHOR_BASE_RATES[anchorKey];
   if (baseRate === undefined) {
     throw new Error(`Unknown anchor: ${anchorKey}`);
@@ -292,6 +319,24 @@ export function calculateGrowthRate(
     total += coefficients.productLaunch;
   }
 
+  // Product stagnation
+  if (metrics.productStagnation && coefficients.productStagnation) {
+    adjustments.push({
+      name: "Product stagnation",
+      value: coefficients.productStagnation,
+    });
+    total += coefficients.productStagnation;
+  }
+
+  // Price increase
+  if (metrics.priceIncrease && coefficients.priceIncrease) {
+    adjustments.push({
+      name: "Price increase",
+      value: coefficients.priceIncrease,
+    });
+    total += coefficients.priceIncrease;
+  }
+
   // Price pressure
   if (metrics.pricePressure && coefficients.pricePressure) {
     adjustments.push({
@@ -312,15 +357,22 @@ export function calculateGrowthRate(
   return {
     value: total,
     calculation: calcParts.join("\n"),
+    steps: [
+      { label: `Base (${anchorKey})`, operation: "base", value: baseRate },
+      ...adjustments.map((adj): CalculationStep => ({ label: adj.name, operation: "add", value: adj.value })),
+    ],
   };
 }
 
 /**
- * Generate random metrics for an anchor type within defined ranges
+ * Generate random metrics for an anchor type within defined ranges. NRR and
+ * quota attainment stay where the formula makes no adjustment, so only
+ * applied deltas move the growth rate away from the anchor's base rate.
  */
 export function generateMetricsForAnchor(
   anchorKey: string,
-  random: () => number = Math.random
+  random: () => number,
+  coefficients: FormulaCoefficients = DEFAULT_FORMULA_COEFFICIENTS
 ): ScenarioMetrics {
   const ranges = ANCHOR_METRIC_RANGES[anchorKey];
   if (!ranges) {
@@ -335,6 +387,12 @@ export function generateMetricsForAnchor(
     return range.min + random() * (range.max - range.min);
   };
 
+  // Part of a range within [min, max); the whole band when they do not overlap
+  const within = (range: { min: number; max: number }, min: number, max: number) => {
+    const clamped = { min: Math.max(range.min, min), max: Math.min(range.max, max) };
+    return clamped.min < clamped.max ? clamped : { min, max };
+  };
+
   // Generate metrics from ranges
   if (ranges.arr) {
     metrics.arr = Math.round(inRange(ranges.arr)! * 10) / 10; // Round to 1 decimal
@@ -343,7 +401,10 @@ export function generateMetricsForAnchor(
     metrics.revenue = Math.round(inRange(ranges.revenue)! * 10) / 10;
   }
   if (ranges.nrr) {
-    metrics.nrr = Math.round(inRange(ranges.nrr)!); // Round to integer
+    const neutral = coefficients.nrr
+      ? within(ranges.nrr, coefficients.nrr.concerning.threshold, coefficients.nrr.good.threshold - 1)
+      : ranges.nrr;
+    metrics.nrr = Math.round(inRange(neutral)!); // Round to integer
   }
   if (ranges.grossRetention) {
     metrics.grossRetention = Math.round(inRange(ranges.grossRetention)!);
@@ -358,7 +419,9 @@ export function generateMetricsForAnchor(
     metrics.salesCycleMonths = Math.round(inRange(ranges.salesCycleMonths)!);
   }
   if (ranges.quotaAttainment) {
-    metrics.quotaAttainment = Math.round(inRange(ranges.quotaAttainment)!);
+    const threshold = coefficients.quotaAttainmentThreshold;
+    const healthy = threshold !== undefined ? within(ranges.quotaAttainment, threshold, 100) : ranges.quotaAttainment;
+    metrics.quotaAttainment = Math.round(inRange(healthy)!);
   }
   if (ranges.industryGrowth) {
     metrics.industryGrowth = Math.round(inRange(ranges.industryGrowth)! * 10) / 10;
@@ -374,7 +437,8 @@ export function generateMetricsForAnchor(
 export function applyDeltasToMetrics(
   metrics: ScenarioMetrics,
   deltaKeys: string[],
-  anchorKey: string
+  anchorKey: string,
+  random: () => number
 ): ScenarioMetrics {
   const result = { ...metrics };
   const ranges = ANCHOR_METRIC_RANGES[anchorKey];
@@ -383,13 +447,13 @@ export function applyDeltasToMetrics(
     switch (deltaKey) {
       case "strong_nrr":
         // Set NRR to world-class range (130-150%)
-        result.nrr = 130 + Math.random() * 20;
+        result.nrr = 130 + random() * 20;
         result.nrr = Math.round(result.nrr);
         break;
 
       case "weak_nrr":
         // Set NRR to critical range (75-89%)
-        result.nrr = 75 + Math.random() * 14;
+        result.nrr = 75 + random() * 14;
         result.nrr = Math.round(result.nrr);
         break;
 
@@ -402,13 +466,13 @@ export function applyDeltasToMetrics(
         break;
 
       case "strong_sales_team":
-        result.salesTeamGrowth = 100 + Math.random() * 100; // 100-200% growth
+        result.salesTeamGrowth = 100 + random() * 100; // 100-200% growth
         result.salesTeamGrowth = Math.round(result.salesTeamGrowth);
         break;
 
       case "sales_challenges":
         // Set quota attainment below threshold
-        result.quotaAttainment = 20 + Math.random() * 25; // 20-45%
+        result.quotaAttainment = 20 + random() * 25; // 20-45%
         result.quotaAttainment = Math.round(result.quotaAttainment);
         break;
 
@@ -417,7 +481,7 @@ export function applyDeltasToMetrics(
         break;
 
       case "product_stagnation":
-        result.productLaunchImminent = false;
+        result.productStagnation = true;
         break;
 
       case "economic_tailwind":
@@ -429,7 +493,7 @@ export function applyDeltasToMetrics(
         break;
 
       case "price_increase":
-        result.pricePressure = false;
+        result.priceIncrease = true;
         break;
 
       case "price_pressure":
@@ -441,6 +505,25 @@ export function applyDeltasToMetrics(
   return result;
 }
 
+/**
+ * Metrics for a scenario: the anchor's metrics drawn from `seed`, with
+ * each applied delta on top. Every delta draws from its own stream, so a
+ * delta's metrics do not depend on which other deltas apply.
+ */
+export function generateScenarioMetrics(
+  anchorKey: string,
+  appliedDeltaKeys: string[],
+  seed: number
+): ScenarioMetrics {
+  return appliedDeltaKeys.reduce((metrics, deltaKey) => {
+    let deltaSeed = seed;
+    for (const char of deltaKey) {
+      deltaSeed = (Math.imul(deltaSeed, 31) + char.charCodeAt(0)) | 0;
+    }
+    return applyDeltasToMetrics(metrics, [deltaKey], anchorKey, createRng(deltaSeed));
+  }, generateMetricsForAnchor(anchorKey, createRng(seed)));
+}
+
 /**
  * Format metrics for display in narrative prompt
  */
@@ -489,6 +572,12 @@ export function formatMetricsForPrompt(metrics: ScenarioMetrics): string {
   if (metrics.productLaunchImminent) {
     lines.push(`- Major product launch or platform expansion imminent`);
   }
+  if (metrics.productStagnation) {
+    lines.push(`- Product roadmap delays and a growing feature gap to competitors`);
+  }
+  if (metrics.priceIncrease) {
+    lines.push(`- Recently raised prices successfully (5-15% ARPU growth)`);
+  }
   if (metrics.pricePressure) {
     lines.push(`- Facing pricing pressure from competition`);
   }
@@ -5,7 +5,7 @@
  */
 
 import type { DomainPlugin, DomainExample, NarrativePromptContext } from "../types";
-import type { DomainConfig, ExpertFacts, PromptTemplate } from "../schema";
+import type { CalculationStep, DomainConfig, ExpertFacts, PromptTemplate, ScenarioMetrics } from "../schema";
 import {
   buildNarrativePrompt as buildPrompt,
   generateFallbackDescription as fallbackDescription,
@@ -14,14 +14,23 @@ import {
   validateNarrativeMetrics,
   generateConstrainedFallbackDescription,
 } from "./narrative";
+import {
+  calculateGrowthRate,
+  formatMetricsForPrompt,
+  generateScenarioMetrics,
+  DEFAULT_FORMULA_COEFFICIENTS,
+  FORMULA_DELTA_KEYS,
+} from "./formula";
 
 // Export formula functions for external use
 export {
   calculateGrowthRate,
   generateMetricsForAnchor,
+  generateScenarioMetrics,
   applyDeltasToMetrics,
   formatMetricsForPrompt,
   DEFAULT_FORMULA_COEFFICIENTS,
+  FORMULA_DELTA_KEYS,
   ANCHOR_BASE_RATES,
   ANCHOR_METRIC_RANGES,
 } from "./formula";
@@ -65,7 +74,8 @@ export const financialPlugin: DomainPlugin = {
   facts,
 
   buildNarrativePrompt: (context: NarrativePromptContext) => {
-    return buildPrompt(config, context);
+    const { metrics } = context;
+    return metrics ? buildConstrainedNarrativePrompt(config, { ...context, metrics }) : buildPrompt(config, context);
   },
 
   generateFallbackDescription: (
@@ -82,6 +92,33 @@ export const financialPlugin: DomainPlugin = {
 
   getExamples,
   getPromptTemplates,
+
+  // Growth formula over concrete metrics; without metrics they are generated from seed 0.
+  // Deltas the formula does not express add their config value.
+  computeGroundTruth: (anchorKey: string, appliedDeltaKeys: string[], metrics?: ScenarioMetrics) => {
+    const { value, steps } = calculateGrowthRate(
+      anchorKey,
+      metrics ?? generateScenarioMetrics(anchorKey, appliedDeltaKeys, 0),
+      config.formulaCoefficients ?? DEFAULT_FORMULA_COEFFICIENTS
+    );
+    const extra = appliedDeltaKeys
+      .filter((key) => !FORMULA_DELTA_KEYS.includes(key) && config.deltas[key])
+      .map((key): CalculationStep => ({
+        label: config.deltas[key].description,
+        operation: "add",
+        value: config.deltas[key].value,
+        deltaKey: key,
+      }));
+    return {
+      value: extra.reduce((total, step) => total + step.value, value),
+      steps: [...steps, ...extra],
+    };
+  },
+
+  generateMetrics: generateScenarioMetrics,
+  formatMetrics: formatMetricsForPrompt,
+  validateNarrative: (narrative: string, metrics: ScenarioMetrics) =>
+    validateNarrativeMetrics(narrative, metrics).errors,
 };
 
 // Default export for convenience
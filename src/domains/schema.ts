@@ -74,11 +74,22 @@ export const FormulaCoefficientsSchema = z.object({
 
   // Product adjustments
   productLaunch: z.number().optional(), // +8%
+  productStagnation: z.number().optional(), // -10%
+  priceIncrease: z.number().optional(), // +5%
   pricePressure: z.number().optional(), // -6%
 });
 
 export type FormulaCoefficients = z.infer<typeof FormulaCoefficientsSchema>;
 
+// Which deltas may be combined in one scenario
+export const DeltaRulesSchema = z.object({
+  exclusive: z.array(z.array(z.string())).optional(), // Groups of which at most one delta applies
+  requires: z.record(z.string(), z.array(z.string())).optional(), // Delta -> deltas it only applies with
+  anchorDeltas: z.record(z.string(), z.array(z.string())).optional(), // Anchor -> the only deltas it may get
+});
+
+export type DeltaRules = z.infer<typeof DeltaRulesSchema>;
+
 export const DomainConfigSchema = z.object({
   id: z.string(),
   name: z.string(),
@@ -98,6 +109,7 @@ export const DomainConfigSchema = z.object({
   anchors: z.record(z.string(), AnchorSchema),
   deltas: z.record(z.string(), DeltaSchema),
   distractors: z.array(z.string()),
+  deltaRules: DeltaRulesSchema.optional(),
 
   // Formula-based calculation (optional, for new architecture)
   formulaCoefficients: FormulaCoefficientsSchema.optional(),
@@ -157,6 +169,8 @@ export const ScenarioMetricsSchema = z.object({
 
   // Product metrics
   productLaunchImminent: z.boolean().optional(), // Major launch coming
+  productStagnation: z.boolean().optional(), // Roadmap delays or feature gap
+  priceIncrease: z.boolean().optional(), // Recent successful price increase
   pricePressure: z.boolean().optional(), // Facing pricing pressure
 });
 
@@ -165,10 +179,32 @@ export type ScenarioMetrics = z.infer<typeof ScenarioMetricsSchema>;
 // Scenario Schema
 // A generated test case with ground truth
 
+// One step of a ground truth calculation, applied to the running value
+export const CalculationStepSchema = z.object({
+  label: z.string(), // e.g. "Base (Office, Oslo CBD)", "NRR 134% (world class)"
+  operation: z.enum(["base", "add", "multiply"]),
+  value: z.number(), // Starting value, amount added, or factor
+  deltaKey: z.string().optional(), // Delta the step comes from, if any
+});
+
 export const GroundTruthSchema = z.object({
   value: z.number(),
   tolerance: z.number(), // Acceptable range +/-
   calculation: z.string(), // How we arrived at the number
+  steps: z.array(CalculationStepSchema).optional(), // Structured form of calculation
+});
+
+// How a scenario's twin differs from it (delta keys, relative to this scenario)
+export const TwinChangeSchema = z.object({
+  removed: z.string().optional(), // Applied here but not in the twin
+  added: z.string().optional(), // Applied in the twin but not here
+});
+
+// Links a counterfactual to the scenario it was derived from (ablation runs)
+export const AblationSchema = z.object({
+  baseId: z.string(), // Base scenario (equal to the scenario's own ID on the base itself)
+  removedDelta: z.string().optional(), // Delta key removed from the base
+  removedDistractors: z.boolean().optional(), // Base without its distractors
 });
 
 export const ScenarioSchema = z.object({
@@ -180,15 +216,22 @@ export const ScenarioSchema = z.object({
 
   // Explicit metrics for formula-based calculation (optional for backward compatibility)
   metrics: ScenarioMetricsSchema.optional(),
+  metricsSeed: z.number().optional(), // Seed the metrics were generated from
 
   groundTruth: GroundTruthSchema,
 
   twinId: z.string().optional(), // Linked twin for sensitivity testing
   twinDeltaChanged: z.string().optional(), // Which delta differs from twin
+  twinChange: TwinChangeSchema.optional(), // Structured form of twinDeltaChanged
+  ablation: AblationSchema.optional(), // Set on base scenarios and counterfactuals of ablation runs
+  cleanVariantId: z.string().optional(), // Same scenario without distractors (distracted variants of a pair)
 });
 
 export type Scenario = z.infer<typeof ScenarioSchema>;
 export type GroundTruth = z.infer<typeof GroundTruthSchema>;
+export type CalculationStep = z.infer<typeof CalculationStepSchema>;
+export type TwinChange = z.infer<typeof TwinChangeSchema>;
+export type Ablation = z.infer<typeof AblationSchema>;
 
 // Prediction Schema
 // What the LLM returns
@@ -197,6 +240,11 @@ export type GroundTruth = z.infer<typeof GroundTruthSchema>;
 export const PredictionSchema = z.object({
   estimate: z.number(),
   reasoning: z.string(),
+  // Optional uncertainty: a central interval (see PREDICTION_INTERVAL_LEVEL)
+  // and/or quantiles keyed by level ("0.1", "0.5", "0.9")
+  low: z.number().optional(),
+  high: z.number().optional(),
+  quantiles: z.record(z.string(), z.number()).optional(),
 });
 
 export type Prediction = z.infer<typeof PredictionSchema>;
@@ -204,10 +252,37 @@ export type Prediction = z.infer<typeof PredictionSchema>;
 // Individual Rollout Result
 // A single prediction from one LLM call
 
+// Outcome of a single model call
+export const RolloutStatusSchema = z.enum(["ok", "parse_error", "http_error", "timeout"]);
+
+export type RolloutStatus = z.infer<typeof RolloutStatusSchema>;
+
+// How the estimate was read from the response: native structured output,
+// a JSON object in the text, or one of the text fallbacks (in order of preference)
+export const ParseStrategySchema = z.enum([
+  "structured",
+  "json",
+  "field_regex", // "yield": 5.25 found without valid JSON
+  "final_line", // "Final: 5.25%"
+  "estimate_text", // "my estimate is 5.25"
+  "last_percentage", // Last "X%" in the text
+]);
+
+export type ParseStrategy = z.infer<typeof ParseStrategySchema>;
+
 export const RolloutResultSchema = z.object({
   prediction: z.number(),
   reasoning: z.string(),
   latencyMs: z.number(),
+  // Model-reported uncertainty, when the prompt asks for it
+  low: z.number().optional(),
+  high: z.number().optional(),
+  quantiles: z.record(z.string(), z.number()).optional(),
+  status: RolloutStatusSchema.optional(), // Missing on older runs
+  parseStrategy: ParseStrategySchema.optional(), // Missing on older runs and failed calls
+  rawResponse: z.string().optional(), // Unparsed model output (used for replay)
+  error: z.string().optional(), // Set when the call failed; excluded from scenario stats
+  cached: z.boolean().optional(), // Served from the response cache (no cost)
   startedAt: z.string().optional(),
   completedAt: z.string().optional(),
   // Token usage and cost tracking
@@ -244,13 +319,42 @@ export const ErrorPatternSchema = z.object({
     "delta_blindness", // Failed to account for deltas
     "distractor_influence", // Distractors inappropriately affected prediction
     "magnitude_error", // Right direction, wrong magnitude
+    "arithmetic_error", // Stated result does not follow from the model's own calculation
   ]),
   severity: z.enum(["minor", "moderate", "severe"]),
+  // From the reasoning trace: factors missed vs. right factors, wrong result
+  cause: z.enum(["misread_scenario", "wrong_arithmetic"]).optional(),
   details: z.string().optional(), // Explanation of the detected pattern
 });
 
 export type ErrorPattern = z.infer<typeof ErrorPatternSchema>;
 
+// Judge Schema
+// Rubric scores an LLM judge gave one rollout's reasoning (each 1-5, higher is better)
+export const JudgeScoreSchema = z.object({
+  rolloutIndex: z.number(),
+  factorCoverage: z.number(), // Names the anchor and the factors in groundTruth.calculation
+  correctDirection: z.number(), // Moves each factor the right way
+  justifiedMagnitude: z.number(), // Adjustment sizes are argued, not arbitrary
+  hallucinatedFacts: z.number(), // 5 = no facts beyond the scenario
+  overall: z.number(), // Mean of the criteria
+  comment: z.string().optional(),
+});
+
+export type JudgeScore = z.infer<typeof JudgeScoreSchema>;
+
+// Judge pass over the rollouts of one scenario
+export const JudgeResultSchema = z.object({
+  model: z.string(),
+  provider: z.string().optional(),
+  rubricTemplate: z.string(), // Rubric template name
+  scores: z.array(JudgeScoreSchema),
+  failed: z.number().optional(), // Judge calls that errored or returned no usable scores
+  meanScore: z.number().optional(), // Mean overall score across judged rollouts
+});
+
+export type JudgeResult = z.infer<typeof JudgeResultSchema>;
+
 // Scenario Result Schema
 // After running a scenario through an LLM (supports multiple rollouts)
 
@@ -279,16 +383,33 @@ export const ScenarioResultSchema = z.object({
   // Consistency metrics
   rolloutConsistency: z.number(), // % of rollouts within tolerance
 
+  // Uncertainty scores, averaged over rollouts that reported an interval or quantiles
+  intervalCoverage: z.number().optional(), // % of reported intervals containing the ground truth
+  intervalWidth: z.number().optional(), // Mean high - low
+  pinballLoss: z.number().optional(), // Mean pinball loss over the reported quantiles
+  crps: z.number().optional(), // Continuous ranked probability score (normal fit to the quantiles)
+
   // Difficulty and error pattern analysis
   difficulty: DifficultyScoreSchema.optional(),
   errorPattern: ErrorPatternSchema.optional(),
 
+  // LLM-as-judge grading of the reasoning (when the run has a judge model)
+  judge: JudgeResultSchema.optional(),
+
   // The fully hydrated prompt sent to the LLM
   renderedPrompt: z.string().optional(),
 });
 
 export type ScenarioResult = z.infer<typeof ScenarioResultSchema>;
 
+// Confidence interval for an aggregate metric, in the metric's units
+export const MetricIntervalSchema = z.object({
+  lower: z.number(),
+  upper: z.number(),
+});
+
+export type MetricInterval = z.infer<typeof MetricIntervalSchema>;
+
 // Benchmark Run Schema
 // A complete run with multiple scenarios
 
@@ -297,25 +418,60 @@ export const BenchmarkRunSchema = z.object({
   timestamp: z.string(), // When the run was created (legacy, kept for compatibility)
   domainId: z.string(),
   model: z.string(),
+  provider: z.string().optional(), // LLM provider ID (defaults to "openrouter" for older runs)
+  providerBaseUrl: z.string().optional(), // Endpoint override for self-hosted servers
   promptStrategy: z.string(),
   promptTemplate: z.string(), // The actual template used
   rolloutsPerScenario: z.number().default(1), // Number of rollouts per scenario
+  rolloutsToAdd: z.number().optional(), // Set while topping up a finished run with more rollouts per scenario
+  rolloutsAdded: z.number().optional(), // Rollouts per scenario added by top-ups (included in rolloutsPerScenario)
+  mode: z.enum(["standard", "ablation"]).optional(), // "ablation": each scenario plus one-at-a-time counterfactuals
+  structuredOutput: z.boolean().optional(), // Request native structured output (JSON schema / tool call) where supported
 
   // Run status and timing
-  status: z.enum(["generating_narratives", "running", "completed", "failed"]).default("running"),
+  status: z
+    .enum(["queued", "generating_narratives", "running", "paused", "completed", "cancelled", "failed"])
+    .default("running"),
+  statusMessage: z.string().optional(), // Error message when the run failed
   startedAt: z.string().optional(),
   completedAt: z.string().optional(),
 
   // Narrative generation tracking
   useNarrativeDescriptions: z.boolean().optional(),
   narrativeModel: z.string().optional(),
+  narrativeProvider: z.string().optional(),
   narrativesGenerated: z.number().optional(), // Count of narratives generated so far
   narrativesTotal: z.number().optional(), // Total narratives to generate
 
+  // Optional LLM-as-judge pass over each rollout's reasoning
+  judgeModel: z.string().optional(),
+  judgeProvider: z.string().optional(),
+  judgeTemplate: z.string().optional(), // Rubric template name
+
   // Test set reference (if run was created from a test set)
   testSetName: z.string().optional(),
   testSetVersion: z.string().optional(),
 
+  // Generation seed (narratives and mock noise) so resumed runs stay reproducible
+  seed: z.number().optional(),
+
+  // Retries per model call on rate limits and transient errors
+  maxRetries: z.number().optional(),
+
+  // Max in-flight requests to the run's provider (default: environment, then provider default)
+  maxConcurrency: z.number().optional(),
+
+  // Source run when replaying recorded responses with the mock provider
+  replayRunId: z.string().optional(),
+  mockNoiseStdDev: z.number().optional(),
+
+  // Response cache: false opts the run out; stats count model calls served from / sent past it
+  useCache: z.boolean().optional(),
+  cacheStats: z.object({
+    hits: z.number(),
+    misses: z.number(),
+  }).optional(),
+
   scenarios: z.array(ScenarioSchema),
   results: z.array(ScenarioResultSchema),
 
@@ -326,6 +482,36 @@ export const BenchmarkRunSchema = z.object({
     rmse: z.number(),
     directionalAccuracy: z.number().optional(), // For twin tests
     avgLatencyMs: z.number(),
+    // 95% confidence intervals for the metrics above (Wilson for rates, bootstrap otherwise)
+    intervals: z.object({
+      hitRate: MetricIntervalSchema.optional(),
+      meanError: MetricIntervalSchema.optional(),
+      rmse: MetricIntervalSchema.optional(),
+      directionalAccuracy: MetricIntervalSchema.optional(),
+    }).optional(),
+    // Failed calls, reported separately instead of being scored as misses
+    totalRollouts: z.number().optional(),
+    rolloutStatusCounts: z.object({
+      ok: z.number(),
+      parse_error: z.number(),
+      http_error: z.number(),
+      timeout: z.number(),
+    }).optional(),
+    parseFailureRate: z.number().optional(), // % of rollouts whose response could not be parsed
+    rolloutErrorRate: z.number().optional(), // % of rollouts that failed for any reason
+    failedScenarios: z.number().optional(), // Scenarios with no successful rollout (excluded from accuracy)
+    // How estimates were parsed (successful rollouts that recorded a strategy)
+    parseStrategyCounts: z.record(z.string(), z.number()).optional(),
+    fallbackParseRate: z.number().optional(), // % of those parsed by text heuristics rather than JSON
+    // Proper scoring of model-reported uncertainty (only when rollouts reported intervals)
+    uncertaintyRollouts: z.number().optional(), // Rollouts with an interval or quantiles
+    intervalCoverage: z.number().optional(), // % of intervals containing the ground truth (nominal: PREDICTION_INTERVAL_LEVEL)
+    intervalWidth: z.number().optional(),
+    pinballLoss: z.number().optional(),
+    crps: z.number().optional(),
+    // LLM-as-judge reasoning scores (only when the run has a judge model)
+    judgedRollouts: z.number().optional(),
+    judgeScore: z.number().optional(), // Mean overall rubric score, 1-5
     // Token usage and cost aggregation
     totalPromptTokens: z.number().optional(),
     totalCompletionTokens: z.number().optional(),
@@ -350,6 +536,9 @@ export const BenchmarkRunSchema = z.object({
       anchorBiasRate: z.number().optional(), // % of scenarios with anchor bias
       deltaBlindnessRate: z.number().optional(), // % of scenarios with delta blindness
       distractorInfluenceRate: z.number().optional(), // % affected by distractors
+      arithmeticErrorRate: z.number().optional(), // % whose calculation does not add up
+      misreadRate: z.number().optional(), // % of attributed errors where reasoning missed key factors
+      wrongArithmeticRate: z.number().optional(), // % of attributed errors with right factors, wrong result
       errorByDifficulty: z.object({
         trivial: z.number().optional(),
         easy: z.number().optional(),
@@ -375,6 +564,56 @@ export type PromptTemplate = z.infer<typeof PromptTemplateSchema>;
 
 // Test Set Schema
 // A versioned collection of scenarios for reproducible testing
+// Target design for coverage-driven scenario generation
+export const CoverageDesignSchema = z.object({
+  deltaOccurrences: z.number().int().min(0).optional(), // Times each delta should appear
+  pairwiseDeltas: z.boolean().optional(), // Every compatible pair of deltas should appear together
+  difficultyMix: z.partialRecord(DifficultyScoreSchema.shape.level, z.number().min(0)).optional(), // Relative share per level
+  distractorShare: z.number().min(0).max(1).optional(), // Share of base scenarios with distractors
+});
+
+// Coverage a test set achieves against its design
+export const CoverageReportSchema = z.object({
+  design: CoverageDesignSchema,
+  scenarioCount: z.number(),
+  anchorCounts: z.record(z.string(), z.number()),
+  deltaCounts: z.record(z.string(), z.number()),
+  unmetDeltas: z.array(z.string()), // Deltas appearing fewer than deltaOccurrences times
+  pairsCovered: z.number(),
+  pairsTotal: z.number(), // Compatible pairs
+  uncoveredPairs: z.array(z.tuple([z.string(), z.string()])),
+  difficultyCounts: z.record(z.string(), z.number()),
+  distractorShare: z.number(), // Share of scenarios with distractors (0-1)
+});
+
+export type CoverageDesign = z.infer<typeof CoverageDesignSchema>;
+export type CoverageReport = z.infer<typeof CoverageReportSchema>;
+
+// Weakness mined from past runs: a scenario feature models fail on more often than average
+export const WeaknessExampleSchema = z.object({
+  runId: z.string(),
+  scenarioId: z.string(),
+  anchor: z.string(),
+  appliedDeltas: z.array(z.string()),
+  distractors: z.array(z.string()),
+  absoluteError: z.number(),
+});
+
+export const WeaknessSchema = z.object({
+  kind: z.enum(["anchor", "delta", "delta_pair", "distractor"]),
+  keys: z.array(z.string()), // Anchor key, delta key(s) or distractor text
+  observations: z.number(), // Completed results whose scenario has the feature
+  failures: z.number(), // Of those, results outside tolerance
+  failureRate: z.number(), // 0-100
+  lift: z.number(), // Failure rate above the overall failure rate, in percentage points
+  meanRelativeError: z.number(), // Mean absoluteError / tolerance over the failures
+  dominantPattern: ErrorPatternSchema.shape.pattern.optional(), // Most common error pattern among the failures
+  examples: z.array(WeaknessExampleSchema), // Worst failures first
+});
+
+export type WeaknessExample = z.infer<typeof WeaknessExampleSchema>;
+export type Weakness = z.infer<typeof WeaknessSchema>;
+
 export const TestSetSchema = z.object({
   name: z.string(), // Unique identifier (e.g., "baseline-v1")
   version: z.string(), // Semantic version (e.g., "1.0.0")
@@ -384,10 +623,14 @@ export const TestSetSchema = z.object({
   scenarioCount: z.number(),
   seed: z.number().optional(), // Seed used to generate (for reference)
   generateTwins: z.boolean(),
+  generateDistractorPairs: z.boolean().optional(),
   useNarrativeDescriptions: z.boolean(),
   narrativeModel: z.string().optional(),
   sourceRunId: z.string().optional(), // If created from an existing run
+  sourceRunIds: z.array(z.string()).optional(), // Runs mined for an adversarial test set
   scenarios: z.array(ScenarioSchema),
+  coverage: CoverageReportSchema.optional(), // Set when generated from a coverage design
+  weaknesses: z.array(WeaknessSchema).optional(), // Set when mined from past failures
   changelog: z.array(z.string()).optional(), // Version history
 });
 
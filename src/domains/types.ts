@@ -5,7 +5,13 @@
  * in the estimation playground.
  */
 
-import type { DomainConfig, ExpertFacts, PromptTemplate, ScenarioMetrics } from "./schema";
+import type {
+  CalculationStep,
+  DomainConfig,
+  ExpertFacts,
+  PromptTemplate,
+  ScenarioMetrics,
+} from "./schema";
 
 /**
  * Few-shot example for domain-specific prompts
@@ -38,6 +44,15 @@ export interface NarrativePromptContext {
   metrics?: ScenarioMetrics;
 }
 
+/**
+ * Ground truth computed by a domain plugin
+ */
+export interface GroundTruthComputation {
+  value: number;
+  /** Steps from the base value to `value`, in the order applied */
+  steps: CalculationStep[];
+}
+
 /**
  * Domain Plugin Interface
  *
@@ -87,6 +102,40 @@ export interface DomainPlugin {
    * These override or supplement the generic templates.
    */
   getPromptTemplates: () => PromptTemplate[];
+
+  /**
+   * Compute ground truth from the anchor, applied deltas and (optional)
+   * scenario metrics. Lets a domain express thresholds, caps, interactions
+   * and non-percentage units; without it the config's additive and
+   * multiplicative delta values are applied in order.
+   */
+  computeGroundTruth?: (
+    anchorKey: string,
+    appliedDeltaKeys: string[],
+    metrics?: ScenarioMetrics
+  ) => GroundTruthComputation;
+
+  /**
+   * Generate concrete metrics for a scenario (e.g. ARR, NRR), reproducible
+   * from `seed`. Scenarios sharing a seed differ only in the metrics of
+   * the deltas that differ, so twins stay comparable.
+   */
+  generateMetrics?: (
+    anchorKey: string,
+    appliedDeltaKeys: string[],
+    seed: number
+  ) => ScenarioMetrics;
+
+  /**
+   * Format scenario metrics as description lines ("- NRR: 134%")
+   */
+  formatMetrics?: (metrics: ScenarioMetrics) => string;
+
+  /**
+   * Check that a generated narrative states the scenario's metrics.
+   * Returns the problems found (empty when it does).
+   */
+  validateNarrative?: (narrative: string, metrics: ScenarioMetrics) => string[];
 }
 
 /**
@@ -0,0 +1,9 @@
+/**
+ * Next.js startup hook: resume benchmark runs interrupted by a restart
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { recoverInterruptedRuns } = await import("@/lib/run-queue");
+    await recoverInterruptedRuns();
+  }
+}
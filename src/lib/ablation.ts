@@ -0,0 +1,135 @@
+/**
+ * Ablation Analysis
+ *
+ * Estimates the effect a model implicitly assigns to each delta from an
+ * ablation run: the prediction for a base scenario minus the prediction
+ * for the same scenario with one delta removed. Compared with the true
+ * effect from the domain config, this shows which factors the model
+ * "hears" and how strongly. Removing distractors should change nothing.
+ *
+ * This module contains only pure functions that can be safely imported by
+ * both client and server components.
+ */
+
+import type { DomainConfig, Scenario, ScenarioResult } from "@/domains/schema";
+import { mean } from "./statistics";
+
+export interface AblationEffect {
+  baseId: string;
+  counterfactualId: string;
+  /** Ground truth of the base minus ground truth without the delta */
+  trueEffect: number;
+  /** Prediction for the base minus prediction without the delta */
+  impliedEffect: number;
+}
+
+export interface DeltaAttribution {
+  deltaKey: string;
+  description?: string;
+  type?: "additive" | "multiplicative";
+  /** Configured delta value (percentage points, or a factor for multiplicative deltas) */
+  configValue?: number;
+  effects: AblationEffect[];
+  meanTrueEffect: number;
+  meanImpliedEffect: number;
+  /** Slope of implied on true effect; 1 = heard at full strength, 0 = ignored */
+  weight?: number;
+  /** % of ablations where the implied effect has the sign of the true effect */
+  signAccuracy?: number;
+}
+
+export interface AblationAnalysis {
+  /** Base scenarios with a completed result */
+  baseScenarios: number;
+  deltas: DeltaAttribution[];
+  /** Prediction shifts from removing distractors (the true effect is zero) */
+  distractorEffects: AblationEffect[];
+  meanAbsDistractorEffect?: number;
+}
+
+/**
+ * Attribute a model's predictions to deltas using the counterfactuals of an
+ * ablation run. Runs without ablation metadata give an empty analysis.
+ */
+export function analyzeAblation(
+  domain: DomainConfig | undefined,
+  scenarios: Scenario[],
+  results: ScenarioResult[]
+): AblationAnalysis {
+  const predictions = new Map(
+    results.filter((r) => r.status === "completed").map((r) => [r.scenarioId, r.meanPrediction])
+  );
+  const scenariosById = new Map(scenarios.map((s) => [s.id, s]));
+
+  const effectsByDelta = new Map<string, AblationEffect[]>();
+  const distractorEffects: AblationEffect[] = [];
+  const bases = new Set<string>();
+
+  for (const counterfactual of scenarios) {
+    const ablation = counterfactual.ablation;
+    if (!ablation || ablation.baseId === counterfactual.id) continue;
+
+    const base = scenariosById.get(ablation.baseId);
+    const basePrediction = predictions.get(ablation.baseId);
+    const counterfactualPrediction = predictions.get(counterfactual.id);
+    if (!base || basePrediction === undefined || counterfactualPrediction === undefined) continue;
+
+    bases.add(base.id);
+    const effect: AblationEffect = {
+      baseId: base.id,
+      counterfactualId: counterfactual.id,
+      trueEffect: base.groundTruth.value - counterfactual.groundTruth.value,
+      impliedEffect: basePrediction - counterfactualPrediction,
+    };
+
+    if (ablation.removedDistractors) {
+      distractorEffects.push(effect);
+    } else if (ablation.removedDelta) {
+      const effects = effectsByDelta.get(ablation.removedDelta) ?? [];
+      effects.push(effect);
+      effectsByDelta.set(ablation.removedDelta, effects);
+    }
+  }
+
+  // Domain order first, then any keys the domain no longer defines
+  const deltaKeys = [
+    ...Object.keys(domain?.deltas ?? {}),
+    ...Array.from(effectsByDelta.keys()).filter((key) => !domain?.deltas[key]),
+  ];
+
+  const deltas = deltaKeys
+    .filter((key) => effectsByDelta.has(key))
+    .map((deltaKey): DeltaAttribution => {
+      const effects = effectsByDelta.get(deltaKey)!;
+      const signed = effects.filter((e) => e.trueEffect !== 0);
+      const sumSquares = effects.reduce((sum, e) => sum + e.trueEffect * e.trueEffect, 0);
+      const sumProducts = effects.reduce((sum, e) => sum + e.trueEffect * e.impliedEffect, 0);
+      const delta = domain?.deltas[deltaKey];
+
+      return {
+        deltaKey,
+        description: delta?.description,
+        type: delta?.type,
+        configValue: delta?.value,
+        effects,
+        meanTrueEffect: mean(effects.map((e) => e.trueEffect)),
+        meanImpliedEffect: mean(effects.map((e) => e.impliedEffect)),
+        ...(sumSquares > 0 && { weight: sumProducts / sumSquares }),
+        ...(signed.length > 0 && {
+          signAccuracy:
+            (signed.filter((e) => Math.sign(e.impliedEffect) === Math.sign(e.trueEffect)).length /
+              signed.length) *
+            100,
+        }),
+      };
+    });
+
+  return {
+    baseScenarios: bases.size,
+    deltas,
+    distractorEffects,
+    ...(distractorEffects.length > 0 && {
+      meanAbsDistractorEffect: mean(distractorEffects.map((e) => Math.abs(e.impliedEffect))),
+    }),
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Adversarial Scenario Mining
+ *
+ * Finds the scenario features models fail on across stored runs: anchors,
+ * deltas, pairs of deltas and distractors whose results land outside
+ * tolerance more often than the runs' overall failure rate. The generator
+ * turns these weaknesses into new nearby scenarios (see the `weaknesses`
+ * generator option).
+ *
+ * This module contains only pure functions that can be safely imported by
+ * both client and server components.
+ */
+
+import type {
+  BenchmarkRun,
+  DomainConfig,
+  ErrorPattern,
+  Weakness,
+  WeaknessExample,
+} from "@/domains/schema";
+import { detectErrorPattern } from "./evaluator";
+
+export interface MiningOptions {
+  /** Results that must share a feature before it can count as a weakness (default 3) */
+  minObservations?: number;
+  /** Number of weaknesses to return (default 5) */
+  maxWeaknesses?: number;
+  /** Failed examples kept per weakness (default 3) */
+  maxExamples?: number;
+}
+
+interface FeatureStats {
+  kind: Weakness["kind"];
+  keys: string[];
+  observations: number;
+  relativeErrors: number[];
+  patterns: ErrorPattern["pattern"][];
+  examples: WeaknessExample[];
+}
+
+function scenarioFeatures(
+  anchor: string,
+  appliedDeltas: string[],
+  distractors: string[]
+): Array<{ kind: Weakness["kind"]; keys: string[] }> {
+  const deltas = [...appliedDeltas].sort();
+  return [
+    { kind: "anchor", keys: [anchor] },
+    ...deltas.map((key) => ({ kind: "delta" as const, keys: [key] })),
+    ...deltas.flatMap((a, i) => deltas.slice(i + 1).map((b) => ({ kind: "delta_pair" as const, keys: [a, b] }))),
+    ...distractors.map((text) => ({ kind: "distractor" as const, keys: [text] })),
+  ];
+}
+
+/**
+ * Rank the features of failing scenarios in a domain's runs. A result
+ * fails when its mean prediction is outside tolerance; its error pattern
+ * is the stored one or detected again. Features are ranked by lift over
+ * the overall failure rate, then by their number of failures and how far
+ * those missed. A pair of deltas only counts when it fails more often than
+ * either delta alone.
+ */
+export function mineWeaknesses(
+  domain: DomainConfig,
+  runs: BenchmarkRun[],
+  options: MiningOptions = {}
+): Weakness[] {
+  const { minObservations = 3, maxWeaknesses = 5, maxExamples = 3 } = options;
+
+  const features = new Map<string, FeatureStats>();
+  let observations = 0;
+  let failures = 0;
+
+  for (const run of runs.filter((r) => r.domainId === domain.id)) {
+    const scenarios = new Map(run.scenarios.map((s) => [s.id, s]));
+
+    for (const result of run.results) {
+      const scenario = scenarios.get(result.scenarioId);
+      if (!scenario || result.status !== "completed") continue;
+
+      observations++;
+      const failed = !result.withinTolerance;
+      if (failed) failures++;
+
+      for (const { kind, keys } of scenarioFeatures(scenario.anchor, scenario.appliedDeltas, scenario.distractors)) {
+        const id = `${kind}:${keys.join("|")}`;
+        const stats = features.get(id) ?? { kind, keys, observations: 0, relativeErrors: [], patterns: [], examples: [] };
+        features.set(id, stats);
+        stats.observations++;
+        if (!failed) continue;
+
+        const tolerance = scenario.groundTruth.tolerance;
+        stats.relativeErrors.push(tolerance > 0 ? result.absoluteError / tolerance : result.absoluteError);
+        stats.patterns.push((result.errorPattern ?? detectErrorPattern(scenario, result, domain)).pattern);
+        stats.examples.push({
+          runId: run.id,
+          scenarioId: scenario.id,
+          anchor: scenario.anchor,
+          appliedDeltas: scenario.appliedDeltas,
+          distractors: scenario.distractors,
+          absoluteError: result.absoluteError,
+        });
+      }
+    }
+  }
+
+  if (observations === 0) return [];
+  const overallRate = (failures / observations) * 100;
+  const failureRate = (stats: FeatureStats) => (stats.relativeErrors.length / stats.observations) * 100;
+
+  const weaknesses: Weakness[] = [];
+  for (const stats of features.values()) {
+    if (stats.observations < minObservations || stats.relativeErrors.length === 0) continue;
+    const rate = failureRate(stats);
+    if (rate <= overallRate) continue;
+
+    if (stats.kind === "delta_pair") {
+      const single = stats.keys.map((key) => features.get(`delta:${key}`));
+      if (single.some((s) => s && failureRate(s) >= rate)) continue;
+    }
+
+    const patternCounts = new Map<ErrorPattern["pattern"], number>();
+    for (const pattern of stats.patterns) patternCounts.set(pattern, (patternCounts.get(pattern) ?? 0) + 1);
+    const dominantPattern = [...patternCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+    weaknesses.push({
+      kind: stats.kind,
+      keys: stats.keys,
+      observations: stats.observations,
+      failures: stats.relativeErrors.length,
+      failureRate: Math.round(rate),
+      lift: Math.round(rate - overallRate),
+      meanRelativeError:
+        Math.round((stats.relativeErrors.reduce((a, b) => a + b, 0) / stats.relativeErrors.length) * 100) / 100,
+      ...(dominantPattern && { dominantPattern }),
+      examples: [...stats.examples].sort((a, b) => b.absoluteError - a.absoluteError).slice(0, maxExamples),
+    });
+  }
+
+  return weaknesses
+    .sort((a, b) => b.lift - a.lift || b.failures - a.failures || b.meanRelativeError - a.meanRelativeError)
+    .slice(0, maxWeaknesses);
+}
+
+/**
+ * Short label for a weakness ("delta pair: long_lease + prime_location")
+ */
+export function describeWeakness(weakness: Weakness): string {
+  return `${weakness.kind.replace(/_/g, " ")}: ${weakness.keys.join(" + ")}`;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { verifyArithmetic } from "./arithmetic";
+
+describe("verifyArithmetic", () => {
+  it("accepts a correct calculation block", () => {
+    const check = verifyArithmetic("Base: 5.25%\n+ Long lease: -0.25%\n+ Prime location: +0.10%\n= Final: 5.10%", 5.1)!;
+    expect(check.steps).toHaveLength(1);
+    expect(check.steps[0].computed).toBeCloseTo(5.1, 9);
+    expect(check.statedFinal).toBe(5.1);
+    expect(check.finalMatchesEstimate).toBe(true);
+    expect(check.consistent).toBe(true);
+  });
+
+  it("flags a block whose final value does not follow", () => {
+    const check = verifyArithmetic("Base: 5.25%\n- Long lease: 0.25%\n= Final: 5.50%", 5.5)!;
+    expect(check.steps[0].computed).toBeCloseTo(5, 9);
+    expect(check.consistent).toBe(false);
+  });
+
+  it("applies multiplication lines", () => {
+    const check = verifyArithmetic("Base: 20%\n× Headwind: 0.9\n= Final: 18%", 18)!;
+    expect(check.steps[0].computed).toBeCloseTo(18, 9);
+    expect(check.consistent).toBe(true);
+  });
+
+  it("checks inline sums", () => {
+    expect(verifyArithmetic("5.25 - 0.25 + 0.10 = 5.10")!.consistent).toBe(true);
+    expect(verifyArithmetic("5.25 - 0.25 + 0.10 = 5.30")!.consistent).toBe(false);
+  });
+
+  it("accepts a rounded estimate", () => {
+    expect(verifyArithmetic("Base: 6%\n+ Growth: 0.075%\n= Final: 6.075%", 6.08)!.finalMatchesEstimate).toBe(true);
+  });
+
+  it("flags an estimate that differs from the stated final value", () => {
+    const check = verifyArithmetic("Base: 5.25%\n+ Long lease: -0.25%\n= Final: 5.00%", 5.5)!;
+    expect(check.finalMatchesEstimate).toBe(false);
+    expect(check.consistent).toBe(false);
+  });
+
+  it("takes the first percentage of a base line without a colon", () => {
+    const check = verifyArithmetic("Office in Oslo CBD, base yield 5.25% as of 2024\n+ Long lease: -0.25%\n= Final: 5.00%", 5)!;
+    expect(check.steps[0].computed).toBeCloseTo(5, 9);
+    expect(check.consistent).toBe(true);
+  });
+
+  it("does not read a number range as a subtraction", () => {
+    expect(verifyArithmetic("The range is 4.5-5.0% = 0.5 wide", 5)).toBeUndefined();
+  });
+
+  it("does not read markdown bullets as subtractions", () => {
+    const check = verifyArithmetic(
+      "Base yield: 5.25%\n- Prime location (sought after)\n- Lease length: 10 years\n- Long lease: -0.25%\n= Final: 5.00%",
+      5
+    )!;
+    expect(check.steps[0].computed).toBeCloseTo(5, 9);
+    expect(check.consistent).toBe(true);
+  });
+
+  it("still reads unsigned minus lines as subtractions when that adds up", () => {
+    const check = verifyArithmetic("Base: 5.25%\n- Long lease: 0.25%\n= Final: 5.00%", 5)!;
+    expect(check.consistent).toBe(true);
+  });
+
+  it("returns undefined without a calculation", () => {
+    expect(verifyArithmetic("The yield should be around five percent.", 5)).toBeUndefined();
+  });
+});
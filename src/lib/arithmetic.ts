@@ -0,0 +1,191 @@
+/**
+ * Arithmetic Verification
+ *
+ * Recomputes the calculations a model shows in its reasoning and checks
+ * that the stated result follows from them. Two shapes are recognised:
+ * the chain-of-thought block the templates ask for
+ *
+ *   Base: 5.25%
+ *   + Long lease: -0.25%
+ *   = Final: 5.00%
+ *
+ * and inline sums such as "5.25 - 0.25 + 0.10 = 5.10". Number ranges
+ * ("4.5-5.0%") are not sums, and "- " / "* " lines may be markdown bullets
+ * rather than operators, so a block counts as correct under either reading.
+ *
+ * This module contains only pure functions that can be safely imported by
+ * both client and server components.
+ */
+
+export interface ArithmeticStep {
+  expression: string;
+  stated: number;
+  computed: number;
+  correct: boolean;
+}
+
+export interface ArithmeticCheck {
+  steps: ArithmeticStep[];
+  /** Value of the "Final: X" line, when there is one */
+  statedFinal?: number;
+  /** Whether the returned estimate equals the stated final value */
+  finalMatchesEstimate?: boolean;
+  /** Every step adds up and the estimate matches the stated final value */
+  consistent: boolean;
+}
+
+const NUMBER = String.raw`\d+(?:\.\d+)?`;
+const FINAL_PATTERN = new RegExp(String.raw`Final\s*:\s*(-?${NUMBER})`, "i");
+const INLINE_PATTERN = new RegExp(
+  String.raw`(-?${NUMBER})[ \t]*%?((?:[ \t]*[+\-−][ \t]*${NUMBER}[ \t]*%?)+)[ \t]*=[ \t]*(?:Final[ \t]*:[ \t]*)?(-?${NUMBER})`,
+  "gi"
+);
+const TERM_PATTERN = new RegExp(String.raw`([+\-−]?)\s*(${NUMBER})`, "g");
+const PERCENTAGE_PATTERN = new RegExp(String.raw`(?<![\d.])(-?)(${NUMBER})\s*%`);
+// A hyphen between two numbers without spaces ("4.5-5.0%")
+const RANGE_PATTERN = /[\d%]-\d/;
+const OPERATOR_LINE = /^\s*[+\-−±×*x•]\s/;
+const BULLET_LINE = /^\s*[-*•]\s/;
+
+/**
+ * Half a unit in the last decimal place of the stated value, so "5.1" may
+ * stand for anything that rounds to it
+ */
+function roundingTolerance(stated: string): number {
+  const decimals = stated.split(".")[1]?.length ?? 0;
+  return 0.5 * 10 ** -decimals + 1e-9;
+}
+
+function toNumber(sign: string, digits: string): number {
+  const value = parseFloat(digits);
+  return sign === "-" || sign === "−" ? -value : value;
+}
+
+function checkStep(expression: string, statedText: string, computed: number): ArithmeticStep {
+  const stated = parseFloat(statedText);
+  return {
+    expression: expression.trim(),
+    stated,
+    computed,
+    correct: Math.abs(computed - stated) <= roundingTolerance(statedText),
+  };
+}
+
+/**
+ * Value of one line of a calculation block: the first number after the
+ * last colon, or the last number on a line without a colon. Parenthesised
+ * remarks ("(6m clear height)") are ignored.
+ */
+function lineValue(line: string): { sign: string; digits: string } | undefined {
+  const text = line.replace(/\([^)]*\)/g, "");
+  const matches = text.includes(":")
+    ? [...text.slice(text.lastIndexOf(":") + 1).matchAll(TERM_PATTERN)].slice(0, 1)
+    : [...text.matchAll(TERM_PATTERN)];
+  const value = matches[matches.length - 1];
+  return value ? { sign: value[1], digits: value[2] } : undefined;
+}
+
+/**
+ * Value of the base line of a calculation block: its first percentage, so
+ * "base yield 5.25% as of 2024" reads 5.25, else the line's value
+ */
+function baseValue(line: string): { sign: string; digits: string } | undefined {
+  const percentage = line.replace(/\([^)]*\)/g, "").match(PERCENTAGE_PATTERN);
+  return percentage ? { sign: percentage[1], digits: percentage[2] } : lineValue(line);
+}
+
+/**
+ * Stated value of a "Final: X" line; the result after the last "=" when
+ * the line spells out the sum again ("Final: 5.25% - 0.25% = 5.00%")
+ */
+function finalValue(line: string): string {
+  const afterFinal = line.slice(line.search(FINAL_PATTERN));
+  const result = afterFinal.includes("=") ? afterFinal.slice(afterFinal.lastIndexOf("=") + 1) : afterFinal;
+  return result.match(new RegExp(`-?${NUMBER}`))?.[0] ?? afterFinal.match(FINAL_PATTERN)![1];
+}
+
+/**
+ * Check the block ending in the last "Final: X" line. Walks up from the
+ * final line through operator lines ("+ ...", "- ...", "× ...") to the
+ * base line above them. Bullet lines are also read as a list, where only
+ * explicitly signed values adjust the total; the block is correct when
+ * either reading gives the stated final value.
+ */
+function checkFinalBlock(lines: string[]): { step?: ArithmeticStep; statedFinal?: string } {
+  const finalIndex = lines.findLastIndex((line) => FINAL_PATTERN.test(line));
+  if (finalIndex < 0) return {};
+  const statedFinal = finalValue(lines[finalIndex]);
+
+  let start = finalIndex - 1;
+  while (start >= 0 && OPERATOR_LINE.test(lines[start])) start--;
+  if (start < 0 || start === finalIndex - 1) return { statedFinal };
+
+  const base = baseValue(lines[start]);
+  if (!base) return { statedFinal };
+
+  let computed = toNumber(base.sign, base.digits);
+  let asList = computed;
+  let hasBullets = false;
+  for (const line of lines.slice(start + 1, finalIndex)) {
+    const term = lineValue(line);
+    if (!term) continue;
+    const operator = line.trim()[0];
+    const bullet = BULLET_LINE.test(line);
+    hasBullets ||= bullet;
+
+    if (operator === "×" || operator === "*" || operator === "x") {
+      computed *= parseFloat(term.digits);
+      if (!bullet) asList *= parseFloat(term.digits);
+    } else {
+      // An explicitly signed value wins over the leading operator ("- Tenant: +0.25%")
+      const sign = term.sign || (operator === "-" || operator === "−" ? "-" : "+");
+      if (operator !== "•") computed += toNumber(sign, term.digits);
+      if (!bullet || term.sign) asList += toNumber(sign, term.digits);
+    }
+  }
+
+  const expression = lines.slice(start, finalIndex + 1).join("\n");
+  const step = checkStep(expression, statedFinal, computed);
+  if (!step.correct && hasBullets) {
+    const listStep = checkStep(expression, statedFinal, asList);
+    if (listStep.correct) return { statedFinal, step: listStep };
+  }
+  return { statedFinal, step };
+}
+
+/**
+ * Recompute the calculations in a reasoning trace. Returns undefined when
+ * the reasoning shows no calculation to check.
+ */
+export function verifyArithmetic(reasoning: string, estimate?: number): ArithmeticCheck | undefined {
+  const lines = reasoning.split(/\r?\n/);
+  const block = checkFinalBlock(lines);
+  const steps: ArithmeticStep[] = block.step ? [block.step] : [];
+
+  for (const match of reasoning.matchAll(INLINE_PATTERN)) {
+    if (RANGE_PATTERN.test(match[0].slice(0, match[0].lastIndexOf("=")))) continue;
+    let computed = parseFloat(match[1]);
+    for (const term of match[2].matchAll(TERM_PATTERN)) {
+      computed += toNumber(term[1], term[2]);
+    }
+    steps.push(checkStep(match[0], match[3], computed));
+  }
+
+  if (steps.length === 0 && block.statedFinal === undefined) return undefined;
+
+  // Either side may be rounded ("= 6.075% ≈ 6.08%")
+  const finalMatchesEstimate =
+    block.statedFinal !== undefined && estimate !== undefined
+      ? Math.abs(estimate - parseFloat(block.statedFinal)) <=
+        Math.max(roundingTolerance(block.statedFinal), roundingTolerance(String(estimate)))
+      : undefined;
+
+  if (steps.length === 0 && finalMatchesEstimate === undefined) return undefined;
+
+  return {
+    steps,
+    ...(block.statedFinal !== undefined && { statedFinal: parseFloat(block.statedFinal) }),
+    ...(finalMatchesEstimate !== undefined && { finalMatchesEstimate }),
+    consistent: steps.every((s) => s.correct) && finalMatchesEstimate !== false,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Rollout Calibration
+ *
+ * Checks whether the spread of a model's rollouts says anything about its
+ * error: correlation between per-scenario dispersion and absolute error,
+ * reliability of intervals taken from the empirical rollout distribution,
+ * and accuracy of low- versus high-variance scenarios.
+ *
+ * This module contains only pure functions that can be safely imported by
+ * both client and server components.
+ */
+
+import type { Scenario, ScenarioResult } from "@/domains/schema";
+import { getRolloutStatus } from "./evaluator";
+import { mean, pearsonCorrelation, quantile, spearmanCorrelation } from "./statistics";
+
+/** Central interval levels checked in the reliability diagram */
+export const RELIABILITY_LEVELS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+
+export interface DispersionPoint {
+  scenarioId: string;
+  stdDeviation: number;
+  absoluteError: number;
+  withinTolerance: boolean;
+  rollouts: number;
+}
+
+export interface ReliabilityPoint {
+  /** Nominal coverage of the central interval (0-1) */
+  level: number;
+  /** Share of scenarios whose ground truth fell inside it (0-1) */
+  observedRate: number;
+  count: number;
+}
+
+export interface DispersionBucket {
+  label: "low" | "medium" | "high";
+  minStdDeviation: number;
+  maxStdDeviation: number;
+  count: number;
+  meanAbsoluteError: number;
+  hitRate: number;
+}
+
+export interface RolloutCalibration {
+  points: DispersionPoint[];
+  /** Correlation of rollout std deviation with absolute error; positive means spread signals error */
+  pearson?: number;
+  spearman?: number;
+  reliability: ReliabilityPoint[];
+  /** Scenarios split into terciles by rollout std deviation */
+  buckets: DispersionBucket[];
+  /** Whether the lowest-variance tercile has a lower mean absolute error than the highest */
+  lowVarianceMoreAccurate?: boolean;
+}
+
+/**
+ * Analyse how rollout dispersion relates to error for the completed
+ * scenarios of a run that have at least two successful rollouts
+ */
+export function analyzeRolloutCalibration(
+  scenarios: Scenario[],
+  results: ScenarioResult[]
+): RolloutCalibration {
+  const groundTruths = new Map(scenarios.map((s) => [s.id, s.groundTruth.value]));
+  const points: DispersionPoint[] = [];
+  const reliabilityTotals = RELIABILITY_LEVELS.map(() => ({ covered: 0, count: 0 }));
+
+  for (const result of results) {
+    const groundTruth = groundTruths.get(result.scenarioId);
+    if (groundTruth === undefined || result.status !== "completed") continue;
+
+    const predictions = result.rollouts
+      .filter((r) => getRolloutStatus(r) === "ok")
+      .map((r) => r.prediction)
+      .sort((a, b) => a - b);
+    if (predictions.length < 2) continue;
+
+    points.push({
+      scenarioId: result.scenarioId,
+      stdDeviation: result.stdDeviation,
+      absoluteError: result.absoluteError,
+      withinTolerance: result.withinTolerance,
+      rollouts: predictions.length,
+    });
+
+    RELIABILITY_LEVELS.forEach((level, i) => {
+      const low = quantile(predictions, (1 - level) / 2);
+      const high = quantile(predictions, (1 + level) / 2);
+      reliabilityTotals[i].covered += groundTruth >= low && groundTruth <= high ? 1 : 0;
+      reliabilityTotals[i].count++;
+    });
+  }
+
+  if (points.length === 0) {
+    return { points, reliability: [], buckets: [] };
+  }
+
+  const stdDeviations = points.map((p) => p.stdDeviation);
+  const absoluteErrors = points.map((p) => p.absoluteError);
+
+  const reliability = RELIABILITY_LEVELS.map((level, i) => ({
+    level,
+    observedRate: reliabilityTotals[i].covered / reliabilityTotals[i].count,
+    count: reliabilityTotals[i].count,
+  }));
+
+  const buckets = getDispersionBuckets(points);
+  const low = buckets.find((b) => b.label === "low");
+  const high = buckets.find((b) => b.label === "high");
+
+  return {
+    points,
+    pearson: pearsonCorrelation(stdDeviations, absoluteErrors),
+    spearman: spearmanCorrelation(stdDeviations, absoluteErrors),
+    reliability,
+    buckets,
+    ...(low && high && { lowVarianceMoreAccurate: low.meanAbsoluteError < high.meanAbsoluteError }),
+  };
+}
+
+/**
+ * Split scenarios into terciles by std deviation (fewer buckets for very
+ * small runs)
+ */
+function getDispersionBuckets(points: DispersionPoint[]): DispersionBucket[] {
+  const sorted = [...points].sort((a, b) => a.stdDeviation - b.stdDeviation);
+  const labels: DispersionBucket["label"][] =
+    sorted.length >= 3 ? ["low", "medium", "high"] : sorted.length === 2 ? ["low", "high"] : ["low"];
+
+  return labels.map((label, i) => {
+    const start = Math.floor((i * sorted.length) / labels.length);
+    const end = Math.floor(((i + 1) * sorted.length) / labels.length);
+    const bucket = sorted.slice(start, end);
+    return {
+      label,
+      minStdDeviation: bucket[0].stdDeviation,
+      maxStdDeviation: bucket[bucket.length - 1].stdDeviation,
+      count: bucket.length,
+      meanAbsoluteError: mean(bucket.map((p) => p.absoluteError)),
+      hitRate: (bucket.filter((p) => p.withinTolerance).length / bucket.length) * 100,
+    };
+  });
+}
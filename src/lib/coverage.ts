@@ -0,0 +1,65 @@
+/**
+ * Test Set Coverage
+ *
+ * Measures how well a set of scenarios covers a domain: scenarios per
+ * anchor, occurrences per delta, compatible delta pairs seen together,
+ * difficulty levels and the share with distractors, checked against a
+ * coverage design. Twins and distracted variants count as scenarios.
+ *
+ * This module contains only pure functions that can be safely imported by
+ * both client and server components.
+ */
+
+import type { CoverageDesign, CoverageReport, DomainConfig, Scenario } from "@/domains/schema";
+import { calculateScenarioDifficulty } from "./evaluator";
+import { getCompatiblePairs } from "./delta-rules";
+
+export function analyzeCoverage(
+  domain: DomainConfig,
+  scenarios: Scenario[],
+  design: CoverageDesign = {}
+): CoverageReport {
+  const countBy = (keys: string[], values: string[]) => {
+    const counts: Record<string, number> = Object.fromEntries(keys.map((key) => [key, 0]));
+    for (const value of values) counts[value] = (counts[value] ?? 0) + 1;
+    return counts;
+  };
+
+  const anchorCounts = countBy(
+    Object.keys(domain.anchors),
+    scenarios.map((s) => s.anchor)
+  );
+  const deltaCounts = countBy(
+    Object.keys(domain.deltas),
+    scenarios.flatMap((s) => s.appliedDeltas)
+  );
+  const difficultyCounts = countBy(
+    ["trivial", "easy", "moderate", "hard", "expert"],
+    scenarios.map((s) => calculateScenarioDifficulty(s, domain).level)
+  );
+
+  const seenPairs = new Set(
+    scenarios.flatMap((s) => {
+      const keys = [...s.appliedDeltas].sort();
+      return keys.flatMap((a, i) => keys.slice(i + 1).map((b) => `${a}|${b}`));
+    })
+  );
+  const pairs = getCompatiblePairs(domain);
+  const uncoveredPairs = pairs.filter(([a, b]) => !seenPairs.has(`${a}|${b}`));
+
+  return {
+    design,
+    scenarioCount: scenarios.length,
+    anchorCounts,
+    deltaCounts,
+    unmetDeltas: Object.keys(domain.deltas).filter(
+      (key) => deltaCounts[key] < (design.deltaOccurrences ?? 0)
+    ),
+    pairsCovered: pairs.length - uncoveredPairs.length,
+    pairsTotal: pairs.length,
+    uncoveredPairs,
+    difficultyCounts,
+    distractorShare:
+      scenarios.length > 0 ? scenarios.filter((s) => s.distractors.length > 0).length / scenarios.length : 0,
+  };
+}
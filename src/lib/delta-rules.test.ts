@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { DomainConfigSchema, type DomainConfig } from "@/domains/schema";
+import {
+  assertValidDeltaRules,
+  getAddableDeltas,
+  getCompatiblePairs,
+  getDeltaConflicts,
+  getRemovableDeltas,
+  isDeltaCombinationAllowed,
+  keepCompatibleDeltas,
+  pickCompatibleDeltas,
+  validateDeltaRules,
+} from "./delta-rules";
+import { createRng } from "./statistics";
+
+const delta = { type: "additive" as const, value: 0.1, description: "" };
+
+function domain(deltaRules?: DomainConfig["deltaRules"]): DomainConfig {
+  return DomainConfigSchema.parse({
+    id: "test",
+    name: "Test",
+    description: "",
+    outputUnit: "%",
+    anchors: {
+      office: { value: 5, description: "" },
+      hotel: { value: 6, description: "" },
+    },
+    deltas: { long: delta, short: delta, green: delta, certified: delta, prime: delta },
+    distractors: [],
+    deltaRules,
+  });
+}
+
+const rules = domain({
+  exclusive: [["long", "short"]],
+  requires: { certified: ["green"] },
+  anchorDeltas: { hotel: ["long", "short", "prime"] },
+});
+
+describe("getDeltaConflicts", () => {
+  it("reports exclusions, missing requirements and anchor whitelists", () => {
+    expect(getDeltaConflicts(rules, "office", ["long", "short"])).toEqual(["long and short are mutually exclusive"]);
+    expect(getDeltaConflicts(rules, "office", ["certified"])).toEqual(["certified requires green"]);
+    expect(getDeltaConflicts(rules, "hotel", ["green"])).toEqual(["green is not allowed for anchor hotel"]);
+    expect(isDeltaCombinationAllowed(rules, "office", ["long", "certified", "green"])).toBe(true);
+  });
+
+  it("allows anything without rules", () => {
+    expect(getDeltaConflicts(domain(), "hotel", ["long", "short", "certified"])).toEqual([]);
+  });
+});
+
+describe("validateDeltaRules", () => {
+  it("accepts consistent rules", () => {
+    expect(validateDeltaRules(rules)).toEqual([]);
+  });
+
+  it("reports unknown keys and deltas that can never apply", () => {
+    expect(validateDeltaRules(domain({ exclusive: [["long", "missing"]] }))).toEqual([
+      'Unknown delta "missing" in exclusive group 1',
+    ]);
+
+    const impossible = domain({ exclusive: [["long", "short"]], requires: { prime: ["long", "short"] } });
+    expect(validateDeltaRules(impossible)).toEqual([
+      "prime can never apply: it requires long and short, which are mutually exclusive",
+    ]);
+    expect(() => assertValidDeltaRules(impossible)).toThrow("Invalid delta rules for domain test");
+  });
+});
+
+describe("pickCompatibleDeltas", () => {
+  it("only picks allowed combinations", () => {
+    const random = createRng(1);
+    for (let i = 0; i < 200; i++) {
+      const anchor = i % 2 === 0 ? "office" : "hotel";
+      const picked = pickCompatibleDeltas(rules, anchor, 1 + (i % 4), random);
+      expect(isDeltaCombinationAllowed(rules, anchor, picked)).toBe(true);
+    }
+  });
+
+  it("starts from required deltas with their requirements", () => {
+    const picked = pickCompatibleDeltas(rules, "office", 2, createRng(3), ["certified"]);
+    expect(picked.sort()).toEqual(["certified", "green"]);
+  });
+
+  it("never adds excluded deltas", () => {
+    const random = createRng(5);
+    for (let i = 0; i < 50; i++) {
+      expect(pickCompatibleDeltas(rules, "office", 3, random, ["long"], ["prime", "green"])).not.toContain("prime");
+    }
+  });
+});
+
+describe("combination helpers", () => {
+  it("keeps required deltas and only adds allowed ones", () => {
+    expect(getRemovableDeltas(rules, ["certified", "green", "long"])).toEqual(["certified", "long"]);
+    expect(getAddableDeltas(rules, "office", ["long"])).toEqual(["green", "prime"]);
+  });
+
+  it("keeps earlier deltas and their requirements when a combination breaks the rules", () => {
+    expect(keepCompatibleDeltas(rules, "office", ["short", "long", "certified"])).toEqual(["short", "certified", "green"]);
+    expect(keepCompatibleDeltas(rules, "hotel", ["prime", "green", "long"])).toEqual(["prime", "long"]);
+  });
+
+  it("lists pairs that apply together for some anchor", () => {
+    const pairs = getCompatiblePairs(rules);
+    expect(pairs).toContainEqual(["certified", "green"]);
+    expect(pairs).toContainEqual(["certified", "long"]);
+    expect(pairs).not.toContainEqual(["long", "short"]);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Delta Compatibility Rules
+ *
+ * Enforces a domain's `deltaRules` when deltas are combined into a
+ * scenario: exclusion groups (at most one delta of each group, e.g. long
+ * and short lease), requirements (a delta only applies together with
+ * others) and anchor whitelists (the only deltas an anchor may get).
+ * Domains without rules accept any combination.
+ *
+ * This module contains only pure functions that can be safely imported by
+ * both client and server components.
+ */
+
+import type { DomainConfig } from "@/domains/schema";
+
+/**
+ * A delta together with everything it requires, directly or through other
+ * requirements
+ */
+function withRequirements(domain: DomainConfig, deltaKey: string): string[] {
+  const requires = domain.deltaRules?.requires ?? {};
+  const closure = [deltaKey];
+  for (let i = 0; i < closure.length; i++) {
+    for (const required of requires[closure[i]] ?? []) {
+      if (!closure.includes(required)) closure.push(required);
+    }
+  }
+  return closure;
+}
+
+/**
+ * Deltas the anchor may get, before requirements and exclusions
+ */
+function anchorDeltaKeys(domain: DomainConfig, anchorKey: string): string[] {
+  const whitelist = domain.deltaRules?.anchorDeltas?.[anchorKey];
+  return Object.keys(domain.deltas).filter((key) => !whitelist || whitelist.includes(key));
+}
+
+/**
+ * Reasons a combination of deltas breaks the domain's rules (empty when it
+ * is allowed)
+ */
+export function getDeltaConflicts(domain: DomainConfig, anchorKey: string, deltaKeys: string[]): string[] {
+  const rules = domain.deltaRules;
+  if (!rules) return [];
+
+  const conflicts: string[] = [];
+  const whitelist = rules.anchorDeltas?.[anchorKey];
+  if (whitelist) {
+    for (const key of deltaKeys.filter((k) => !whitelist.includes(k))) {
+      conflicts.push(`${key} is not allowed for anchor ${anchorKey}`);
+    }
+  }
+
+  for (const group of rules.exclusive ?? []) {
+    const applied = deltaKeys.filter((key) => group.includes(key));
+    if (applied.length > 1) {
+      conflicts.push(`${applied.join(" and ")} are mutually exclusive`);
+    }
+  }
+
+  for (const key of deltaKeys) {
+    const missing = (rules.requires?.[key] ?? []).filter((required) => !deltaKeys.includes(required));
+    if (missing.length > 0) {
+      conflicts.push(`${key} requires ${missing.join(", ")}`);
+    }
+  }
+
+  return conflicts;
+}
+
+export function isDeltaCombinationAllowed(domain: DomainConfig, anchorKey: string, deltaKeys: string[]): boolean {
+  return getDeltaConflicts(domain, anchorKey, deltaKeys).length === 0;
+}
+
+/**
+ * Problems with a domain's delta rules: unknown keys, and deltas that can
+ * never apply because their requirements conflict with each other
+ */
+export function validateDeltaRules(domain: DomainConfig): string[] {
+  const rules = domain.deltaRules;
+  if (!rules) return [];
+
+  const errors: string[] = [];
+  const checkDelta = (key: string, where: string) => {
+    if (!domain.deltas[key]) errors.push(`Unknown delta "${key}" in ${where}`);
+  };
+
+  (rules.exclusive ?? []).forEach((group, i) => {
+    group.forEach((key) => checkDelta(key, `exclusive group ${i + 1}`));
+  });
+  for (const [key, required] of Object.entries(rules.requires ?? {})) {
+    checkDelta(key, "requires");
+    required.forEach((requiredKey) => checkDelta(requiredKey, `requirements of ${key}`));
+  }
+  for (const [anchorKey, allowed] of Object.entries(rules.anchorDeltas ?? {})) {
+    if (!domain.anchors[anchorKey]) errors.push(`Unknown anchor "${anchorKey}" in anchorDeltas`);
+    allowed.forEach((key) => checkDelta(key, `anchorDeltas of ${anchorKey}`));
+  }
+  if (errors.length > 0) return errors;
+
+  for (const key of Object.keys(rules.requires ?? {})) {
+    const closure = withRequirements(domain, key);
+    for (const group of rules.exclusive ?? []) {
+      const conflicting = closure.filter((k) => group.includes(k));
+      if (conflicting.length > 1) {
+        errors.push(`${key} can never apply: it requires ${conflicting.join(" and ")}, which are mutually exclusive`);
+      }
+    }
+  }
+
+  for (const [anchorKey, allowed] of Object.entries(rules.anchorDeltas ?? {})) {
+    for (const key of allowed) {
+      const missing = withRequirements(domain, key).filter((k) => !allowed.includes(k));
+      if (missing.length > 0) {
+        errors.push(`${key} can never apply to ${anchorKey}: it requires ${missing.join(", ")}, which the anchor does not allow`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Throw when a domain's delta rules are invalid
+ */
+export function assertValidDeltaRules(domain: DomainConfig): void {
+  const errors = validateDeltaRules(domain);
+  if (errors.length > 0) {
+    throw new Error(`Invalid delta rules for domain ${domain.id}: ${errors.join("; ")}`);
+  }
+}
+
+/**
+ * Pick up to `count` deltas for an anchor that satisfy the domain's rules,
+ * starting from `required` (with its requirements) when that combination
+ * is allowed. Candidates are tried in random order, each with the deltas
+ * it requires; a candidate is skipped when it would break a rule or exceed
+ * `count`, so tightly constrained domains may get fewer deltas than asked for.
+ * Deltas in `excluded` are never added as candidates.
+ */
+export function pickCompatibleDeltas(
+  domain: DomainConfig,
+  anchorKey: string,
+  count: number,
+  random: () => number,
+  required: string[] = [],
+  excluded: string[] = []
+): string[] {
+  const shuffled = anchorDeltaKeys(domain, anchorKey)
+    .filter((key) => !excluded.includes(key))
+    .sort(() => random() - 0.5);
+  if (!domain.deltaRules && required.length === 0) return shuffled.slice(0, count);
+
+  const start = Array.from(new Set(required.flatMap((key) => withRequirements(domain, key))));
+  const picked = isDeltaCombinationAllowed(domain, anchorKey, start) ? start : [];
+  for (const candidate of shuffled) {
+    if (picked.length >= count) break;
+    if (picked.includes(candidate)) continue;
+
+    const added = withRequirements(domain, candidate).filter((key) => !picked.includes(key));
+    const combined = [...picked, ...added];
+    if (combined.length <= count && isDeltaCombinationAllowed(domain, anchorKey, combined)) {
+      picked.push(...added);
+    }
+  }
+  return picked;
+}
+
+/**
+ * Keep what the rules allow of `deltaKeys` for an anchor: deltas are taken
+ * in order, each with its requirements, and skipped when they would break
+ * a rule, so earlier deltas win over later ones.
+ */
+export function keepCompatibleDeltas(domain: DomainConfig, anchorKey: string, deltaKeys: string[]): string[] {
+  const kept: string[] = [];
+  for (const key of deltaKeys) {
+    const added = withRequirements(domain, key).filter((k) => !kept.includes(k));
+    if (isDeltaCombinationAllowed(domain, anchorKey, [...kept, ...added])) {
+      kept.push(...added);
+    }
+  }
+  return kept;
+}
+
+/**
+ * Applied deltas that can be removed without breaking a requirement of
+ * another applied delta
+ */
+export function getRemovableDeltas(domain: DomainConfig, appliedDeltaKeys: string[]): string[] {
+  const requires = domain.deltaRules?.requires ?? {};
+  return appliedDeltaKeys.filter(
+    (key) => !appliedDeltaKeys.some((other) => other !== key && (requires[other] ?? []).includes(key))
+  );
+}
+
+/**
+ * Deltas that can be added to a combination on their own and keep it
+ * within the rules
+ */
+export function getAddableDeltas(domain: DomainConfig, anchorKey: string, deltaKeys: string[]): string[] {
+  return Object.keys(domain.deltas).filter(
+    (key) => !deltaKeys.includes(key) && isDeltaCombinationAllowed(domain, anchorKey, [...deltaKeys, key])
+  );
+}
+
+/**
+ * Pairs of deltas that can apply together for at least one anchor, each
+ * sorted by key
+ */
+export function getCompatiblePairs(domain: DomainConfig): Array<[string, string]> {
+  const deltaKeys = Object.keys(domain.deltas).sort();
+  const anchorKeys = Object.keys(domain.anchors);
+  const pairs: Array<[string, string]> = [];
+
+  deltaKeys.forEach((a, i) => {
+    for (const b of deltaKeys.slice(i + 1)) {
+      const combined = Array.from(new Set([...withRequirements(domain, a), ...withRequirements(domain, b)]));
+      if (anchorKeys.some((anchorKey) => isDeltaCombinationAllowed(domain, anchorKey, combined))) {
+        pairs.push([a, b]);
+      }
+    }
+  });
+
+  return pairs;
+}
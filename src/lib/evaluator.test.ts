@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import type { RolloutResult, Scenario } from "@/domains/schema";
+import {
+  analyzeDistractorPairs,
+  calculateAggregateMetrics,
+  calculateMetricIntervals,
+  evaluateRollouts,
+} from "./evaluator";
+
+function scenario(id: string, value: number, tolerance = 0.25): Scenario {
+  return {
+    id,
+    anchor: "office_oslo_cbd",
+    appliedDeltas: [],
+    distractors: [],
+    contextDescription: "",
+    groundTruth: { value, tolerance, calculation: "" },
+  };
+}
+
+function rollout(prediction: number, extra: Partial<RolloutResult> = {}): RolloutResult {
+  return { prediction, reasoning: "", latencyMs: 100, status: "ok", ...extra };
+}
+
+describe("evaluateRollouts", () => {
+  it("scores the mean of successful rollouts against ground truth", () => {
+    const result = evaluateRollouts(scenario("s1", 5), [
+      rollout(5.1),
+      rollout(5.3),
+      rollout(4.9),
+      rollout(0, { status: "parse_error", error: "Failed to parse LLM response" }),
+    ]);
+
+    expect(result.status).toBe("completed");
+    expect(result.rollouts).toHaveLength(4);
+    expect(result.meanPrediction).toBe(5.1);
+    expect(result.error).toBe(0.1);
+    expect(result.absoluteError).toBe(0.1);
+    expect(result.withinTolerance).toBe(true);
+    // Population standard deviation of 5.1, 5.3, 4.9
+    expect(result.stdDeviation).toBe(0.163);
+    expect(result.minPrediction).toBe(4.9);
+    expect(result.maxPrediction).toBe(5.3);
+    // 5.3 is outside ±0.25
+    expect(result.rolloutConsistency).toBe(66.67);
+  });
+
+  it("rescores a re-run over earlier and new rollouts together", () => {
+    const earlier = evaluateRollouts(scenario("s1", 5), [rollout(0, { status: "timeout", error: "Timed out" })]);
+    expect(earlier.status).toBe("failed");
+
+    const rerun = evaluateRollouts(scenario("s1", 5), [...earlier.rollouts, rollout(5.2)]);
+    expect(rerun.status).toBe("completed");
+    expect(rerun.rollouts).toHaveLength(2);
+    expect(rerun.meanPrediction).toBe(5.2);
+    expect(rerun.withinTolerance).toBe(true);
+  });
+
+  it("scores reported intervals", () => {
+    const result = evaluateRollouts(scenario("s1", 5), [
+      rollout(5, { low: 4.5, high: 5.5 }),
+      rollout(5.2, { low: 5.1, high: 5.3 }),
+    ]);
+    expect(result.intervalCoverage).toBe(50);
+    expect(result.intervalWidth).toBe(0.6);
+  });
+
+  it("marks a scenario failed when every rollout failed", () => {
+    const result = evaluateRollouts(scenario("s1", 5), [
+      rollout(0, { status: "http_error", error: "HTTP 500" }),
+    ]);
+    expect(result.status).toBe("failed");
+    expect(result.withinTolerance).toBe(false);
+    // Nothing was scored, so the result carries no error
+    expect(result.absoluteError).toBe(0);
+  });
+});
+
+describe("calculateAggregateMetrics", () => {
+  it("computes hit rate, bias and RMSE over scored scenarios", () => {
+    const scenarios = [scenario("a", 5), scenario("b", 6), scenario("c", 7)];
+    const results = [
+      evaluateRollouts(scenarios[0], [rollout(5.1)]),
+      evaluateRollouts(scenarios[1], [rollout(5.5)]),
+      evaluateRollouts(scenarios[2], [rollout(0, { status: "parse_error", error: "Failed to parse LLM response" })]),
+    ];
+
+    const metrics = calculateAggregateMetrics(scenarios, results)!;
+    expect(metrics.hitRate).toBe(50);
+    expect(metrics.meanError).toBe(-0.2);
+    // sqrt((0.1² + 0.5²) / 2)
+    expect(metrics.rmse).toBe(0.361);
+    expect(metrics.avgLatencyMs).toBe(100);
+    expect(metrics.totalRollouts).toBe(3);
+    expect(metrics.failedScenarios).toBe(1);
+    expect(metrics.parseFailureRate).toBe(33.33);
+    expect(metrics.rolloutStatusCounts).toEqual({ ok: 2, parse_error: 1, http_error: 0, timeout: 0 });
+  });
+
+  it("reports zero accuracy when nothing could be scored", () => {
+    const metrics = calculateAggregateMetrics([scenario("a", 5)], [
+      evaluateRollouts(scenario("a", 5), [rollout(0, { status: "timeout", error: "Timed out" })]),
+    ])!;
+    expect(metrics.hitRate).toBe(0);
+    expect(metrics.rmse).toBe(0);
+    expect(metrics.rolloutErrorRate).toBe(100);
+  });
+});
+
+describe("calculateMetricIntervals", () => {
+  it("gives the Wilson interval of the hit rate in percent", () => {
+    const scenarios = Array.from({ length: 10 }, (_, i) => scenario(`s${i}`, 5));
+    const results = scenarios.map((s, i) => evaluateRollouts(s, [rollout(i < 8 ? 5 : 6)]));
+
+    expect(calculateMetricIntervals(scenarios, results).hitRate).toEqual({ lower: 49.02, upper: 94.33 });
+  });
+
+  it("collapses the RMSE interval when every error is the same", () => {
+    const scenarios = [scenario("a", 5), scenario("b", 5)];
+    const results = scenarios.map((s) => evaluateRollouts(s, [rollout(5.5)]));
+
+    expect(calculateMetricIntervals(scenarios, results).rmse).toEqual({ lower: 0.5, upper: 0.5 });
+  });
+});
+
+describe("analyzeDistractorPairs", () => {
+  it("counts each clean/distracted pair once, whatever its number of distractors", () => {
+    const scenarios: Scenario[] = [
+      scenario("clean1", 5),
+      { ...scenario("noisy1", 5), distractors: ["a", "b"], cleanVariantId: "clean1" },
+      scenario("clean2", 5),
+      { ...scenario("noisy2", 5), distractors: ["a"], cleanVariantId: "clean2" },
+    ];
+    const predictions: Record<string, number> = { clean1: 5, noisy1: 6, clean2: 5, noisy2: 5.2 };
+    const results = scenarios.map((s) => evaluateRollouts(s, [rollout(predictions[s.id])]));
+
+    const analysis = analyzeDistractorPairs(undefined, scenarios, results);
+    expect(analysis.pairs).toBe(2);
+    expect(analysis.meanAbsErrorShift).toBe(0.6);
+    expect(analysis.byDistractor.map((d) => [d.distractor, d.pairs])).toEqual([
+      ["b", 1],
+      ["a", 2],
+    ]);
+  });
+});
@@ -6,10 +6,26 @@ import type {
   DomainConfig,
   DifficultyScore,
   ErrorPattern,
+  ParseStrategy,
+  RolloutStatus,
+  MetricInterval,
 } from "@/domains/schema";
 import type { LLMResult } from "./openrouter";
 import { getTwinPairs } from "./scenario-utils";
 import { calculateCost } from "./pricing";
+import { identifyFactors } from "./reasoning";
+import { verifyArithmetic } from "./arithmetic";
+import {
+  bootstrapCI,
+  mean,
+  normalCrps,
+  normalQuantile,
+  pinballLoss,
+  wilsonInterval,
+} from "./statistics";
+
+/** Coverage the uncertainty prompts ask for ("80% interval") */
+export const PREDICTION_INTERVAL_LEVEL = 0.8;
 
 /**
  * Calculate standard deviation
@@ -23,24 +39,119 @@ function calculateStdDeviation(values: number[]): number {
 }
 
 /**
- * Evaluate multiple rollouts against ground truth
- * Calculates mean, std deviation, and consistency metrics
+ * Outcome of a rollout. Runs saved before rollout statuses existed only
+ * recorded failures as an "Error: ..." reasoning with a zero prediction.
  */
-export function evaluateMultipleRollouts(
-  scenario: Scenario,
-  results: LLMResult[],
-  modelId?: string
-): ScenarioResult {
-  const groundTruth = scenario.groundTruth.value;
-  const tolerance = scenario.groundTruth.tolerance;
+export function getRolloutStatus(rollout: RolloutResult): RolloutStatus {
+  if (rollout.status) return rollout.status;
+  const isLegacyError = rollout.prediction === 0 && rollout.reasoning.startsWith("Error: ");
+  if (rollout.error === undefined && !isLegacyError) return "ok";
+  const message = rollout.error ?? rollout.reasoning;
+  return message.includes("Failed to parse LLM response") ? "parse_error" : "http_error";
+}
+
+/**
+ * Count rollouts by status
+ */
+export function countRolloutStatuses(rollouts: RolloutResult[]): Record<RolloutStatus, number> {
+  const counts: Record<RolloutStatus, number> = { ok: 0, parse_error: 0, http_error: 0, timeout: 0 };
+  for (const rollout of rollouts) {
+    counts[getRolloutStatus(rollout)]++;
+  }
+  return counts;
+}
+
+/** Parse strategies that read the estimate from free text rather than JSON */
+export const FALLBACK_PARSE_STRATEGIES: ParseStrategy[] = [
+  "field_regex",
+  "final_line",
+  "estimate_text",
+  "last_percentage",
+];
+
+/**
+ * Count successful rollouts by parse strategy, and the % parsed by text
+ * fallbacks. Undefined when no rollout recorded a strategy (older runs).
+ */
+export function summarizeParseStrategies(
+  rollouts: RolloutResult[]
+): { parseStrategyCounts: Partial<Record<ParseStrategy, number>>; fallbackParseRate: number } | undefined {
+  const parseStrategyCounts: Partial<Record<ParseStrategy, number>> = {};
+  let recorded = 0;
+  let fallbacks = 0;
+
+  for (const rollout of rollouts) {
+    if (!rollout.parseStrategy || getRolloutStatus(rollout) !== "ok") continue;
+    parseStrategyCounts[rollout.parseStrategy] = (parseStrategyCounts[rollout.parseStrategy] ?? 0) + 1;
+    recorded++;
+    if (FALLBACK_PARSE_STRATEGIES.includes(rollout.parseStrategy)) fallbacks++;
+  }
+
+  if (recorded === 0) return undefined;
+  return {
+    parseStrategyCounts,
+    fallbackParseRate: Math.round((fallbacks / recorded) * 100 * 100) / 100,
+  };
+}
+
+/**
+ * Pool rollout outcomes over several runs (e.g. all runs of one model or
+ * prompt template). Rates are percentages of all rollouts.
+ */
+export function summarizeRolloutFailures(runs: BenchmarkRun[]): {
+  totalRollouts: number;
+  parseFailureRate: number;
+  rolloutErrorRate: number;
+} {
+  const counts: Record<RolloutStatus, number> = { ok: 0, parse_error: 0, http_error: 0, timeout: 0 };
+  for (const run of runs) {
+    const runCounts = run.aggregateMetrics?.rolloutStatusCounts
+      ?? countRolloutStatuses(run.results.flatMap((r) => r.rollouts));
+    for (const status of Object.keys(counts) as RolloutStatus[]) {
+      counts[status] += runCounts[status];
+    }
+  }
 
-  // Convert LLMResults to RolloutResults, preserving token usage and calculating cost
-  const rollouts: RolloutResult[] = results.map((r) => {
+  const totalRollouts = counts.ok + counts.parse_error + counts.http_error + counts.timeout;
+  if (totalRollouts === 0) {
+    return { totalRollouts: 0, parseFailureRate: 0, rolloutErrorRate: 0 };
+  }
+  return {
+    totalRollouts,
+    parseFailureRate: (counts.parse_error / totalRollouts) * 100,
+    rolloutErrorRate: ((totalRollouts - counts.ok) / totalRollouts) * 100,
+  };
+}
+
+/**
+ * Convert LLM results to rollout results, preserving token usage and
+ * calculating cost
+ */
+export function toRolloutResults(results: LLMResult[], modelId?: string): RolloutResult[] {
+  return results.map((r) => {
     const rollout: RolloutResult = {
       prediction: r.prediction.estimate,
       reasoning: r.prediction.reasoning,
       latencyMs: r.latencyMs,
+      status: r.status,
+      rawResponse: r.rawResponse,
     };
+    if (r.parseStrategy !== undefined) {
+      rollout.parseStrategy = r.parseStrategy;
+    }
+    if (r.prediction.low !== undefined && r.prediction.high !== undefined) {
+      rollout.low = r.prediction.low;
+      rollout.high = r.prediction.high;
+    }
+    if (r.prediction.quantiles !== undefined) {
+      rollout.quantiles = r.prediction.quantiles;
+    }
+    if (r.error !== undefined) {
+      rollout.error = r.error;
+    }
+    if (r.cached) {
+      rollout.cached = true;
+    }
 
     // Add token usage if available
     if (r.promptTokens !== undefined) {
@@ -53,17 +164,157 @@ export function evaluateMultipleRollouts(
       rollout.totalTokens = r.tokensUsed;
     }
 
-    // Calculate cost if we have token data and model ID
+    // Calculate cost if we have token data and model ID (cache hits are free)
     if (r.promptTokens !== undefined && r.completionTokens !== undefined) {
       const model = modelId || r.model;
-      rollout.cost = calculateCost(model, r.promptTokens, r.completionTokens);
+      rollout.cost = r.cached ? 0 : calculateCost(model, r.promptTokens, r.completionTokens, r.provider);
     }
 
     return rollout;
   });
+}
+
+/**
+ * Quantiles a rollout reported, sorted by level. The point estimate is used
+ * as the median and the interval as the PREDICTION_INTERVAL_LEVEL central
+ * interval. Empty when the rollout reported no uncertainty.
+ */
+export function getPredictiveQuantiles(rollout: RolloutResult): { level: number; value: number }[] {
+  const byLevel = new Map<number, number>();
+  if (rollout.low !== undefined && rollout.high !== undefined) {
+    byLevel.set((1 - PREDICTION_INTERVAL_LEVEL) / 2, rollout.low);
+    byLevel.set((1 + PREDICTION_INTERVAL_LEVEL) / 2, rollout.high);
+  }
+  for (const [key, value] of Object.entries(rollout.quantiles ?? {})) {
+    byLevel.set(Number(key), value);
+  }
+  if (byLevel.size === 0) return [];
+  if (!byLevel.has(0.5)) byLevel.set(0.5, rollout.prediction);
+
+  return Array.from(byLevel, ([level, value]) => ({ level, value })).sort((a, b) => a.level - b.level);
+}
+
+/**
+ * Central PREDICTION_INTERVAL_LEVEL interval of a rollout, from its
+ * low/high fields or the matching quantiles
+ */
+export function getReportedInterval(rollout: RolloutResult): { low: number; high: number } | undefined {
+  if (rollout.low !== undefined && rollout.high !== undefined) {
+    return { low: rollout.low, high: rollout.high };
+  }
+  const quantiles = getPredictiveQuantiles(rollout);
+  const lowLevel = (1 - PREDICTION_INTERVAL_LEVEL) / 2;
+  const highLevel = (1 + PREDICTION_INTERVAL_LEVEL) / 2;
+  const low = quantiles.find((q) => Math.abs(q.level - lowLevel) < 1e-6);
+  const high = quantiles.find((q) => Math.abs(q.level - highLevel) < 1e-6);
+  return low && high ? { low: low.value, high: high.value } : undefined;
+}
+
+/**
+ * Proper scores of a rollout's reported uncertainty against ground truth.
+ * CRPS uses a normal distribution centred on the median, with its spread
+ * fitted to the outermost reported quantiles.
+ */
+export function scoreRolloutUncertainty(
+  rollout: RolloutResult,
+  groundTruth: number
+): { covered?: boolean; width?: number; pinballLoss: number; crps: number } | undefined {
+  const quantiles = getPredictiveQuantiles(rollout);
+  if (quantiles.length === 0) return undefined;
+
+  const loss = mean(quantiles.map((q) => pinballLoss(groundTruth, q.value, q.level)));
+
+  const median = quantiles.find((q) => q.level === 0.5)?.value ?? rollout.prediction;
+  const lowest = quantiles[0];
+  const highest = quantiles[quantiles.length - 1];
+  const zSpread = normalQuantile(highest.level) - normalQuantile(lowest.level);
+  const sigma = zSpread > 0 ? Math.max(0, (highest.value - lowest.value) / zSpread) : 0;
+
+  const interval = getReportedInterval(rollout);
+  return {
+    ...(interval && {
+      covered: groundTruth >= interval.low && groundTruth <= interval.high,
+      width: interval.high - interval.low,
+    }),
+    pinballLoss: loss,
+    crps: normalCrps(groundTruth, median, sigma),
+  };
+}
+
+/**
+ * Share of ground-truth values at or below each reported quantile level,
+ * pooled over a run's successful rollouts. A calibrated model has an
+ * observed rate close to the level.
+ */
+export function calculateQuantileCalibration(
+  scenarios: Scenario[],
+  results: ScenarioResult[]
+): { level: number; observedRate: number; count: number }[] {
+  const groundTruths = new Map(scenarios.map((s) => [s.id, s.groundTruth.value]));
+  const totals = new Map<number, { below: number; count: number }>();
+
+  for (const result of results) {
+    const groundTruth = groundTruths.get(result.scenarioId);
+    if (groundTruth === undefined || result.status !== "completed") continue;
+    for (const rollout of result.rollouts) {
+      if (getRolloutStatus(rollout) !== "ok") continue;
+      for (const { level, value } of getPredictiveQuantiles(rollout)) {
+        const key = Math.round(level * 1000) / 1000;
+        const total = totals.get(key) ?? { below: 0, count: 0 };
+        total.below += groundTruth <= value ? 1 : 0;
+        total.count++;
+        totals.set(key, total);
+      }
+    }
+  }
+
+  return Array.from(totals, ([level, { below, count }]) => ({
+    level,
+    observedRate: below / count,
+    count,
+  })).sort((a, b) => a.level - b.level);
+}
+
+/**
+ * Evaluate multiple rollouts against ground truth
+ * Calculates mean, std deviation, and consistency metrics over the
+ * successful rollouts; failed rollouts are kept but not scored.
+ * If every rollout failed the result is marked "failed".
+ */
+export function evaluateMultipleRollouts(
+  scenario: Scenario,
+  results: LLMResult[],
+  modelId?: string
+): ScenarioResult {
+  return evaluateRollouts(scenario, toRolloutResults(results, modelId));
+}
+
+/**
+ * Score already-recorded rollouts against ground truth (e.g. earlier
+ * rollouts plus the ones from a re-run)
+ */
+export function evaluateRollouts(scenario: Scenario, rollouts: RolloutResult[]): ScenarioResult {
+  const groundTruth = scenario.groundTruth.value;
+  const tolerance = scenario.groundTruth.tolerance;
 
   // Calculate aggregate stats
-  const predictions = rollouts.map((r) => r.prediction);
+  const predictions = rollouts.filter((r) => getRolloutStatus(r) === "ok").map((r) => r.prediction);
+  if (predictions.length === 0) {
+    // Nothing to score; the result is excluded from accuracy metrics
+    return {
+      scenarioId: scenario.id,
+      status: "failed" as const,
+      rollouts,
+      meanPrediction: 0,
+      stdDeviation: 0,
+      minPrediction: 0,
+      maxPrediction: 0,
+      error: 0,
+      absoluteError: 0,
+      withinTolerance: false,
+      rolloutConsistency: 0,
+    };
+  }
   const meanPrediction = predictions.reduce((sum, p) => sum + p, 0) / predictions.length;
   const stdDeviation = calculateStdDeviation(predictions);
   const minPrediction = Math.min(...predictions);
@@ -80,6 +331,13 @@ export function evaluateMultipleRollouts(
   ).length;
   const rolloutConsistency = (rolloutsWithinTolerance / predictions.length) * 100;
 
+  // Score reported uncertainty where the model gave any
+  const uncertaintyScores = rollouts
+    .filter((r) => getRolloutStatus(r) === "ok")
+    .map((r) => scoreRolloutUncertainty(r, groundTruth))
+    .filter((score) => score !== undefined);
+  const intervalScores = uncertaintyScores.filter((score) => score.covered !== undefined);
+
   return {
     scenarioId: scenario.id,
     status: "completed" as const,
@@ -92,6 +350,15 @@ export function evaluateMultipleRollouts(
     absoluteError: Math.round(absoluteError * 1000) / 1000,
     withinTolerance,
     rolloutConsistency: Math.round(rolloutConsistency * 100) / 100,
+    ...(intervalScores.length > 0 && {
+      intervalCoverage:
+        Math.round((intervalScores.filter((s) => s.covered).length / intervalScores.length) * 100 * 100) / 100,
+      intervalWidth: Math.round(mean(intervalScores.map((s) => s.width ?? 0)) * 1000) / 1000,
+    }),
+    ...(uncertaintyScores.length > 0 && {
+      pinballLoss: Math.round(mean(uncertaintyScores.map((s) => s.pinballLoss)) * 1000) / 1000,
+      crps: Math.round(mean(uncertaintyScores.map((s) => s.crps)) * 1000) / 1000,
+    }),
   };
 }
 
@@ -108,17 +375,37 @@ export function evaluatePrediction(
 
 /**
  * Calculate aggregate metrics for a benchmark run
+ * Accuracy is measured over scenarios with at least one successful rollout;
+ * failed calls are reported as parse-failure and error rates instead.
  */
 export function calculateAggregateMetrics(
   scenarios: Scenario[],
-  results: ScenarioResult[]
+  allResults: ScenarioResult[]
 ): BenchmarkRun["aggregateMetrics"] {
+  const allRollouts = allResults.flatMap((r) => r.rollouts);
+  const rolloutStatusCounts = countRolloutStatuses(allRollouts);
+  const failedRolloutCount = allRollouts.length - rolloutStatusCounts.ok;
+  const failureMetrics = {
+    totalRollouts: allRollouts.length,
+    rolloutStatusCounts,
+    parseFailureRate: allRollouts.length > 0
+      ? Math.round((rolloutStatusCounts.parse_error / allRollouts.length) * 100 * 100) / 100
+      : 0,
+    rolloutErrorRate: allRollouts.length > 0
+      ? Math.round((failedRolloutCount / allRollouts.length) * 100 * 100) / 100
+      : 0,
+    failedScenarios: allResults.filter((r) => r.status === "failed").length,
+    ...summarizeParseStrategies(allRollouts),
+  };
+
+  const results = allResults.filter((r) => r.status !== "failed");
   if (results.length === 0) {
     return {
       hitRate: 0,
       meanError: 0,
       rmse: 0,
       avgLatencyMs: 0,
+      ...failureMetrics,
     };
   }
 
@@ -135,17 +422,16 @@ export function calculateAggregateMetrics(
     results.reduce((sum, r) => sum + r.error * r.error, 0) / results.length;
   const rmse = Math.sqrt(mse);
 
-  // Average latency across all rollouts
-  const totalLatency = results.reduce(
-    (sum, r) => sum + r.rollouts.reduce((s, roll) => s + roll.latencyMs, 0),
-    0
-  );
-  const totalRollouts = results.reduce((sum, r) => sum + r.rollouts.length, 0);
-  const avgLatencyMs = totalRollouts > 0 ? totalLatency / totalRollouts : 0;
+  // Average latency across all successful rollouts
+  const successfulRollouts = allRollouts.filter((roll) => getRolloutStatus(roll) === "ok");
+  const totalLatency = successfulRollouts.reduce((sum, roll) => sum + roll.latencyMs, 0);
+  const avgLatencyMs = successfulRollouts.length > 0 ? totalLatency / successfulRollouts.length : 0;
 
   // Directional accuracy for twin pairs
   const directionalAccuracy = calculateDirectionalAccuracy(scenarios, results);
 
+  const intervals = calculateMetricIntervals(scenarios, results);
+
   // Variance metrics (when rollouts > 1)
   const hasMultipleRollouts = results.some((r) => r.rollouts.length > 1);
   let avgStdDeviation: number | undefined;
@@ -158,14 +444,43 @@ export function calculateAggregateMetrics(
       results.reduce((sum, r) => sum + r.rolloutConsistency, 0) / results.length;
   }
 
-  // Aggregate token usage and costs across all rollouts
+  // Uncertainty scores, averaged over scenarios where the model reported any
+  const uncertaintyRollouts = results
+    .flatMap((r) => r.rollouts)
+    .filter((roll) => getRolloutStatus(roll) === "ok" && getPredictiveQuantiles(roll).length > 0).length;
+  const averageOf = (values: (number | undefined)[], digits: number) => {
+    const defined = values.filter((v) => v !== undefined);
+    if (defined.length === 0) return undefined;
+    const factor = Math.pow(10, digits);
+    return Math.round(mean(defined) * factor) / factor;
+  };
+  const uncertaintyMetrics = uncertaintyRollouts > 0
+    ? {
+        uncertaintyRollouts,
+        intervalCoverage: averageOf(results.map((r) => r.intervalCoverage), 2),
+        intervalWidth: averageOf(results.map((r) => r.intervalWidth), 3),
+        pinballLoss: averageOf(results.map((r) => r.pinballLoss), 3),
+        crps: averageOf(results.map((r) => r.crps), 3),
+      }
+    : {};
+
+  // Judge scores, averaged per scenario like the uncertainty scores
+  const judgedRollouts = results.reduce((sum, r) => sum + (r.judge?.scores.length ?? 0), 0);
+  const judgeMetrics = judgedRollouts > 0
+    ? {
+        judgedRollouts,
+        judgeScore: averageOf(results.map((r) => r.judge?.meanScore), 2),
+      }
+    : {};
+
+  // Aggregate token usage and costs across all rollouts, failed ones included
   let totalPromptTokens = 0;
   let totalCompletionTokens = 0;
   let totalTokens = 0;
   let totalCost = 0;
   let hasTokenData = false;
 
-  for (const result of results) {
+  for (const result of allResults) {
     for (const rollout of result.rollouts) {
       if (rollout.promptTokens !== undefined) {
         totalPromptTokens += rollout.promptTokens;
@@ -188,6 +503,10 @@ export function calculateAggregateMetrics(
     meanError: Math.round(meanError * 1000) / 1000,
     rmse: Math.round(rmse * 1000) / 1000,
     avgLatencyMs: Math.round(avgLatencyMs),
+    intervals,
+    ...failureMetrics,
+    ...uncertaintyMetrics,
+    ...judgeMetrics,
     ...(directionalAccuracy !== undefined && { directionalAccuracy }),
     ...(avgStdDeviation !== undefined && {
       avgStdDeviation: Math.round(avgStdDeviation * 1000) / 1000,
@@ -205,26 +524,65 @@ export function calculateAggregateMetrics(
   };
 }
 
+export type MetricIntervals = NonNullable<NonNullable<BenchmarkRun["aggregateMetrics"]>["intervals"]>;
+
 /**
- * Calculate directional accuracy for twin pairs
- * 
- * For each twin pair, check if the model correctly identified which
- * scenario should have a higher/lower yield based on the delta change.
+ * 95% confidence intervals for the accuracy metrics of scored results:
+ * Wilson intervals for hit rate and directional accuracy, bootstrap
+ * intervals for mean error and RMSE
  */
-function calculateDirectionalAccuracy(
+export function calculateMetricIntervals(
   scenarios: Scenario[],
   results: ScenarioResult[]
-): number | undefined {
-  const twinPairs = getTwinPairs(scenarios);
+): MetricIntervals {
+  const round = (interval: { lower: number; upper: number } | undefined, scale: number, digits: number) => {
+    if (!interval) return undefined;
+    const factor = Math.pow(10, digits);
+    return {
+      lower: Math.round(interval.lower * scale * factor) / factor,
+      upper: Math.round(interval.upper * scale * factor) / factor,
+    } satisfies MetricInterval;
+  };
 
-  if (twinPairs.length === 0) {
-    return undefined;
-  }
+  const errors = results.map((r) => r.error);
+  const hits = results.filter((r) => r.withinTolerance).length;
+  const directionalOutcomes = getDirectionalOutcomes(scenarios, results);
+
+  return {
+    hitRate: round(wilsonInterval(hits, results.length), 100, 2),
+    meanError: round(bootstrapCI(errors, mean), 1, 3),
+    rmse: round(bootstrapCI(errors, (sample) => Math.sqrt(mean(sample.map((e) => e * e)))), 1, 3),
+    directionalAccuracy: round(
+      wilsonInterval(directionalOutcomes.filter((o) => o.correct).length, directionalOutcomes.length),
+      100,
+      2
+    ),
+  };
+}
 
-  let correct = 0;
-  let total = 0;
+/**
+ * Confidence intervals of a run's aggregate metrics. Runs saved before
+ * intervals were stored get them computed from their results.
+ */
+export function getMetricIntervals(run: BenchmarkRun): MetricIntervals {
+  return run.aggregateMetrics?.intervals
+    ?? calculateMetricIntervals(run.scenarios, run.results.filter((r) => r.status === "completed"));
+}
+
+/**
+ * Whether the model got the direction right for each twin pair
+ *
+ * For each twin pair, check if the model correctly identified which
+ * scenario should have a higher/lower yield based on the delta change.
+ * Pairs without a result for both scenarios are skipped.
+ */
+export function getDirectionalOutcomes(
+  scenarios: Scenario[],
+  results: ScenarioResult[]
+): Array<{ originalId: string; twinId: string; correct: boolean }> {
+  const outcomes: Array<{ originalId: string; twinId: string; correct: boolean }> = [];
 
-  for (const { original, twin } of twinPairs) {
+  for (const { original, twin } of getTwinPairs(scenarios)) {
     const originalResult = results.find((r) => r.scenarioId === original.id);
     const twinResult = results.find((r) => r.scenarioId === twin.id);
 
@@ -232,35 +590,47 @@ function calculateDirectionalAccuracy(
       continue;
     }
 
-    total++;
-
     // Determine expected direction based on ground truth
     const expectedDiff =
       original.groundTruth.value - twin.groundTruth.value;
     const actualDiff = originalResult.meanPrediction - twinResult.meanPrediction;
 
     // Check if the direction matches (both positive, both negative, or both zero)
-    if (
+    const correct =
       (expectedDiff > 0 && actualDiff > 0) ||
       (expectedDiff < 0 && actualDiff < 0) ||
-      (Math.abs(expectedDiff) < 0.01 && Math.abs(actualDiff) < 0.1)
-    ) {
-      correct++;
-    }
+      (Math.abs(expectedDiff) < 0.01 && Math.abs(actualDiff) < 0.1);
+
+    outcomes.push({ originalId: original.id, twinId: twin.id, correct });
   }
 
-  if (total === 0) {
+  return outcomes;
+}
+
+/**
+ * Calculate directional accuracy for twin pairs
+ */
+function calculateDirectionalAccuracy(
+  scenarios: Scenario[],
+  results: ScenarioResult[]
+): number | undefined {
+  const outcomes = getDirectionalOutcomes(scenarios, results);
+
+  if (outcomes.length === 0) {
     return undefined;
   }
 
-  return Math.round((correct / total) * 100 * 100) / 100;
+  const correct = outcomes.filter((o) => o.correct).length;
+  return Math.round((correct / outcomes.length) * 100 * 100) / 100;
 }
 
 /**
  * Analyze distractor immunity
  * 
  * Compare scenarios with and without distractors to see if
- * distractors inappropriately influence predictions.
+ * distractors inappropriately influence predictions. The two groups are
+ * unrelated scenarios, so differences in difficulty leak in; runs with
+ * clean/distracted pairs should use analyzeDistractorPairs instead.
  */
 export function analyzeDistractorImmunity(
   scenarios: Scenario[],
@@ -304,6 +674,72 @@ export function analyzeDistractorImmunity(
   };
 }
 
+export interface DistractorShift {
+  distractor: string;
+  pairs: number;
+  /** Mean absolute error of the distracted variant minus the clean one */
+  meanAbsErrorShift: number;
+  /** Mean prediction of the distracted variant minus the clean one */
+  meanPredictionShift: number;
+  /** Hit rate of distracted minus clean variants (percentage points) */
+  hitRateChange: number;
+}
+
+/**
+ * Paired distractor analysis for runs generated with clean/distracted
+ * variants: each pair shares anchor and deltas, so the error shift is the
+ * distractor's effect alone. Distractors are ranked most misleading first;
+ * those from the domain config without any completed pair are omitted.
+ */
+export function analyzeDistractorPairs(
+  domain: DomainConfig | undefined,
+  scenarios: Scenario[],
+  results: ScenarioResult[]
+): { pairs: number; meanAbsErrorShift: number; byDistractor: DistractorShift[] } {
+  const completed = new Map(
+    results.filter((r) => r.status === "completed").map((r) => [r.scenarioId, r])
+  );
+  const shifts: { distractors: string[]; absErrorShift: number; predictionShift: number; hitChange: number }[] = [];
+
+  for (const scenario of scenarios) {
+    if (!scenario.cleanVariantId) continue;
+    const distracted = completed.get(scenario.id);
+    const clean = completed.get(scenario.cleanVariantId);
+    if (!distracted || !clean) continue;
+
+    shifts.push({
+      distractors: scenario.distractors,
+      absErrorShift: distracted.absoluteError - clean.absoluteError,
+      predictionShift: distracted.meanPrediction - clean.meanPrediction,
+      hitChange: (distracted.withinTolerance ? 100 : 0) - (clean.withinTolerance ? 100 : 0),
+    });
+  }
+
+  const distractors = [
+    ...(domain?.distractors ?? []),
+    ...shifts.flatMap((s) => s.distractors).filter((d) => !domain?.distractors.includes(d)),
+  ];
+  const byDistractor = Array.from(new Set(distractors))
+    .map((distractor) => {
+      const matching = shifts.filter((s) => s.distractors.includes(distractor));
+      return {
+        distractor,
+        pairs: matching.length,
+        meanAbsErrorShift: matching.length > 0 ? mean(matching.map((s) => s.absErrorShift)) : 0,
+        meanPredictionShift: matching.length > 0 ? mean(matching.map((s) => s.predictionShift)) : 0,
+        hitRateChange: matching.length > 0 ? mean(matching.map((s) => s.hitChange)) : 0,
+      };
+    })
+    .filter((d) => d.pairs > 0)
+    .sort((a, b) => b.meanAbsErrorShift - a.meanAbsErrorShift);
+
+  return {
+    pairs: shifts.length,
+    meanAbsErrorShift: shifts.length > 0 ? mean(shifts.map((s) => s.absErrorShift)) : 0,
+    byDistractor,
+  };
+}
+
 /**
  * Get detailed breakdown of results
  */
@@ -392,9 +828,12 @@ export function calculateScenarioDifficulty(
   // Base: 12 points per delta, max 50
   const deltaBaseScore = Math.min(50, deltaCount * 12);
 
-  // Check for multiplicative deltas if domain config is available
+  // Check for multiplicative deltas: from the calculation steps, or the
+  // domain config for scenarios generated before steps were recorded
   let multiplicativeCount = 0;
-  if (domainConfig) {
+  if (scenario.groundTruth.steps) {
+    multiplicativeCount = scenario.groundTruth.steps.filter((step) => step.operation === "multiply").length;
+  } else if (domainConfig) {
     multiplicativeCount = scenario.appliedDeltas.filter(
       (deltaId) => domainConfig.deltas[deltaId]?.type === "multiplicative"
     ).length;
@@ -447,15 +886,195 @@ export function calculateScenarioDifficulty(
   };
 }
 
+/**
+ * Recompute the calculations shown in a result's successful rollouts.
+ * `checked` counts rollouts with a calculation to verify; `inconsistent`
+ * those whose stated final value does not follow from their own steps.
+ */
+export function checkRolloutArithmetic(result: ScenarioResult): { checked: number; inconsistent: number } {
+  let checked = 0;
+  let inconsistent = 0;
+
+  for (const rollout of result.rollouts) {
+    if (getRolloutStatus(rollout) !== "ok") continue;
+    const check = verifyArithmetic(rollout.reasoning, rollout.prediction);
+    if (!check) continue;
+    checked++;
+    if (!check.consistent) inconsistent++;
+  }
+
+  return { checked, inconsistent };
+}
+
+/**
+ * Factor identification for one scenario, aggregated over its successful rollouts
+ */
+export interface ScenarioReasoning {
+  scenarioId: string;
+  rollouts: number;
+  /** Mean share of relevant factors (anchor + applied deltas) mentioned, 0-1 */
+  recall: number;
+  /** Mean share of mentioned factors that are relevant, 0-1 */
+  precision: number;
+  /** Share of rollouts that mention the anchor, 0-1 */
+  anchorRate: number;
+  /** Applied deltas missing from most rollouts */
+  missedDeltas: string[];
+  /** Inapplicable deltas cited by most rollouts */
+  spuriousDeltas: string[];
+  /** Distractors cited by most rollouts */
+  mentionedDistractors: string[];
+  withinTolerance: boolean;
+  cause?: ErrorPattern["cause"];
+}
+
+/**
+ * Check the reasoning traces of a scenario result for the scenario's
+ * anchor, deltas and distractors. Returns undefined when no successful
+ * rollout has any reasoning.
+ */
+export function analyzeScenarioReasoning(
+  scenario: Scenario,
+  result: ScenarioResult,
+  domainConfig: DomainConfig
+): ScenarioReasoning | undefined {
+  const traces = result.rollouts
+    .filter((r) => getRolloutStatus(r) === "ok" && r.reasoning.trim().length > 0)
+    .map((r) => identifyFactors(r.reasoning, scenario, domainConfig));
+  if (traces.length === 0) return undefined;
+
+  const inMost = (keys: string[][]) => {
+    const counts = new Map<string, number>();
+    keys.flat().forEach((key) => counts.set(key, (counts.get(key) ?? 0) + 1));
+    return Array.from(counts.entries())
+      .filter(([, count]) => count > traces.length / 2)
+      .map(([key]) => key);
+  };
+
+  const reasoning: ScenarioReasoning = {
+    scenarioId: scenario.id,
+    rollouts: traces.length,
+    recall: mean(traces.map((t) => t.recall)),
+    precision: mean(traces.map((t) => t.precision)),
+    anchorRate: traces.filter((t) => t.anchorIdentified).length / traces.length,
+    missedDeltas: inMost(traces.map((t) => t.missedDeltas)),
+    spuriousDeltas: inMost(traces.map((t) => t.spuriousDeltas)),
+    mentionedDistractors: inMost(traces.map((t) => t.mentionedDistractors)),
+    withinTolerance: result.withinTolerance,
+  };
+
+  if (!result.withinTolerance) {
+    if (reasoning.anchorRate >= 0.5 && reasoning.recall >= 0.75) {
+      reasoning.cause = "wrong_arithmetic";
+    } else if (reasoning.anchorRate < 0.5 || reasoning.recall < 0.5) {
+      reasoning.cause = "misread_scenario";
+    }
+  }
+
+  return reasoning;
+}
+
+export interface RunReasoning {
+  scenarios: ScenarioReasoning[];
+  recall?: number;
+  precision?: number;
+  /** Share of analysed scenarios whose anchor most rollouts mention, 0-1 */
+  anchorRate?: number;
+  /** How often each applied delta is picked up, most-missed first */
+  deltas: { deltaKey: string; identified: number; total: number }[];
+  /** % of attributed errors whose reasoning misread the scenario */
+  misreadRate?: number;
+  /** % of attributed errors with the right factors but a wrong answer */
+  wrongArithmeticRate?: number;
+}
+
+/**
+ * Factor identification across the completed results of a run
+ */
+export function analyzeRunReasoning(
+  scenarios: Scenario[],
+  results: ScenarioResult[],
+  domainConfig: DomainConfig
+): RunReasoning {
+  const scenariosById = new Map(scenarios.map((s) => [s.id, s]));
+  const analysed: ScenarioReasoning[] = [];
+  const deltaCounts = new Map<string, { identified: number; total: number }>();
+
+  for (const result of results) {
+    const scenario = scenariosById.get(result.scenarioId);
+    if (!scenario || result.status !== "completed") continue;
+
+    const reasoning = analyzeScenarioReasoning(scenario, result, domainConfig);
+    if (!reasoning) continue;
+    analysed.push(reasoning);
+
+    for (const deltaKey of scenario.appliedDeltas) {
+      const counts = deltaCounts.get(deltaKey) ?? { identified: 0, total: 0 };
+      counts.total++;
+      if (!reasoning.missedDeltas.includes(deltaKey)) counts.identified++;
+      deltaCounts.set(deltaKey, counts);
+    }
+  }
+
+  if (analysed.length === 0) {
+    return { scenarios: [], deltas: [] };
+  }
+
+  const attributed = analysed.filter((r) => r.cause);
+
+  return {
+    scenarios: analysed,
+    recall: mean(analysed.map((r) => r.recall)),
+    precision: mean(analysed.map((r) => r.precision)),
+    anchorRate: analysed.filter((r) => r.anchorRate >= 0.5).length / analysed.length,
+    deltas: Array.from(deltaCounts.entries())
+      .map(([deltaKey, counts]) => ({ deltaKey, ...counts }))
+      .sort((a, b) => a.identified / a.total - b.identified / b.total),
+    ...(attributed.length > 0 && {
+      misreadRate: Math.round(
+        (attributed.filter((r) => r.cause === "misread_scenario").length / attributed.length) * 100
+      ),
+      wrongArithmeticRate: Math.round(
+        (attributed.filter((r) => r.cause === "wrong_arithmetic").length / attributed.length) * 100
+      ),
+    }),
+  };
+}
+
 /**
  * Detect error pattern for a scenario result
  *
- * Analyzes the prediction error to categorize the type of mistake
+ * Analyzes the prediction error to categorize the type of mistake. With a
+ * domain config, inaccurate results whose rollouts have reasoning also get
+ * a cause: whether the model misread the scenario or found the right
+ * factors and got the arithmetic wrong.
  */
 export function detectErrorPattern(
   scenario: Scenario,
   result: ScenarioResult,
   domainConfig?: DomainConfig
+): ErrorPattern {
+  const pattern = classifyError(scenario, result, domainConfig);
+  if (pattern.pattern === "accurate" || !domainConfig) return pattern;
+
+  const cause = analyzeScenarioReasoning(scenario, result, domainConfig)?.cause;
+  if (!cause) return pattern;
+
+  return {
+    ...pattern,
+    cause,
+    details: `${pattern.details}. ${
+      cause === "misread_scenario"
+        ? "Reasoning missed key factors of the scenario"
+        : "Reasoning identified the right factors but combined them incorrectly"
+    }`,
+  };
+}
+
+function classifyError(
+  scenario: Scenario,
+  result: ScenarioResult,
+  domainConfig?: DomainConfig
 ): ErrorPattern {
   const { error, absoluteError, withinTolerance } = result;
   const groundTruth = scenario.groundTruth.value;
@@ -480,6 +1099,17 @@ export function detectErrorPattern(
     severity = "severe";
   }
 
+  // Check for arithmetic errors
+  // If most rollouts state a result that does not follow from their own calculation
+  const arithmetic = checkRolloutArithmetic(result);
+  if (arithmetic.checked > 0 && arithmetic.inconsistent > arithmetic.checked / 2) {
+    return {
+      pattern: "arithmetic_error",
+      severity,
+      details: `${arithmetic.inconsistent} of ${arithmetic.checked} rollout(s) state a final value that does not follow from their own calculation`,
+    };
+  }
+
   // Check for anchor bias
   // If prediction is very close to a common anchor value
   if (domainConfig) {
@@ -567,6 +1197,9 @@ export interface ErrorPatternSummary {
   anchorBiasRate?: number;
   deltaBlindnessRate?: number;
   distractorInfluenceRate?: number;
+  arithmeticErrorRate?: number;
+  misreadRate?: number;
+  wrongArithmeticRate?: number;
   errorByDifficulty?: {
     trivial?: number;
     easy?: number;
@@ -617,6 +1250,10 @@ export function analyzeErrorPatterns(
   let anchorBiasCount = 0;
   let deltaBlindnessCount = 0;
   let distractorInfluenceCount = 0;
+  let arithmeticErrorCount = 0;
+  let misreadCount = 0;
+  let wrongArithmeticCount = 0;
+  let attributedCount = 0;
 
   for (const result of completedResults) {
     const scenario = scenarios.find((s) => s.id === result.scenarioId);
@@ -626,6 +1263,10 @@ export function analyzeErrorPatterns(
     if (pattern.pattern === "anchor_bias") anchorBiasCount++;
     if (pattern.pattern === "delta_blindness") deltaBlindnessCount++;
     if (pattern.pattern === "distractor_influence") distractorInfluenceCount++;
+    if (pattern.pattern === "arithmetic_error") arithmeticErrorCount++;
+    if (pattern.cause) attributedCount++;
+    if (pattern.cause === "misread_scenario") misreadCount++;
+    if (pattern.cause === "wrong_arithmetic") wrongArithmeticCount++;
   }
 
   const total = completedResults.length;
@@ -662,6 +1303,12 @@ export function analyzeErrorPatterns(
     anchorBiasRate: Math.round((anchorBiasCount / total) * 100),
     deltaBlindnessRate: Math.round((deltaBlindnessCount / total) * 100),
     distractorInfluenceRate: Math.round((distractorInfluenceCount / total) * 100),
+    arithmeticErrorRate: Math.round((arithmeticErrorCount / total) * 100),
+    // Shares of the inaccurate results whose reasoning could be attributed
+    ...(attributedCount > 0 && {
+      misreadRate: Math.round((misreadCount / attributedCount) * 100),
+      wrongArithmeticRate: Math.round((wrongArithmeticCount / attributedCount) * 100),
+    }),
     errorByDifficulty: avgErrorByDifficulty as {
       trivial?: number;
       easy?: number;
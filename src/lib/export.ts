@@ -1,4 +1,5 @@
 import type { BenchmarkRun } from "@/domains/schema";
+import { countRolloutStatuses, getRolloutStatus } from "@/lib/evaluator";
 
 /**
  * Escape a value for CSV
@@ -48,10 +49,16 @@ export function generateSummaryCSV(run: BenchmarkRun): string {
     "Within Tolerance",
     "Rollout Consistency",
     "Status",
+    "Rollouts",
+    "Failed Rollouts",
+    "Parse Errors",
+    "Parse Failure Rate",
   ];
 
   const rows = run.scenarios.map((scenario) => {
     const result = run.results.find((r) => r.scenarioId === scenario.id);
+    const rolloutCount = result?.rollouts.length ?? 0;
+    const statusCounts = countRolloutStatuses(result?.rollouts ?? []);
 
     return [
       scenario.id,
@@ -67,6 +74,10 @@ export function generateSummaryCSV(run: BenchmarkRun): string {
       result?.withinTolerance ?? "",
       result?.rolloutConsistency ?? "",
       result?.status ?? "pending",
+      rolloutCount,
+      rolloutCount - statusCounts.ok,
+      statusCounts.parse_error,
+      rolloutCount > 0 ? Math.round((statusCounts.parse_error / rolloutCount) * 100 * 100) / 100 : "",
     ];
   });
 
@@ -91,6 +102,10 @@ export function generateDetailedCSV(run: BenchmarkRun): string {
     "Within Tolerance",
     "Latency (ms)",
     "Reasoning Preview",
+    "Rollout Status",
+    "Error Message",
+    "Interval Low",
+    "Interval High",
   ];
 
   const rows: (string | number | boolean | undefined | null)[][] = [];
@@ -114,11 +129,16 @@ export function generateDetailedCSV(run: BenchmarkRun): string {
         "",
         "",
         "",
+        "",
+        "",
+        "",
+        "",
       ]);
       continue;
     }
 
     result.rollouts.forEach((rollout, index) => {
+      const status = getRolloutStatus(rollout);
       const error = rollout.prediction - scenario.groundTruth.value;
       const absoluteError = Math.abs(error);
       const withinTolerance = absoluteError <= scenario.groundTruth.tolerance;
@@ -136,12 +156,17 @@ export function generateDetailedCSV(run: BenchmarkRun): string {
         scenario.groundTruth.value,
         scenario.groundTruth.tolerance,
         index + 1,
-        rollout.prediction,
-        Math.round(error * 1000) / 1000,
-        Math.round(absoluteError * 1000) / 1000,
-        withinTolerance,
+        // Failed rollouts have no prediction to score
+        status === "ok" ? rollout.prediction : "",
+        status === "ok" ? Math.round(error * 1000) / 1000 : "",
+        status === "ok" ? Math.round(absoluteError * 1000) / 1000 : "",
+        status === "ok" ? withinTolerance : "",
         rollout.latencyMs,
         reasoningPreview,
+        status,
+        rollout.error ?? "",
+        rollout.low ?? "",
+        rollout.high ?? "",
       ]);
     });
   }
@@ -0,0 +1,73 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { ensureDomainsInitialized, getDomainConfig } from "@/domains";
+import type { DomainConfig, Scenario, Weakness } from "@/domains/schema";
+import { generateAblationScenarios, generateScenarios } from "./generator";
+
+let domain: DomainConfig;
+
+beforeAll(async () => {
+  await ensureDomainsInitialized();
+  domain = getDomainConfig("financial-forecasting")!;
+});
+
+function checkAblation(bases: Scenario[]) {
+  const variants = generateAblationScenarios(domain, bases);
+
+  for (const base of bases) {
+    const own = variants.filter((v) => v.ablation?.baseId === base.id);
+    const ablationBase = own.find((v) => v.id === base.id)!;
+    expect(ablationBase.groundTruth.value).toBe(base.groundTruth.value);
+    expect(ablationBase.metrics).toEqual(base.metrics);
+    expect(ablationBase.contextDescription).toContain("Key Metrics");
+
+    for (const variant of own.filter((v) => v.ablation?.removedDelta)) {
+      const removed = domain.deltas[variant.ablation!.removedDelta!];
+      expect(variant.metrics).toBeDefined();
+      expect(variant.contextDescription).toContain("Key Metrics");
+      expect(variant.groundTruth.value).toBe(base.groundTruth.value - removed.value);
+    }
+  }
+}
+
+describe("generateAblationScenarios", () => {
+  it("keeps each base's truth and removes one delta's value per counterfactual", () => {
+    checkAblation(generateScenarios(domain, { count: 20, generateTwins: false, seed: 11 }));
+  });
+
+  it("handles scenarios stored without a metrics seed", () => {
+    const bases = generateScenarios(domain, { count: 20, generateTwins: false, seed: 12 }).map(
+      (scenario) => ({ ...scenario, metricsSeed: undefined })
+    );
+    checkAblation(bases);
+  });
+});
+
+describe("adversarial generation", () => {
+  it("keeps the weak deltas when the failed example breaks the delta rules", () => {
+    const weakness: Weakness = {
+      kind: "delta",
+      keys: ["weak_nrr"],
+      observations: 4,
+      failures: 3,
+      failureRate: 75,
+      lift: 40,
+      meanRelativeError: 2,
+      examples: [
+        {
+          runId: "run",
+          scenarioId: "scenario",
+          anchor: "saas_startup_growth",
+          appliedDeltas: ["strong_nrr", "weak_nrr", "price_increase"],
+          distractors: [],
+          absoluteError: 10,
+        },
+      ],
+    };
+
+    const scenarios = generateScenarios(domain, { count: 20, generateTwins: false, seed: 5, weaknesses: [weakness] });
+    for (const scenario of scenarios) {
+      expect(scenario.appliedDeltas).toContain("weak_nrr");
+      expect(scenario.appliedDeltas).not.toContain("strong_nrr");
+    }
+  });
+});
@@ -1,6 +1,25 @@
 import { v4 as uuidv4 } from "uuid";
-import type { DomainConfig, Scenario } from "@/domains/schema";
-import { calculateTolerance } from "@/domains/types";
+import type {
+  CalculationStep,
+  CoverageDesign,
+  DomainConfig,
+  GroundTruth,
+  Scenario,
+  ScenarioMetrics,
+  TwinChange,
+  Weakness,
+} from "@/domains/schema";
+import { calculateTolerance, type GroundTruthComputation } from "@/domains/types";
+import { getDomain } from "@/domains";
+import {
+  assertValidDeltaRules,
+  getAddableDeltas,
+  getCompatiblePairs,
+  getRemovableDeltas,
+  keepCompatibleDeltas,
+  pickCompatibleDeltas,
+} from "@/lib/delta-rules";
+import { calculateScenarioDifficulty } from "@/lib/evaluator";
 import {
   generateNarrativeDescription,
   generateFallbackDescriptionSync,
@@ -20,8 +39,25 @@ export interface GeneratorOptions {
   maxDistractors?: number;
   /** Whether to generate twin pairs for sensitivity testing */
   generateTwins?: boolean;
+  /**
+   * Generate clean/distracted pairs: every base scenario is clean and gets
+   * a copy with the same anchor and deltas plus one distractor
+   */
+  generateDistractorPairs?: boolean;
   /** Random seed for reproducibility */
   seed?: number;
+  /**
+   * Plan base scenarios to meet a coverage design (balanced anchors, delta
+   * and pair coverage, difficulty mix, distractor share) instead of
+   * sampling each one independently
+   */
+  design?: CoverageDesign;
+  /**
+   * Stress weaknesses mined from past runs (see mineWeaknesses): base
+   * scenarios are spread round robin over them, each a small variation of
+   * one of the weakness's failed examples
+   */
+  weaknesses?: Weakness[];
   /** Use LLM-based narrative generation (requires narrativeConfig) */
   useLlmNarrative?: boolean;
   /** Configuration for LLM narrative generation */
@@ -43,20 +79,23 @@ function createRng(seed: number) {
 }
 
 /**
- * Calculate ground truth value based on anchor and deltas
+ * Steps of the default calculation: the anchor value, then each delta's
+ * configured value added or multiplied in order
  */
-export function calculateGroundTruth(
+function applyConfigDeltas(
   domain: DomainConfig,
   anchorKey: string,
   appliedDeltaKeys: string[]
-): { value: number; calculation: string } {
+): GroundTruthComputation {
   const anchor = domain.anchors[anchorKey];
   if (!anchor) {
     throw new Error(`Unknown anchor: ${anchorKey}`);
   }
 
   let value = anchor.value;
-  const steps: string[] = [`Base (${anchor.description}): ${anchor.value}%`];
+  const steps: CalculationStep[] = [
+    { label: `Base (${anchor.description})`, operation: "base", value: anchor.value },
+  ];
 
   for (const deltaKey of appliedDeltaKeys) {
     const delta = domain.deltas[deltaKey];
@@ -65,20 +104,78 @@ export function calculateGroundTruth(
     }
 
     if (delta.type === "additive") {
-      const sign = delta.value >= 0 ? "+" : "";
-      steps.push(`${delta.description}: ${sign}${delta.value}%`);
+      steps.push({ label: delta.description, operation: "add", value: delta.value, deltaKey });
       value += delta.value;
     } else if (delta.type === "multiplicative") {
-      steps.push(`${delta.description}: x${delta.value}`);
+      steps.push({ label: delta.description, operation: "multiply", value: delta.value, deltaKey });
       value *= delta.value;
     }
   }
 
-  steps.push(`Final: ${value.toFixed(2)}%`);
+  return { value, steps };
+}
+
+/**
+ * Format calculation steps as "Label: value" lines ending in "Final: X",
+ * in the domain's output unit
+ */
+export function formatCalculation(steps: CalculationStep[], value: number, unit: string): string {
+  const withUnit = (amount: string | number) =>
+    unit === "%" ? `${amount}%` : unit ? `${amount} ${unit}` : `${amount}`;
+
+  const lines = steps.map((step) => {
+    if (step.operation === "multiply") return `${step.label}: x${step.value}`;
+    if (step.operation === "add") return `${step.label}: ${step.value >= 0 ? "+" : ""}${withUnit(step.value)}`;
+    return `${step.label}: ${withUnit(step.value)}`;
+  });
+  lines.push(`Final: ${withUnit(value.toFixed(2))}`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Calculate ground truth value based on anchor and deltas. Uses the domain
+ * plugin's calculator when it has one, the config's delta values otherwise.
+ */
+export function calculateGroundTruth(
+  domain: DomainConfig,
+  anchorKey: string,
+  appliedDeltaKeys: string[],
+  metrics?: ScenarioMetrics
+): { value: number; calculation: string; steps: CalculationStep[] } {
+  const plugin = getDomain(domain.id);
+  const { value, steps } = plugin?.computeGroundTruth
+    ? plugin.computeGroundTruth(anchorKey, appliedDeltaKeys, metrics)
+    : applyConfigDeltas(domain, anchorKey, appliedDeltaKeys);
 
   return {
     value: Math.round(value * 100) / 100, // Round to 2 decimal places
-    calculation: steps.join("\n"),
+    calculation: formatCalculation(steps, value, domain.outputUnit),
+    steps,
+  };
+}
+
+/**
+ * Ground truth for a scenario, with concrete metrics when the domain
+ * plugin generates them. Scenarios sharing a `metricsSeed` (twins) only
+ * differ in the metrics of the deltas that differ.
+ */
+export function calculateScenarioTruth(
+  domain: DomainConfig,
+  anchorKey: string,
+  appliedDeltaKeys: string[],
+  metricsSeed: number
+): {
+  value: number;
+  calculation: string;
+  steps: CalculationStep[];
+  metrics?: ScenarioMetrics;
+  metricsSeed?: number;
+} {
+  const metrics = getDomain(domain.id)?.generateMetrics?.(anchorKey, appliedDeltaKeys, metricsSeed);
+  return {
+    ...calculateGroundTruth(domain, anchorKey, appliedDeltaKeys, metrics),
+    ...(metrics && { metrics, metricsSeed }),
   };
 }
 
@@ -97,7 +194,8 @@ function generateSimpleDescription(
   domain: DomainConfig,
   anchorKey: string,
   appliedDeltaKeys: string[],
-  distractors: string[]
+  distractors: string[],
+  metrics?: ScenarioMetrics
 ): string {
   const anchor = domain.anchors[anchorKey];
   const parts: string[] = [];
@@ -109,6 +207,11 @@ function generateSimpleDescription(
   // Start with the entity type
   parts.push(`${entityLabel} Type: ${anchor.description}`);
 
+  const formatMetrics = getDomain(domain.id)?.formatMetrics;
+  if (metrics && formatMetrics && Object.keys(metrics).length > 0) {
+    parts.push(`\nKey Metrics:\n${formatMetrics(metrics)}`);
+  }
+
   // Add each applied delta as a property characteristic
   const characteristics: string[] = [];
   for (const deltaKey of appliedDeltaKeys) {
@@ -130,56 +233,278 @@ function generateSimpleDescription(
   return parts.join("\n");
 }
 
+/** Anchor, deltas and distractors of a base scenario, before ground truth */
+interface ScenarioBlueprint {
+  anchorKey: string;
+  appliedDeltaKeys: string[];
+  distractors: string[];
+}
+
+function pickRandom<T>(arr: T[], count: number, random: () => number): T[] {
+  const shuffled = [...arr].sort(() => random() - 0.5);
+  return shuffled.slice(0, count);
+}
+
 /**
- * Generate scenarios for a domain (synchronous - uses simple descriptions)
+ * Sample a base scenario: a random anchor, a random number of compatible
+ * deltas and, with `distractorProbability`, some distractors (paired runs
+ * add them to a separate variant instead)
  */
-export function generateScenarios(
+function sampleBlueprint(
   domain: DomainConfig,
-  options: GeneratorOptions
-): Scenario[] {
+  options: GeneratorOptions,
+  random: () => number
+): ScenarioBlueprint {
+  const {
+    minDeltas = 0,
+    maxDeltas = 4,
+    distractorProbability = 0.3,
+    maxDistractors = 2,
+    generateDistractorPairs = false,
+  } = options;
+  const anchorKeys = Object.keys(domain.anchors);
+
+  const anchorKey = anchorKeys[Math.floor(random() * anchorKeys.length)];
+  const numDeltas = minDeltas + Math.floor(random() * (maxDeltas - minDeltas + 1));
+  const appliedDeltaKeys = pickCompatibleDeltas(domain, anchorKey, numDeltas, random);
+
+  const distractors: string[] = [];
+  if (!generateDistractorPairs && random() < distractorProbability && domain.distractors.length > 0) {
+    const numDistractors = 1 + Math.floor(random() * maxDistractors);
+    distractors.push(...pickRandom(domain.distractors, numDistractors, random));
+  }
+
+  return { anchorKey, appliedDeltaKeys, distractors };
+}
+
+/**
+ * Split `total` over weighted keys, rounding by largest remainder
+ */
+function allocateCounts(weights: Partial<Record<string, number>>, total: number): Record<string, number> {
+  const sum = Object.values(weights).reduce((acc: number, weight) => acc + (weight ?? 0), 0);
+  if (sum <= 0) return {};
+
+  const exact = Object.entries(weights).map(([key, weight = 0]) => ({ key, value: (weight / sum) * total }));
+  const counts = Object.fromEntries(exact.map(({ key, value }) => [key, Math.floor(value)]));
+  let remaining = total - Object.values(counts).reduce((a, b) => a + b, 0);
+  for (const { key } of [...exact].sort((a, b) => (b.value % 1) - (a.value % 1))) {
+    if (remaining-- <= 0) break;
+    counts[key]++;
+  }
+  return counts;
+}
+
+const CANDIDATES_PER_SCENARIO = 24;
+
+/**
+ * Plan base scenarios for a coverage design. Anchors are assigned round
+ * robin and distractors to a fixed share of scenarios; for each scenario
+ * the best of several candidate delta sets is kept, scored by the deltas
+ * and pairs it adds toward their targets and whether its difficulty level
+ * is still short of its quota. Targets the scenario count cannot reach are
+ * left unmet (see analyzeCoverage).
+ */
+function planCoverageBlueprints(
+  domain: DomainConfig,
+  options: GeneratorOptions,
+  random: () => number
+): ScenarioBlueprint[] {
   const {
     count,
     minDeltas = 0,
     maxDeltas = 4,
     distractorProbability = 0.3,
     maxDistractors = 2,
+    generateDistractorPairs = false,
+    design = {},
+  } = options;
+
+  const anchorKeys = pickRandom(Object.keys(domain.anchors), Infinity, random);
+  const distractorShare = generateDistractorPairs ? 0 : (design.distractorShare ?? distractorProbability);
+  const distractorSlots = new Set(
+    pickRandom(
+      Array.from({ length: count }, (_, i) => i),
+      domain.distractors.length > 0 ? Math.round(distractorShare * count) : 0,
+      random
+    )
+  );
+  const levelTargets = design.difficultyMix ? allocateCounts(design.difficultyMix, count) : undefined;
+  const occurrenceTarget = design.deltaOccurrences ?? 0;
+
+  const deltaCounts = new Map<string, number>();
+  const levelCounts = new Map<string, number>();
+  const uncoveredPairs = new Set(
+    design.pairwiseDeltas ? getCompatiblePairs(domain).map((pair) => pair.join("|")) : []
+  );
+  const pairsOf = (deltaKeys: string[]) =>
+    deltaKeys.flatMap((a, i) => deltaKeys.slice(i + 1).map((b) => [a, b].sort().join("|")));
+
+  const blueprints: ScenarioBlueprint[] = [];
+  for (let i = 0; i < count; i++) {
+    const anchorKey = anchorKeys[i % anchorKeys.length];
+    let best: { blueprint: ScenarioBlueprint; level: string; score: number } | undefined;
+
+    for (let c = 0; c < CANDIDATES_PER_SCENARIO; c++) {
+      // Seed the candidate with a delta or a pair that is still short of its target
+      const shortDeltas = Object.keys(domain.deltas).filter(
+        (key) => (deltaCounts.get(key) ?? 0) < occurrenceTarget
+      );
+      const openPairs = Array.from(uncoveredPairs);
+      const focus =
+        c % 2 === 1 && openPairs.length > 0
+          ? openPairs[Math.floor(random() * openPairs.length)].split("|")
+          : shortDeltas.length > 0
+            ? [shortDeltas[Math.floor(random() * shortDeltas.length)]]
+            : [];
+
+      const numDeltas = minDeltas + Math.floor(random() * (maxDeltas - minDeltas + 1));
+      const appliedDeltaKeys = pickCompatibleDeltas(domain, anchorKey, numDeltas, random, focus);
+      const distractors = distractorSlots.has(i)
+        ? pickRandom(domain.distractors, 1 + Math.floor(random() * maxDistractors), random)
+        : [];
+
+      const { level } = calculateScenarioDifficulty(
+        {
+          id: "",
+          anchor: anchorKey,
+          appliedDeltas: appliedDeltaKeys,
+          distractors,
+          contextDescription: "",
+          groundTruth: { value: 0, tolerance: 0, calculation: "" },
+        },
+        domain
+      );
+
+      let score =
+        appliedDeltaKeys.filter((key) => (deltaCounts.get(key) ?? 0) < occurrenceTarget).length * 2 +
+        pairsOf(appliedDeltaKeys).filter((pair) => uncoveredPairs.has(pair)).length;
+      if (levelTargets) {
+        score += (levelCounts.get(level) ?? 0) < (levelTargets[level] ?? 0) ? 10 : -10;
+      }
+
+      if (!best || score > best.score) {
+        best = { blueprint: { anchorKey, appliedDeltaKeys, distractors }, level, score };
+      }
+    }
+
+    const { blueprint, level } = best!;
+    for (const key of blueprint.appliedDeltaKeys) {
+      deltaCounts.set(key, (deltaCounts.get(key) ?? 0) + 1);
+    }
+    for (const pair of pairsOf(blueprint.appliedDeltaKeys)) {
+      uncoveredPairs.delete(pair);
+    }
+    levelCounts.set(level, (levelCounts.get(level) ?? 0) + 1);
+    blueprints.push(blueprint);
+  }
+
+  return blueprints;
+}
+
+/**
+ * Plan base scenarios near the failed examples of mined weaknesses. Each
+ * keeps the weak feature (anchor, deltas or distractor) and changes the
+ * rest of its example by one step: another delta is swapped in, added or
+ * dropped, or the example is reused with fresh metrics and narrative. A
+ * swap never brings back the dropped delta, and example deltas the rules
+ * do not allow with the weak ones are left out.
+ * Scenarios whose failures were mostly distractor influence get one more
+ * distractor.
+ */
+function planAdversarialBlueprints(
+  domain: DomainConfig,
+  options: GeneratorOptions,
+  random: () => number
+): ScenarioBlueprint[] {
+  const { count, maxDeltas = 4, weaknesses = [] } = options;
+  const usable = weaknesses.filter((w) => w.examples.length > 0);
+  if (usable.length === 0) {
+    throw new Error("No weaknesses with failed examples to generate from");
+  }
+
+  const blueprints: ScenarioBlueprint[] = [];
+  for (let i = 0; i < count; i++) {
+    const weakness = usable[i % usable.length];
+    const example = weakness.examples[Math.floor(i / usable.length) % weakness.examples.length];
+
+    const anchorKey = weakness.kind === "anchor" ? weakness.keys[0] : example.anchor;
+    const weakDeltas = weakness.kind === "delta" || weakness.kind === "delta_pair" ? weakness.keys : [];
+    const otherDeltas = getRemovableDeltas(domain, example.appliedDeltas).filter(
+      (key) => !weakDeltas.includes(key)
+    );
+
+    const step = Math.floor(random() * 4);
+    const dropped = step === 0 || step === 2 ? pickRandom(otherDeltas, 1, random) : [];
+    const kept = keepCompatibleDeltas(domain, anchorKey, [
+      ...weakDeltas,
+      ...example.appliedDeltas.filter((key) => !dropped.includes(key) && !weakDeltas.includes(key)),
+    ]);
+    const targetCount = Math.min(
+      Math.max(maxDeltas, example.appliedDeltas.length),
+      example.appliedDeltas.length + (step === 1 ? 1 : 0) - (step === 2 ? dropped.length : 0)
+    );
+    const appliedDeltaKeys = pickCompatibleDeltas(domain, anchorKey, targetCount, random, kept, dropped);
+
+    const distractors = [...example.distractors];
+    if (weakness.kind === "distractor" && !distractors.includes(weakness.keys[0])) {
+      distractors.push(weakness.keys[0]);
+    }
+    if (weakness.dominantPattern === "distractor_influence") {
+      distractors.push(...pickRandom(domain.distractors.filter((d) => !distractors.includes(d)), 1, random));
+    }
+
+    blueprints.push({ anchorKey, appliedDeltaKeys, distractors });
+  }
+
+  return blueprints;
+}
+
+/**
+ * Base scenarios fixed up front by a coverage design or mined weaknesses
+ */
+function planBlueprints(
+  domain: DomainConfig,
+  options: GeneratorOptions,
+  random: () => number
+): ScenarioBlueprint[] | undefined {
+  if (options.weaknesses) return planAdversarialBlueprints(domain, options, random);
+  if (options.design) return planCoverageBlueprints(domain, options, random);
+  return undefined;
+}
+
+/**
+ * Generate scenarios for a domain (synchronous - uses simple descriptions)
+ */
+export function generateScenarios(
+  domain: DomainConfig,
+  options: GeneratorOptions
+): Scenario[] {
+  const {
+    count,
     generateTwins = true,
+    generateDistractorPairs = false,
     seed = Date.now(),
   } = options;
 
+  assertValidDeltaRules(domain);
+
   const random = createRng(seed);
   const scenarios: Scenario[] = [];
 
-  const anchorKeys = Object.keys(domain.anchors);
-  const deltaKeys = Object.keys(domain.deltas);
-
-  // Helper to pick random items
-  const pickRandom = <T>(arr: T[], count: number): T[] => {
-    const shuffled = [...arr].sort(() => random() - 0.5);
-    return shuffled.slice(0, count);
-  };
+  // A coverage design or mined weaknesses fix every base scenario up front
+  const blueprints = planBlueprints(domain, options, random);
 
   for (let i = 0; i < count; i++) {
-    // Pick random anchor
-    const anchorKey = anchorKeys[Math.floor(random() * anchorKeys.length)];
-
-    // Pick random number of deltas
-    const numDeltas =
-      minDeltas + Math.floor(random() * (maxDeltas - minDeltas + 1));
-    const appliedDeltaKeys = pickRandom(deltaKeys, numDeltas);
-
-    // Maybe add distractors
-    const distractors: string[] = [];
-    if (random() < distractorProbability && domain.distractors.length > 0) {
-      const numDistractors = 1 + Math.floor(random() * maxDistractors);
-      distractors.push(...pickRandom(domain.distractors, numDistractors));
-    }
+    const { anchorKey, appliedDeltaKeys, distractors } =
+      blueprints?.[i] ?? sampleBlueprint(domain, options, random);
 
     // Calculate ground truth
-    const { value, calculation } = calculateGroundTruth(
+    const metricsSeed = Math.floor(random() * 1000000);
+    const { value, calculation, steps, metrics } = calculateScenarioTruth(
       domain,
       anchorKey,
-      appliedDeltaKeys
+      appliedDeltaKeys,
+      metricsSeed
     );
 
     // Create scenario with simple description
@@ -194,30 +519,38 @@ export function generateScenarios(
         domain,
         anchorKey,
         appliedDeltaKeys,
-        distractors
+        distractors,
+        metrics
       ),
+      metrics,
+      ...(metrics && { metricsSeed }),
       groundTruth: {
         value,
         tolerance, // Dynamic tolerance based on domain config
         calculation,
+        steps,
       },
     };
 
     scenarios.push(scenario);
 
     // Generate twin if enabled and we have deltas to swap
-    if (generateTwins && appliedDeltaKeys.length > 0) {
-      // Pick a delta to change
+    const removableDeltas = getRemovableDeltas(domain, appliedDeltaKeys);
+    if (generateTwins && removableDeltas.length > 0) {
+      // Pick a delta to change (one no other applied delta requires)
       const deltaToRemove =
-        appliedDeltaKeys[Math.floor(random() * appliedDeltaKeys.length)];
+        removableDeltas[Math.floor(random() * removableDeltas.length)];
 
-      // Find a different delta to add (or just remove)
-      const availableDeltas = deltaKeys.filter(
-        (k) => !appliedDeltaKeys.includes(k)
-      );
+      // Find a different delta to add (or just remove) within the domain's rules
+      const availableDeltas = getAddableDeltas(
+        domain,
+        anchorKey,
+        appliedDeltaKeys.filter((k) => k !== deltaToRemove)
+      ).filter((k) => k !== deltaToRemove);
 
       let twinDeltaKeys: string[];
       let twinDeltaChanged: string;
+      let addedDelta: string | undefined;
 
       if (availableDeltas.length > 0 && random() > 0.5) {
         // Replace with a different delta
@@ -227,6 +560,7 @@ export function generateScenarios(
           .filter((k) => k !== deltaToRemove)
           .concat(newDelta);
         twinDeltaChanged = `${deltaToRemove} → ${newDelta}`;
+        addedDelta = newDelta;
       } else {
         // Just remove the delta
         twinDeltaKeys = appliedDeltaKeys.filter((k) => k !== deltaToRemove);
@@ -234,7 +568,7 @@ export function generateScenarios(
       }
 
       // Calculate twin ground truth
-      const twinTruth = calculateGroundTruth(domain, anchorKey, twinDeltaKeys);
+      const twinTruth = calculateScenarioTruth(domain, anchorKey, twinDeltaKeys, metricsSeed);
       const twinId = uuidv4();
       const twinTolerance = getToleranceForValue(domain, twinTruth.value);
 
@@ -247,23 +581,45 @@ export function generateScenarios(
           domain,
           anchorKey,
           twinDeltaKeys,
-          distractors
+          distractors,
+          twinTruth.metrics
         ),
+        metrics: twinTruth.metrics,
+        metricsSeed: twinTruth.metricsSeed,
         groundTruth: {
           value: twinTruth.value,
           tolerance: twinTolerance, // Dynamic tolerance based on domain config
           calculation: twinTruth.calculation,
+          steps: twinTruth.steps,
         },
         twinId: scenarioId,
         twinDeltaChanged,
+        twinChange: { removed: addedDelta, added: deltaToRemove },
       };
 
       // Link the original to its twin
       scenario.twinId = twinId;
       scenario.twinDeltaChanged = twinDeltaChanged;
+      scenario.twinChange = { removed: deltaToRemove, added: addedDelta };
 
       scenarios.push(twin);
     }
+
+    // Distracted copy of the (clean) scenario
+    if (generateDistractorPairs && domain.distractors.length > 0) {
+      const distractor = domain.distractors[Math.floor(random() * domain.distractors.length)];
+      scenarios.push({
+        id: uuidv4(),
+        anchor: anchorKey,
+        appliedDeltas: appliedDeltaKeys,
+        distractors: [distractor],
+        contextDescription: generateSimpleDescription(domain, anchorKey, appliedDeltaKeys, [distractor], metrics),
+        metrics,
+        metricsSeed: scenario.metricsSeed,
+        groundTruth: scenario.groundTruth,
+        cleanVariantId: scenarioId,
+      });
+    }
   }
 
   return scenarios;
@@ -279,19 +635,16 @@ export async function generateScenariosWithNarrative(
 ): Promise<Scenario[]> {
   const {
     count,
-    minDeltas = 0,
-    maxDeltas = 4,
-    distractorProbability = 0.3,
-    maxDistractors = 2,
     generateTwins = true,
+    generateDistractorPairs = false,
     seed = Date.now(),
     narrativeConfig,
     narrativeModel,
     onProgress,
   } = options;
 
-  if (!narrativeConfig?.apiKey) {
-    throw new Error("narrativeConfig with apiKey is required for LLM narrative generation");
+  if (!narrativeConfig) {
+    throw new Error("narrativeConfig is required for LLM narrative generation");
   }
 
   const config: NarrativeGeneratorConfig = {
@@ -299,15 +652,9 @@ export async function generateScenariosWithNarrative(
     model: narrativeModel || narrativeConfig.model,
   };
 
-  const random = createRng(seed);
-  const anchorKeys = Object.keys(domain.anchors);
-  const deltaKeys = Object.keys(domain.deltas);
+  assertValidDeltaRules(domain);
 
-  // Helper to pick random items
-  const pickRandom = <T>(arr: T[], count: number): T[] => {
-    const shuffled = [...arr].sort(() => random() - 0.5);
-    return shuffled.slice(0, count);
-  };
+  const random = createRng(seed);
 
   // First, generate the scenario structure (fast)
   interface ScenarioSkeleton {
@@ -315,9 +662,13 @@ export async function generateScenariosWithNarrative(
     anchorKey: string;
     appliedDeltaKeys: string[];
     distractors: string[];
-    groundTruth: { value: number; tolerance: number; calculation: string };
+    metrics?: ScenarioMetrics;
+    metricsSeed?: number;
+    groundTruth: GroundTruth;
     twinId?: string;
     twinDeltaChanged?: string;
+    twinChange?: TwinChange;
+    cleanVariantId?: string;
     narrativeSeed: number;
   }
 
@@ -325,23 +676,20 @@ export async function generateScenariosWithNarrative(
 
   onProgress?.(0, count * 2, "Generating scenario structure...");
 
+  const blueprints = planBlueprints(domain, options, random);
+
   for (let i = 0; i < count; i++) {
-    // Pick random anchor
-    const anchorKey = anchorKeys[Math.floor(random() * anchorKeys.length)];
-
-    // Pick random number of deltas
-    const numDeltas = minDeltas + Math.floor(random() * (maxDeltas - minDeltas + 1));
-    const appliedDeltaKeys = pickRandom(deltaKeys, numDeltas);
-
-    // Maybe add distractors
-    const distractors: string[] = [];
-    if (random() < distractorProbability && domain.distractors.length > 0) {
-      const numDistractors = 1 + Math.floor(random() * maxDistractors);
-      distractors.push(...pickRandom(domain.distractors, numDistractors));
-    }
+    const { anchorKey, appliedDeltaKeys, distractors } =
+      blueprints?.[i] ?? sampleBlueprint(domain, options, random);
 
     // Calculate ground truth
-    const { value, calculation } = calculateGroundTruth(domain, anchorKey, appliedDeltaKeys);
+    const metricsSeed = Math.floor(random() * 1000000);
+    const { value, calculation, steps, metrics } = calculateScenarioTruth(
+      domain,
+      anchorKey,
+      appliedDeltaKeys,
+      metricsSeed
+    );
     const tolerance = getToleranceForValue(domain, value);
 
     const scenarioId = uuidv4();
@@ -350,30 +698,39 @@ export async function generateScenariosWithNarrative(
       anchorKey,
       appliedDeltaKeys,
       distractors,
-      groundTruth: { value, tolerance, calculation },
+      metrics,
+      ...(metrics && { metricsSeed }),
+      groundTruth: { value, tolerance, calculation, steps },
       narrativeSeed: Math.floor(random() * 1000000),
     };
 
     skeletons.push(skeleton);
 
     // Generate twin skeleton if enabled
-    if (generateTwins && appliedDeltaKeys.length > 0) {
-      const deltaToRemove = appliedDeltaKeys[Math.floor(random() * appliedDeltaKeys.length)];
-      const availableDeltas = deltaKeys.filter((k) => !appliedDeltaKeys.includes(k));
+    const removableDeltas = getRemovableDeltas(domain, appliedDeltaKeys);
+    if (generateTwins && removableDeltas.length > 0) {
+      const deltaToRemove = removableDeltas[Math.floor(random() * removableDeltas.length)];
+      const availableDeltas = getAddableDeltas(
+        domain,
+        anchorKey,
+        appliedDeltaKeys.filter((k) => k !== deltaToRemove)
+      ).filter((k) => k !== deltaToRemove);
 
       let twinDeltaKeys: string[];
       let twinDeltaChanged: string;
+      let addedDelta: string | undefined;
 
       if (availableDeltas.length > 0 && random() > 0.5) {
         const newDelta = availableDeltas[Math.floor(random() * availableDeltas.length)];
         twinDeltaKeys = appliedDeltaKeys.filter((k) => k !== deltaToRemove).concat(newDelta);
         twinDeltaChanged = `${deltaToRemove} → ${newDelta}`;
+        addedDelta = newDelta;
       } else {
         twinDeltaKeys = appliedDeltaKeys.filter((k) => k !== deltaToRemove);
         twinDeltaChanged = `removed: ${deltaToRemove}`;
       }
 
-      const twinTruth = calculateGroundTruth(domain, anchorKey, twinDeltaKeys);
+      const twinTruth = calculateScenarioTruth(domain, anchorKey, twinDeltaKeys, metricsSeed);
       const twinId = uuidv4();
       const twinTolerance = getToleranceForValue(domain, twinTruth.value);
 
@@ -382,17 +739,42 @@ export async function generateScenariosWithNarrative(
         anchorKey,
         appliedDeltaKeys: twinDeltaKeys,
         distractors,
-        groundTruth: { value: twinTruth.value, tolerance: twinTolerance, calculation: twinTruth.calculation },
+        metrics: twinTruth.metrics,
+        metricsSeed: twinTruth.metricsSeed,
+        groundTruth: {
+          value: twinTruth.value,
+          tolerance: twinTolerance,
+          calculation: twinTruth.calculation,
+          steps: twinTruth.steps,
+        },
         twinId: scenarioId,
         twinDeltaChanged,
+        twinChange: { removed: addedDelta, added: deltaToRemove },
         narrativeSeed: Math.floor(random() * 1000000),
       };
 
       skeleton.twinId = twinId;
       skeleton.twinDeltaChanged = twinDeltaChanged;
+      skeleton.twinChange = { removed: deltaToRemove, added: addedDelta };
 
       skeletons.push(twinSkeleton);
     }
+
+    // Distracted copy of the (clean) skeleton, narrated from the same seed
+    if (generateDistractorPairs && domain.distractors.length > 0) {
+      const distractor = domain.distractors[Math.floor(random() * domain.distractors.length)];
+      skeletons.push({
+        id: uuidv4(),
+        anchorKey,
+        appliedDeltaKeys,
+        distractors: [distractor],
+        metrics,
+        metricsSeed: skeleton.metricsSeed,
+        groundTruth: skeleton.groundTruth,
+        cleanVariantId: scenarioId,
+        narrativeSeed: skeleton.narrativeSeed,
+      });
+    }
   }
 
   // Now generate narratives for each skeleton in parallel batches (slow, LLM-based)
@@ -420,9 +802,17 @@ export async function generateScenariosWithNarrative(
           skeleton.appliedDeltaKeys,
           skeleton.distractors,
           skeleton.narrativeSeed,
-          config
+          config,
+          skeleton.metrics
         );
         contextDescription = narrative.description;
+
+        const metricErrors = skeleton.metrics
+          ? getDomain(domain.id)?.validateNarrative?.(contextDescription, skeleton.metrics)
+          : undefined;
+        if (metricErrors?.length) {
+          console.warn(`Narrative for scenario ${skeleton.id} misstates metrics:`, metricErrors.join("; "));
+        }
       } catch (error) {
         console.error(`Failed to generate narrative for scenario ${skeleton.id}:`, error);
         // Fallback to template-based description (using sync version)
@@ -430,7 +820,8 @@ export async function generateScenariosWithNarrative(
           domain,
           skeleton.anchorKey,
           skeleton.appliedDeltaKeys,
-          skeleton.distractors
+          skeleton.distractors,
+          skeleton.metrics
         );
       }
 
@@ -442,9 +833,13 @@ export async function generateScenariosWithNarrative(
           appliedDeltas: skeleton.appliedDeltaKeys,
           distractors: skeleton.distractors,
           contextDescription,
+          metrics: skeleton.metrics,
+          metricsSeed: skeleton.metricsSeed,
           groundTruth: skeleton.groundTruth,
           twinId: skeleton.twinId,
           twinDeltaChanged: skeleton.twinDeltaChanged,
+          twinChange: skeleton.twinChange,
+          cleanVariantId: skeleton.cleanVariantId,
         } as Scenario,
       };
     });
@@ -469,6 +864,102 @@ export async function generateScenariosWithNarrative(
   return scenarios;
 }
 
+/**
+ * Metrics of `base` with only `appliedDeltaKeys` applied. They are
+ * regenerated from the base's seed; scenarios stored without a seed keep
+ * their metrics apart from the fields the removed deltas set.
+ */
+function variantMetrics(
+  domain: DomainConfig,
+  base: Scenario,
+  appliedDeltaKeys: string[]
+): ScenarioMetrics | undefined {
+  const generateMetrics = getDomain(domain.id)?.generateMetrics;
+  if (!base.metrics || !generateMetrics) return base.metrics;
+  if (base.metricsSeed !== undefined) {
+    return generateMetrics(base.anchor, appliedDeltaKeys, base.metricsSeed);
+  }
+
+  const withAll = generateMetrics(base.anchor, base.appliedDeltas, 0);
+  const without = generateMetrics(base.anchor, appliedDeltaKeys, 0);
+  const metrics: Record<string, unknown> = { ...base.metrics };
+  for (const key of new Set([...Object.keys(withAll), ...Object.keys(without)])) {
+    const before = withAll[key as keyof ScenarioMetrics];
+    const after = without[key as keyof ScenarioMetrics];
+    if (before === after) continue;
+    if (after === undefined) delete metrics[key];
+    else metrics[key] = after;
+  }
+  return metrics as ScenarioMetrics;
+}
+
+/**
+ * Expand scenarios into ablation sets: each base scenario, followed by one
+ * counterfactual per applied delta with that delta removed (unless another
+ * applied delta requires it), and one without distractors. Variants keep
+ * the base's metrics minus what the removed delta set, ground truth comes
+ * from the domain over those metrics, and every variant uses the template
+ * description, so a base and its counterfactual differ only in that delta.
+ */
+export function generateAblationScenarios(
+  domain: DomainConfig,
+  baseScenarios: Scenario[]
+): Scenario[] {
+  const createVariant = (
+    id: string,
+    base: Scenario,
+    appliedDeltaKeys: string[],
+    distractors: string[]
+  ): Scenario => {
+    const metrics = variantMetrics(domain, base, appliedDeltaKeys);
+    const { value, calculation, steps } = calculateGroundTruth(domain, base.anchor, appliedDeltaKeys, metrics);
+    return {
+      id,
+      anchor: base.anchor,
+      appliedDeltas: appliedDeltaKeys,
+      distractors,
+      contextDescription: generateSimpleDescription(domain, base.anchor, appliedDeltaKeys, distractors, metrics),
+      metrics,
+      metricsSeed: base.metricsSeed,
+      groundTruth: {
+        value,
+        tolerance: getToleranceForValue(domain, value),
+        calculation,
+        steps,
+      },
+    };
+  };
+
+  const scenarios: Scenario[] = [];
+  for (const base of baseScenarios) {
+    scenarios.push({
+      ...createVariant(base.id, base, base.appliedDeltas, base.distractors),
+      ablation: { baseId: base.id },
+    });
+
+    for (const deltaKey of getRemovableDeltas(domain, base.appliedDeltas)) {
+      scenarios.push({
+        ...createVariant(
+          uuidv4(),
+          base,
+          base.appliedDeltas.filter((k) => k !== deltaKey),
+          base.distractors
+        ),
+        ablation: { baseId: base.id, removedDelta: deltaKey },
+      });
+    }
+
+    if (base.distractors.length > 0) {
+      scenarios.push({
+        ...createVariant(uuidv4(), base, base.appliedDeltas, []),
+        ablation: { baseId: base.id, removedDistractors: true },
+      });
+    }
+  }
+
+  return scenarios;
+}
+
 /**
  * Upgrade a single scenario's description to use LLM-based narrative
  */
@@ -487,7 +978,8 @@ export async function upgradeScenarioNarrative(
       scenario.appliedDeltas,
       scenario.distractors,
       narrativeSeed,
-      config
+      config,
+      scenario.metrics
     );
 
     return {
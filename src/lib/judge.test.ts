@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { parseJudgeResponse } from "./judge";
+
+describe("parseJudgeResponse", () => {
+  it("clamps rubric scores to 1-5 and averages them", () => {
+    const score = parseJudgeResponse(
+      'Scores:\n{"factorCoverage": 4, "correctDirection": "5", "justifiedMagnitude": 7, "hallucinatedFacts": 0, "comment": "Solid"}',
+      2
+    );
+    expect(score).toEqual({
+      rolloutIndex: 2,
+      factorCoverage: 4,
+      correctDirection: 5,
+      justifiedMagnitude: 5,
+      hallucinatedFacts: 1,
+      overall: 3.75,
+      comment: "Solid",
+    });
+  });
+
+  it("rejects a response without every criterion", () => {
+    expect(() => parseJudgeResponse('{"factorCoverage": 4, "correctDirection": 5, "justifiedMagnitude": 3}', 0)).toThrow(
+      'Judge response is missing "hallucinatedFacts"'
+    );
+    expect(() => parseJudgeResponse("Looks fine to me.", 0)).toThrow("Judge response contains no JSON object");
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * LLM-as-Judge
+ *
+ * Optional second pass that asks a judge model to grade each rollout's
+ * reasoning against the scenario's reference calculation on a rubric
+ * (factor coverage, direction, justified magnitude, hallucinated facts).
+ * Rubric templates live in src/prompts/judge.
+ */
+
+import type {
+  DomainConfig,
+  JudgeResult,
+  JudgeScore,
+  Scenario,
+  ScenarioResult,
+} from "@/domains/schema";
+import { renderJudgePrompt } from "@/prompts/engine";
+import { generateText, type OpenRouterConfig } from "@/lib/openrouter";
+import { getRolloutStatus } from "@/lib/evaluator";
+import { mean } from "@/lib/statistics";
+
+export const DEFAULT_JUDGE_TEMPLATE = "reasoning-rubric";
+
+const RUBRIC_CRITERIA = [
+  "factorCoverage",
+  "correctDirection",
+  "justifiedMagnitude",
+  "hallucinatedFacts",
+] as const;
+
+/**
+ * Read rubric scores from a judge response. Scores are clamped to 1-5;
+ * a response without every criterion is rejected.
+ */
+export function parseJudgeResponse(content: string, rolloutIndex: number): JudgeScore {
+  const json = content.match(/\{[\s\S]*\}/);
+  if (!json) {
+    throw new Error("Judge response contains no JSON object");
+  }
+  const parsed = JSON.parse(json[0]) as Record<string, unknown>;
+
+  const criteria = {} as Record<(typeof RUBRIC_CRITERIA)[number], number>;
+  for (const criterion of RUBRIC_CRITERIA) {
+    const value = Number(parsed[criterion]);
+    if (parsed[criterion] == null || !Number.isFinite(value)) {
+      throw new Error(`Judge response is missing "${criterion}"`);
+    }
+    criteria[criterion] = Math.min(5, Math.max(1, value));
+  }
+
+  return {
+    rolloutIndex,
+    ...criteria,
+    overall: Math.round(mean(Object.values(criteria)) * 100) / 100,
+    ...(typeof parsed.comment === "string" && { comment: parsed.comment }),
+  };
+}
+
+export interface JudgeOptions {
+  template: string;
+  templateName: string;
+  config: OpenRouterConfig;
+}
+
+/**
+ * Judge the successful rollouts of a scenario result. Rollouts already
+ * scored by the same judge model and rubric keep their scores, so re-runs
+ * only judge the rollouts they add.
+ */
+export async function judgeScenarioResult(
+  scenario: Scenario,
+  result: ScenarioResult,
+  domainConfig: DomainConfig,
+  options: JudgeOptions
+): Promise<JudgeResult> {
+  const { config, template, templateName } = options;
+  const previous =
+    result.judge?.model === config.model && result.judge.rubricTemplate === templateName
+      ? result.judge.scores
+      : [];
+  const judged = new Set(previous.map((s) => s.rolloutIndex));
+
+  const pending = result.rollouts
+    .map((rollout, rolloutIndex) => ({ rollout, rolloutIndex }))
+    .filter(({ rollout, rolloutIndex }) => getRolloutStatus(rollout) === "ok" && !judged.has(rolloutIndex));
+
+  const outcomes = await Promise.all(
+    pending.map(async ({ rollout, rolloutIndex }) => {
+      try {
+        const prompt = renderJudgePrompt(template, domainConfig, scenario, rollout);
+        const { text } = await generateText(prompt, config);
+        return parseJudgeResponse(text, rolloutIndex);
+      } catch (error) {
+        console.warn(
+          `Judge failed for scenario ${scenario.id} rollout ${rolloutIndex}:`,
+          error instanceof Error ? error.message : error
+        );
+        return null;
+      }
+    })
+  );
+
+  const scores = [...previous, ...outcomes.filter((s): s is JudgeScore => s !== null)]
+    .sort((a, b) => a.rolloutIndex - b.rolloutIndex);
+  const failed = outcomes.filter((s) => s === null).length;
+
+  return {
+    model: config.model,
+    provider: config.provider,
+    rubricTemplate: templateName,
+    scores,
+    ...(failed > 0 && { failed }),
+    ...(scores.length > 0 && {
+      meanScore: Math.round(mean(scores.map((s) => s.overall)) * 100) / 100,
+    }),
+  };
+}
@@ -7,9 +7,10 @@
  * This module delegates to domain plugins for domain-specific narrative generation.
  */
 
-import type { DomainConfig } from "@/domains/schema";
+import type { DomainConfig, ScenarioMetrics } from "@/domains/schema";
 import type { NarrativePromptContext } from "@/domains/types";
 import { generateText, type OpenRouterConfig } from "@/lib/openrouter";
+import type { ProviderId } from "@/lib/providers";
 import { getDomain, ensureDomainsInitialized } from "@/domains";
 
 /**
@@ -24,9 +25,11 @@ async function getDomainPlugin(id: string) {
 const DEFAULT_NARRATIVE_MODEL = "openai/gpt-4o-mini";
 
 export interface NarrativeGeneratorConfig {
-  apiKey: string;
+  apiKey?: string;
   model?: string;
   temperature?: number;
+  provider?: ProviderId;
+  baseUrl?: string;
 }
 
 export interface GeneratedNarrative {
@@ -43,7 +46,8 @@ async function buildNarrativePrompt(
   anchorKey: string,
   appliedDeltaKeys: string[],
   distractors: string[],
-  seed: number
+  seed: number,
+  metrics?: ScenarioMetrics
 ): Promise<string> {
   // Try to get domain plugin for domain-specific prompt
   const plugin = await getDomainPlugin(domain.id);
@@ -54,6 +58,7 @@ async function buildNarrativePrompt(
       appliedDeltaKeys,
       distractors,
       seed,
+      metrics,
     };
     return plugin.buildNarrativePrompt(context);
   }
@@ -146,7 +151,8 @@ Generate the description now:`;
 }
 
 /**
- * Generate a rich narrative description using an LLM
+ * Generate a rich narrative description using an LLM. With metrics, the
+ * domain is asked to state them exactly (constrained narrative).
  */
 export async function generateNarrativeDescription(
   domain: DomainConfig,
@@ -154,7 +160,8 @@ export async function generateNarrativeDescription(
   appliedDeltaKeys: string[],
   distractors: string[],
   seed: number,
-  config: NarrativeGeneratorConfig
+  config: NarrativeGeneratorConfig,
+  metrics?: ScenarioMetrics
 ): Promise<GeneratedNarrative> {
   const anchor = domain.anchors[anchorKey];
   if (!anchor) {
@@ -166,7 +173,8 @@ export async function generateNarrativeDescription(
     anchorKey,
     appliedDeltaKeys,
     distractors,
-    seed
+    seed,
+    metrics
   );
 
   const openRouterConfig: OpenRouterConfig = {
@@ -174,6 +182,8 @@ export async function generateNarrativeDescription(
     model: config.model || DEFAULT_NARRATIVE_MODEL,
     temperature: config.temperature ?? 0.8,
     maxTokens: 2048,
+    provider: config.provider,
+    baseUrl: config.baseUrl,
   };
 
   const result = await generateText(prompt, openRouterConfig);
@@ -293,7 +303,8 @@ export function generateFallbackDescriptionSync(
   domain: DomainConfig,
   anchorKey: string,
   appliedDeltaKeys: string[],
-  distractors: string[]
+  distractors: string[],
+  metrics?: ScenarioMetrics
 ): string {
   const anchor = domain.anchors[anchorKey];
   if (!anchor) {
@@ -314,6 +325,12 @@ export function generateFallbackDescriptionSync(
   parts.push(`*Overview*\n`);
   parts.push(`${entityLabel} Type: ${anchor.description}\n`);
 
+  const formatMetrics = getDomain(domain.id)?.formatMetrics;
+  if (metrics && formatMetrics && Object.keys(metrics).length > 0) {
+    parts.push(`\n**Key Metrics:**`);
+    parts.push(formatMetrics(metrics));
+  }
+
   // Add each applied delta as a characteristic
   if (appliedDeltaKeys.length > 0) {
     const characteristics = appliedDeltaKeys
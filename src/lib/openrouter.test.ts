@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { parseJsonResponse } from "./openrouter";
+
+describe("parseJsonResponse", () => {
+  it("reads a plain JSON object", () => {
+    const { prediction, strategy } = parseJsonResponse('{"reasoning": "Prime location", "estimate": 5.25}');
+    expect(strategy).toBe("json");
+    expect(prediction.estimate).toBe(5.25);
+    expect(prediction.reasoning).toBe("Prime location");
+  });
+
+  it("reads JSON inside a markdown code block and alternative field names", () => {
+    const { prediction, strategy } = parseJsonResponse('Here you go:\n```json\n{"yield": "6.1%"}\n```');
+    expect(strategy).toBe("json");
+    expect(prediction.estimate).toBe(6.1);
+  });
+
+  it("reads an uncertainty interval and quantiles", () => {
+    const { prediction } = parseJsonResponse(
+      '{"estimate": 5, "low": 5.5, "high": 4.5, "quantiles": {"p10": 4.6, "0.9": 5.4, "bad": 1}}'
+    );
+    expect(prediction.low).toBe(4.5);
+    expect(prediction.high).toBe(5.5);
+    expect(prediction.quantiles).toEqual({ "0.1": 4.6, "0.9": 5.4 });
+  });
+
+  it("falls back to a field regex for broken JSON", () => {
+    const { prediction, strategy } = parseJsonResponse('{"reasoning": "x", "estimate": 5.5,}');
+    expect(strategy).toBe("field_regex");
+    expect(prediction.estimate).toBe(5.5);
+  });
+
+  it("falls back to the Final line of a calculation", () => {
+    const { prediction, strategy } = parseJsonResponse("Base: 5.25%\n+ Long lease: -0.25%\n= Final: 5.00%");
+    expect(strategy).toBe("final_line");
+    expect(prediction.estimate).toBe(5);
+  });
+
+  it("falls back to an estimate stated in text", () => {
+    const { prediction, strategy } = parseJsonResponse("After weighing everything, my estimate is 6.4%.");
+    expect(strategy).toBe("estimate_text");
+    expect(prediction.estimate).toBe(6.4);
+  });
+
+  it("falls back to the last percentage, skipping ranges", () => {
+    const { prediction, strategy } = parseJsonResponse("Peers grow 40-70% a year; I expect about 55% here.");
+    expect(strategy).toBe("last_percentage");
+    expect(prediction.estimate).toBe(55);
+  });
+
+  it("rejects a response without any estimate", () => {
+    expect(() => parseJsonResponse("I cannot answer that.")).toThrow("Failed to parse LLM response");
+  });
+});
@@ -1,29 +1,96 @@
 import { z } from "zod";
-import { PredictionSchema, type Prediction } from "@/domains/schema";
+import {
+  PredictionSchema,
+  type ParseStrategy,
+  type Prediction,
+  type RolloutStatus,
+} from "@/domains/schema";
+import {
+  getProvider,
+  getProviderMaxConcurrency,
+  withProviderLimit,
+  ProviderHttpError,
+  DEFAULT_PROVIDER,
+  type ProviderId,
+  type CompletionCache,
+  type CompletionContext,
+  type CompletionResult,
+  type MockOptions,
+  type ResponseSchema,
+} from "@/lib/providers";
 
 export interface OpenRouterConfig {
-  apiKey: string;
+  /** API key (optional for local servers and the mock provider) */
+  apiKey?: string;
   model: string;
   temperature?: number;
   maxTokens?: number;
+  /** Provider to send requests to (defaults to OpenRouter) */
+  provider?: ProviderId;
+  /** Base URL override for self-hosted OpenAI-compatible servers */
+  baseUrl?: string;
+  /** Scenario the prompt was rendered from (used by the mock provider) */
+  context?: CompletionContext;
+  /** Mock provider settings (replay cassette, noise) */
+  mock?: MockOptions;
+  /** Retry policy for rate limits, server errors, timeouts and network failures */
+  retry?: RetryOptions;
+  /** Max in-flight requests to the provider (default: environment, then provider default) */
+  maxConcurrency?: number;
+  /** Called before each retry (e.g. to report it on a run's event stream) */
+  onRetry?: (retry: RetryInfo) => void;
+  /** Abort a single request after this many milliseconds (default 120000) */
+  timeoutMs?: number;
+  /** Reuse completions of identical requests (server-side, see response-cache) */
+  cache?: CompletionCache;
+  /** Request output matching PredictionSchema from providers that support it */
+  structuredOutput?: boolean;
 }
 
-export interface OpenRouterResponse {
-  id: string;
-  choices: Array<{
-    message: {
-      content: string;
-      role: string;
-    };
-    finish_reason: string;
-  }>;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+export interface RetryOptions {
+  /** Retries after the first attempt (default 3) */
+  maxRetries?: number;
+  /** Delay before the first retry, doubled on each further retry (default 1000ms) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay (default 30000ms) */
+  maxDelayMs?: number;
+}
+
+export interface RetryInfo {
+  /** Rollout the request belongs to */
+  rolloutIndex: number;
+  /** Attempt that failed (1-based) */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: string;
 }
 
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+const DEFAULT_TIMEOUT_MS = 120000;
+
+/**
+ * PredictionSchema as a JSON schema for structured output, with reasoning
+ * first so models still think before they commit to a number
+ */
+const PREDICTION_RESPONSE_SCHEMA: ResponseSchema = (() => {
+  const { reasoning, ...fields } = PredictionSchema.shape;
+  const schema: Record<string, unknown> = z.toJSONSchema(z.object({ reasoning, ...fields }));
+  delete schema.$schema;
+  return {
+    name: "submit_estimate",
+    description: "Submit the numeric estimate with the reasoning behind it",
+    schema,
+  };
+})();
+
+export type { ChatCompletionResponse as OpenRouterResponse } from "@/lib/providers/openai-compatible";
+
 export interface LLMResult {
   prediction: Prediction;
   rawResponse: string;
@@ -33,6 +100,26 @@ export interface LLMResult {
   promptTokens?: number;
   completionTokens?: number;
   model: string;
+  provider?: ProviderId;
+  /** "ok", or why the call failed */
+  status: RolloutStatus;
+  /** Served from the response cache */
+  cached?: boolean;
+  /** How the estimate was read from the response (successful calls only) */
+  parseStrategy?: ParseStrategy;
+  /** Set when the call failed; the prediction is a placeholder and must not be scored */
+  error?: string;
+}
+
+/**
+ * The model answered, but no estimate could be parsed from its response.
+ * Keeps the completion so the raw text and token usage are still recorded.
+ */
+export class ResponseParseError extends Error {
+  constructor(message: string, readonly completion: CompletionResult) {
+    super(message);
+    this.name = "ResponseParseError";
+  }
 }
 
 // Popular models available on OpenRouter
@@ -60,56 +147,175 @@ export const AVAILABLE_MODELS = [
 ] as const;
 
 /**
- * Call OpenRouter API with a prompt
+ * Whether an error is a request timeout (AbortSignal.timeout rejects with a
+ * DOMException named "TimeoutError")
  */
-export async function callOpenRouter(
+function isTimeout(error: unknown): boolean {
+  return error instanceof Error && error.name === "TimeoutError";
+}
+
+/**
+ * Whether a failed call is worth retrying: rate limits, server errors,
+ * timeouts and network failures (fetch rejects with a TypeError)
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ProviderHttpError) return error.retryable;
+  return error instanceof TypeError || isTimeout(error);
+}
+
+/**
+ * Classify a failed call for the rollout status
+ */
+function getErrorStatus(error: unknown): Exclude<RolloutStatus, "ok"> {
+  if (error instanceof ResponseParseError) return "parse_error";
+  if (isTimeout(error)) return "timeout";
+  return "http_error";
+}
+
+/**
+ * Exponential backoff with jitter, honoring the server's Retry-After hint
+ */
+function getRetryDelay(error: unknown, attempt: number, options: Required<RetryOptions>): number {
+  if (error instanceof ProviderHttpError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, options.maxDelayMs);
+  }
+  const backoff = options.baseDelayMs * Math.pow(2, attempt);
+  const jitter = Math.random() * options.baseDelayMs;
+  return Math.min(backoff + jitter, options.maxDelayMs);
+}
+
+/**
+ * Send a prompt to the configured provider and return the raw completion.
+ * Requests wait for a free slot under the provider's concurrency limit and
+ * are retried with backoff on transient failures. With a cache configured,
+ * identical requests are answered from it instead; only completions that
+ * pass `isUsable` are stored.
+ */
+async function complete(
   prompt: string,
-  config: OpenRouterConfig
-): Promise<LLMResult> {
-  const startTime = Date.now();
-
-  const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${config.apiKey}`,
-      "HTTP-Referer": "https://estimate-playground.local",
-      "X-Title": "Estimate Playground",
-    },
-    body: JSON.stringify({
-      model: config.model,
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      temperature: config.temperature ?? 0.3,
-      max_tokens: config.maxTokens ?? 1024,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
+  config: OpenRouterConfig,
+  defaults: { temperature: number; maxTokens: number },
+  responseSchema?: ResponseSchema,
+  isUsable: (text: string) => boolean = () => true
+): Promise<CompletionResult> {
+  const providerId = config.provider ?? DEFAULT_PROVIDER;
+  const provider = getProvider(providerId);
+  if (!provider) {
+    throw new Error(`Unknown provider: ${providerId}`);
+  }
+  if (provider.requiresApiKey && !config.apiKey) {
+    throw new Error(`${provider.name} API key is required`);
   }
 
-  const data: OpenRouterResponse = await response.json();
-  const latencyMs = Date.now() - startTime;
+  const request = {
+    prompt,
+    model: config.model,
+    temperature: config.temperature ?? defaults.temperature,
+    maxTokens: config.maxTokens ?? defaults.maxTokens,
+    apiKey: config.apiKey,
+    baseUrl: config.baseUrl,
+    context: config.context,
+    mock: config.mock,
+    timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    // Providers without structured output get the plain prompt
+    responseSchema: provider.structuredOutput ? responseSchema : undefined,
+  };
+  const retry = { ...DEFAULT_RETRY, ...config.retry };
+
+  // Mock responses are free and deterministic, so they are never cached
+  const cache = provider.id === "mock" ? undefined : config.cache;
+  const cacheKey = {
+    provider: provider.id,
+    model: request.model,
+    prompt,
+    temperature: request.temperature,
+    maxTokens: request.maxTokens,
+    rolloutIndex: config.context?.rolloutIndex ?? 0,
+    structured: request.responseSchema !== undefined,
+    ...(request.baseUrl && { baseUrl: request.baseUrl }),
+  };
+  const cached = await cache?.get(cacheKey);
+  if (cached) {
+    return { ...cached, cached: true };
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const maxConcurrency = getProviderMaxConcurrency(provider.id, config.maxConcurrency);
+      const result = await withProviderLimit(provider.id, maxConcurrency, () =>
+        provider.complete(request)
+      );
+      if (isUsable(result.text)) {
+        await cache?.set(cacheKey, result);
+      }
+      return result;
+    } catch (error) {
+      if (attempt >= retry.maxRetries || !isRetryable(error)) {
+        throw error;
+      }
+      // Wait outside the limiter so other requests can use the slot
+      const delayMs = getRetryDelay(error, attempt, retry);
+      config.onRetry?.({
+        rolloutIndex: cacheKey.rolloutIndex,
+        attempt: attempt + 1,
+        maxAttempts: retry.maxRetries + 1,
+        delayMs: Math.round(delayMs),
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
 
-  const rawContent = data.choices[0]?.message?.content ?? "";
+/**
+ * Whether an estimate can be read from a response
+ */
+function isParseable(text: string): boolean {
+  try {
+    parseJsonResponse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Call the configured LLM provider with a prompt (OpenRouter by default)
+ */
+export async function callOpenRouter(
+  prompt: string,
+  config: OpenRouterConfig
+): Promise<LLMResult> {
+  const completion = await complete(
+    prompt,
+    config,
+    { temperature: 0.3, maxTokens: 1024 },
+    config.structuredOutput ? PREDICTION_RESPONSE_SCHEMA : undefined,
+    isParseable
+  );
+  const rawContent = completion.text;
 
   // Parse the JSON response from the LLM
-  const prediction = parseJsonResponse(rawContent);
+  let prediction: Prediction;
+  let parseStrategy: ParseStrategy;
+  try {
+    ({ prediction, strategy: parseStrategy } = parseJsonResponse(rawContent));
+  } catch (error) {
+    throw new ResponseParseError(error instanceof Error ? error.message : "Unknown error", completion);
+  }
 
   return {
     prediction,
     rawResponse: rawContent,
-    latencyMs,
-    tokensUsed: data.usage?.total_tokens,
-    promptTokens: data.usage?.prompt_tokens,
-    completionTokens: data.usage?.completion_tokens,
+    latencyMs: completion.latencyMs,
+    tokensUsed: completion.totalTokens,
+    promptTokens: completion.promptTokens,
+    completionTokens: completion.completionTokens,
     model: config.model,
+    provider: config.provider ?? DEFAULT_PROVIDER,
+    status: "ok",
+    cached: completion.cached,
+    parseStrategy: completion.structured && parseStrategy === "json" ? "structured" : parseStrategy,
   };
 }
 
@@ -211,6 +417,79 @@ function extractReasoningFromParsed(parsed: Record<string, unknown>): string {
   return 'No reasoning provided';
 }
 
+/**
+ * Field name pairs that models might use for the bounds of an uncertainty
+ * interval.
+ */
+const INTERVAL_FIELD_NAMES = [
+  ['low', 'high'],
+  ['lower', 'upper'],
+  ['low_estimate', 'high_estimate'],
+  ['lower_bound', 'upper_bound'],
+];
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number' && isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const num = parseFloat(value);
+    if (!isNaN(num)) return num;
+  }
+  return null;
+}
+
+/**
+ * Normalize a quantile key ("0.1", "10", "p10", "q90", "90%") to a level
+ * between 0 and 1, or null if it is not one
+ */
+function parseQuantileLevel(key: string): number | null {
+  const num = parseFloat(key.trim().replace(/^[pq]/i, '').replace(/%$/, ''));
+  if (isNaN(num)) return null;
+  const level = num > 1 ? num / 100 : num;
+  return level > 0 && level < 1 ? level : null;
+}
+
+/**
+ * Extract an optional uncertainty interval and quantiles from a parsed
+ * JSON object. Accepts separate low/high fields, an "interval" pair, and a
+ * "quantiles" object.
+ */
+function extractUncertaintyFromParsed(
+  parsed: Record<string, unknown>
+): Pick<Prediction, 'low' | 'high' | 'quantiles'> {
+  const uncertainty: Pick<Prediction, 'low' | 'high' | 'quantiles'> = {};
+
+  let bounds: [number | null, number | null] | null = null;
+  for (const [lowField, highField] of INTERVAL_FIELD_NAMES) {
+    if (parsed[lowField] !== undefined && parsed[highField] !== undefined) {
+      bounds = [toNumber(parsed[lowField]), toNumber(parsed[highField])];
+      break;
+    }
+  }
+  if (!bounds && Array.isArray(parsed.interval) && parsed.interval.length === 2) {
+    bounds = [toNumber(parsed.interval[0]), toNumber(parsed.interval[1])];
+  }
+  if (bounds && bounds[0] !== null && bounds[1] !== null) {
+    uncertainty.low = Math.min(bounds[0], bounds[1]);
+    uncertainty.high = Math.max(bounds[0], bounds[1]);
+  }
+
+  if (parsed.quantiles && typeof parsed.quantiles === 'object' && !Array.isArray(parsed.quantiles)) {
+    const quantiles: Record<string, number> = {};
+    for (const [key, value] of Object.entries(parsed.quantiles as Record<string, unknown>)) {
+      const level = parseQuantileLevel(key);
+      const num = toNumber(value);
+      if (level !== null && num !== null) {
+        quantiles[String(level)] = num;
+      }
+    }
+    if (Object.keys(quantiles).length > 0) {
+      uncertainty.quantiles = quantiles;
+    }
+  }
+
+  return uncertainty;
+}
+
 /**
  * Parse JSON from LLM response, handling various formats.
  * 
@@ -220,8 +499,10 @@ function extractReasoningFromParsed(parsed: Record<string, unknown>): string {
  * 3. JSON embedded in other text
  * 4. Control characters in strings
  * 5. Double-encoded JSON strings
+ *
+ * Uncertainty intervals and quantiles are picked up when present.
  */
-function parseJsonResponse(content: string): Prediction {
+export function parseJsonResponse(content: string): { prediction: Prediction; strategy: ParseStrategy } {
   // Try to extract JSON from the response
   // LLMs sometimes wrap JSON in markdown code blocks
   let jsonStr = content.trim();
@@ -254,13 +535,16 @@ function parseJsonResponse(content: string): Prediction {
     const estimate = extractEstimateFromParsed(parsed);
     if (estimate !== null) {
       const reasoning = extractReasoningFromParsed(parsed);
-      return { estimate, reasoning };
+      return {
+        prediction: { estimate, reasoning, ...extractUncertaintyFromParsed(parsed) },
+        strategy: "json",
+      };
     }
 
     // If we couldn't find a known field, check if schema validates directly
     const result = PredictionSchema.safeParse(parsed);
     if (result.success) {
-      return result.data;
+      return { prediction: result.data, strategy: "json" };
     }
 
     throw new Error(`No numeric estimate found in JSON. Expected one of: ${ESTIMATE_FIELD_NAMES.join(', ')}`);
@@ -274,8 +558,8 @@ function parseJsonResponse(content: string): Prediction {
       const fieldMatch = content.match(new RegExp(`"${fieldName}"\\s*:\\s*(-?\\d+\\.?\\d*)`, 'i'));
       if (fieldMatch) {
         return {
-          estimate: parseFloat(fieldMatch[1]),
-          reasoning: content,
+          prediction: { estimate: parseFloat(fieldMatch[1]), reasoning: content },
+          strategy: "field_regex",
         };
       }
     }
@@ -285,8 +569,8 @@ function parseJsonResponse(content: string): Prediction {
     const finalMatch = content.match(/(?:=\s*)?Final:\s*(-?\d+\.?\d*)\s*%?/i);
     if (finalMatch) {
       return {
-        estimate: parseFloat(finalMatch[1]),
-        reasoning: content,
+        prediction: { estimate: parseFloat(finalMatch[1]), reasoning: content },
+        strategy: "final_line",
       };
     }
     
@@ -294,8 +578,8 @@ function parseJsonResponse(content: string): Prediction {
     const estimateTextMatch = content.match(/(?:my\s+)?estimate\s+(?:is|of|:)\s*(-?\d+\.?\d*)\s*%?/i);
     if (estimateTextMatch) {
       return {
-        estimate: parseFloat(estimateTextMatch[1]),
-        reasoning: content,
+        prediction: { estimate: parseFloat(estimateTextMatch[1]), reasoning: content },
+        strategy: "estimate_text",
       };
     }
     
@@ -306,8 +590,8 @@ function parseJsonResponse(content: string): Prediction {
     if (allPercentages.length > 0) {
       const lastMatch = allPercentages[allPercentages.length - 1];
       return {
-        estimate: parseFloat(lastMatch[1]),
-        reasoning: content,
+        prediction: { estimate: parseFloat(lastMatch[1]), reasoning: content },
+        strategy: "last_percentage",
       };
     }
 
@@ -318,62 +602,68 @@ function parseJsonResponse(content: string): Prediction {
   }
 }
 
+/**
+ * Placeholder result for a call that failed after all retries. Unparseable
+ * responses keep their raw text, latency and token usage.
+ */
+function createErrorResult(error: unknown, config: OpenRouterConfig): LLMResult {
+  const message = error instanceof Error ? error.message : "Unknown error";
+  const completion = error instanceof ResponseParseError ? error.completion : undefined;
+  return {
+    prediction: {
+      estimate: 0,
+      reasoning: `Error: ${message}`,
+    },
+    rawResponse: completion?.text ?? "",
+    latencyMs: completion?.latencyMs ?? 0,
+    tokensUsed: completion?.totalTokens,
+    promptTokens: completion?.promptTokens,
+    completionTokens: completion?.completionTokens,
+    model: config.model,
+    provider: config.provider ?? DEFAULT_PROVIDER,
+    status: getErrorStatus(error),
+    cached: completion?.cached,
+    error: message,
+  };
+}
+
 /**
  * Run multiple rollouts of the same prompt for variance estimation
- * Runs in parallel for efficiency
+ * Runs in parallel, throttled by the provider's concurrency limit;
+ * onRollout fires as each rollout finishes. Failed rollouts are returned
+ * with `error` set. Rollouts are numbered from `config.context.rolloutIndex`
+ * (default 0), so rollouts added to a scenario later don't repeat earlier ones.
  */
 export async function callOpenRouterMultiple(
   prompt: string,
   config: OpenRouterConfig,
-  numRollouts: number
+  numRollouts: number,
+  onRollout?: (result: LLMResult, rolloutIndex: number) => void
 ): Promise<LLMResult[]> {
   if (numRollouts <= 0) {
     return [];
   }
 
-  if (numRollouts === 1) {
-    const result = await callOpenRouter(prompt, config);
-    return [result];
-  }
-
-  // Run rollouts in parallel (with some batching to avoid rate limits)
-  const batchSize = 5;
-  const results: LLMResult[] = [];
-
-  for (let i = 0; i < numRollouts; i += batchSize) {
-    const batchCount = Math.min(batchSize, numRollouts - i);
-    const batchPromises = Array(batchCount)
-      .fill(null)
-      .map(async () => {
-        try {
-          return await callOpenRouter(prompt, config);
-        } catch (error) {
-          return {
-            prediction: {
-              yield: 0,
-              reasoning: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-            },
-            rawResponse: "",
-            latencyMs: 0,
-            model: config.model,
-          } as LLMResult;
-        }
-      });
-
-    const batchResults = await Promise.all(batchPromises);
-    results.push(...batchResults);
-
-    // Small delay between batches to avoid rate limiting
-    if (i + batchSize < numRollouts) {
-      await new Promise((resolve) => setTimeout(resolve, 300));
-    }
-  }
-
-  return results;
+  const firstIndex = config.context?.rolloutIndex ?? 0;
+
+  return Promise.all(
+    Array.from({ length: numRollouts }, async (_, i) => {
+      const rolloutIndex = firstIndex + i;
+      let result: LLMResult;
+      try {
+        const rolloutConfig = { ...config, context: { ...config.context, rolloutIndex } };
+        result = await callOpenRouter(prompt, rolloutConfig);
+      } catch (error) {
+        result = createErrorResult(error, config);
+      }
+      onRollout?.(result, rolloutIndex);
+      return result;
+    })
+  );
 }
 
 /**
- * Run a batch of prompts through OpenRouter
+ * Run a batch of prompts through the configured provider
  */
 export async function runBatch(
   prompts: string[],
@@ -388,20 +678,10 @@ export async function runBatch(
       results.push(result);
     } catch (error) {
       // Create an error result
-      results.push({
-        prediction: { yield: 0, reasoning: `Error: ${error instanceof Error ? error.message : "Unknown error"}` },
-        rawResponse: "",
-        latencyMs: 0,
-        model: config.model,
-      });
+      results.push(createErrorResult(error, config));
     }
 
     onProgress?.(i + 1, prompts.length);
-
-    // Small delay between requests to avoid rate limiting
-    if (i < prompts.length - 1) {
-      await new Promise((resolve) => setTimeout(resolve, 200));
-    }
   }
 
   return results;
@@ -414,40 +694,10 @@ export async function generateText(
   prompt: string,
   config: OpenRouterConfig
 ): Promise<{ text: string; latencyMs: number }> {
-  const startTime = Date.now();
-
-  const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${config.apiKey}`,
-      "HTTP-Referer": "https://estimate-playground.local",
-      "X-Title": "Estimate Playground",
-    },
-    body: JSON.stringify({
-      model: config.model,
-      messages: [
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      temperature: config.temperature ?? 0.7,
-      max_tokens: config.maxTokens ?? 2048,
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenRouter API error: ${response.status} - ${errorText}`);
-  }
-
-  const data: OpenRouterResponse = await response.json();
-  const latencyMs = Date.now() - startTime;
+  const completion = await complete(prompt, config, { temperature: 0.7, maxTokens: 2048 });
 
   return {
-    text: data.choices[0]?.message?.content ?? "",
-    latencyMs,
+    text: completion.text,
+    latencyMs: completion.latencyMs,
   };
 }
-
@@ -4,6 +4,8 @@
  * Updated: January 2026
  */
 
+import { getProvider } from "./providers";
+
 export interface ModelPricing {
   promptTokenCost: number; // Cost per 1M prompt tokens in USD
   completionTokenCost: number; // Cost per 1M completion tokens in USD
@@ -125,13 +127,19 @@ export function getModelPricing(modelId: string): ModelPricing {
  * @param modelId - The model ID (e.g., "openai/gpt-4o")
  * @param promptTokens - Number of prompt tokens used
  * @param completionTokens - Number of completion tokens used
+ * @param providerId - Provider that served the call (self-hosted and mock providers are free)
  * @returns Cost in USD
  */
 export function calculateCost(
   modelId: string,
   promptTokens: number,
-  completionTokens: number
+  completionTokens: number,
+  providerId?: string
 ): number {
+  if (providerId && getProvider(providerId)?.free) {
+    return 0;
+  }
+
   const pricing = getModelPricing(modelId);
 
   // Convert from per-1M-token pricing
@@ -0,0 +1,112 @@
+/**
+ * Anthropic Messages API Provider
+ */
+
+import type { CompletionRequest, CompletionResult, LLMProvider } from "./types";
+import { ProviderHttpError, parseRetryAfter } from "./errors";
+
+interface AnthropicMessagesResponse {
+  id: string;
+  content: Array<{
+    type: string;
+    text?: string;
+    /** Arguments of a tool_use block */
+    input?: unknown;
+  }>;
+  stop_reason: string;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+async function complete(request: CompletionRequest): Promise<CompletionResult> {
+  const startTime = Date.now();
+  const baseUrl = (request.baseUrl || anthropicProvider.defaultBaseUrl!).replace(/\/+$/, "");
+
+  // Accept OpenRouter-style IDs ("anthropic/claude-sonnet-4") for convenience
+  const model = request.model.replace(/^anthropic\//, "");
+
+  const response = await fetch(`${baseUrl}/messages`, {
+    method: "POST",
+    signal: request.timeoutMs ? AbortSignal.timeout(request.timeoutMs) : undefined,
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": request.apiKey ?? "",
+      "anthropic-version": ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify({
+      model,
+      messages: [
+        {
+          role: "user",
+          content: request.prompt,
+        },
+      ],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      // Structured output is a forced call to a tool whose input is the schema
+      ...(request.responseSchema && {
+        tools: [
+          {
+            name: request.responseSchema.name,
+            description: request.responseSchema.description,
+            input_schema: request.responseSchema.schema,
+          },
+        ],
+        tool_choice: { type: "tool", name: request.responseSchema.name },
+      }),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new ProviderHttpError(
+      "Anthropic",
+      response.status,
+      errorText,
+      parseRetryAfter(response.headers.get("retry-after"))
+    );
+  }
+
+  const data: AnthropicMessagesResponse = await response.json();
+  const toolUse = request.responseSchema
+    ? data.content.find((block) => block.type === "tool_use")
+    : undefined;
+  const text = toolUse
+    ? JSON.stringify(toolUse.input)
+    : data.content
+        .filter((block) => block.type === "text")
+        .map((block) => block.text ?? "")
+        .join("");
+
+  const promptTokens = data.usage?.input_tokens;
+  const completionTokens = data.usage?.output_tokens;
+
+  return {
+    text,
+    latencyMs: Date.now() - startTime,
+    ...(toolUse && { structured: true }),
+    promptTokens,
+    completionTokens,
+    totalTokens:
+      promptTokens !== undefined && completionTokens !== undefined
+        ? promptTokens + completionTokens
+        : undefined,
+  };
+}
+
+export const anthropicProvider: LLMProvider = {
+  id: "anthropic",
+  name: "Anthropic",
+  description: "Claude models via api.anthropic.com",
+  requiresApiKey: true,
+  apiKeyEnv: "ANTHROPIC_API_KEY",
+  defaultBaseUrl: "https://api.anthropic.com/v1",
+  free: false,
+  structuredOutput: true,
+  maxConcurrency: 4,
+  complete,
+};
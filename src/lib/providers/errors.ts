@@ -0,0 +1,43 @@
+/**
+ * Provider Errors
+ */
+
+/**
+ * Non-2xx response from a provider API. Carries the status code and any
+ * Retry-After hint so callers can decide whether and when to retry.
+ */
+export class ProviderHttpError extends Error {
+  readonly status: number;
+  readonly retryAfterMs?: number;
+
+  constructor(providerName: string, status: number, body: string, retryAfterMs?: number) {
+    super(`${providerName} API error: ${status} - ${body}`);
+    this.name = "ProviderHttpError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  /** Rate limits and server errors are worth retrying; other 4xx are not */
+  get retryable(): boolean {
+    return this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) to milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getProvider, getProviderBaseUrl, getProviderMaxConcurrency } from "./index";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getProviderMaxConcurrency", () => {
+  it("defaults to the provider's own limit", () => {
+    expect(getProviderMaxConcurrency("openrouter")).toBe(8);
+    expect(getProviderMaxConcurrency("openai-compatible")).toBe(2);
+    expect(getProviderMaxConcurrency("anthropic")).toBe(4);
+  });
+
+  it("reads the limit from the environment", () => {
+    vi.stubEnv("OPENAI_COMPATIBLE_MAX_CONCURRENCY", "6");
+    vi.stubEnv("ANTHROPIC_MAX_CONCURRENCY", "lots");
+    expect(getProviderMaxConcurrency("openai-compatible")).toBe(6);
+    expect(getProviderMaxConcurrency("anthropic")).toBe(4);
+  });
+
+  it("prefers an explicit override", () => {
+    vi.stubEnv("OPENROUTER_MAX_CONCURRENCY", "16");
+    expect(getProviderMaxConcurrency("openrouter", 3)).toBe(3);
+    expect(getProviderMaxConcurrency("openrouter", 0)).toBe(16);
+  });
+});
+
+describe("getProviderBaseUrl", () => {
+  it("ignores overrides for hosted providers", () => {
+    expect(getProviderBaseUrl("openrouter", "http://attacker.example/v1")).toBe(
+      getProvider("openrouter")?.defaultBaseUrl
+    );
+    expect(getProviderBaseUrl("anthropic", "http://attacker.example")).toBe(getProvider("anthropic")?.defaultBaseUrl);
+  });
+
+  it("takes the override, then the environment for the OpenAI-compatible provider", () => {
+    vi.stubEnv("LOCAL_LLM_BASE_URL", "http://gpu-box:8000/v1");
+    expect(getProviderBaseUrl("openai-compatible", "http://localhost:11434/v1")).toBe("http://localhost:11434/v1");
+    expect(getProviderBaseUrl("openai-compatible")).toBe("http://gpu-box:8000/v1");
+  });
+});
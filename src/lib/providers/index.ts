@@ -0,0 +1,110 @@
+/**
+ * Provider Registry
+ *
+ * Central registry for LLM providers. Mirrors the domain registry: providers
+ * register themselves here and callers look them up by ID.
+ */
+
+import type { LLMProvider, ProviderId, ProviderInfo } from "./types";
+import { openRouterProvider, openAIProvider, localProvider } from "./openai-compatible";
+import { anthropicProvider } from "./anthropic";
+import { mockProvider } from "./mock";
+
+export type {
+  LLMProvider,
+  ProviderId,
+  ProviderInfo,
+  CompletionRequest,
+  CompletionResult,
+  CompletionContext,
+  CompletionCache,
+  CompletionCacheKey,
+  MockCassette,
+  MockOptions,
+  ResponseSchema,
+} from "./types";
+export { MOCK_MODELS, buildCassetteFromRun } from "./mock";
+export { ProviderHttpError } from "./errors";
+export { withProviderLimit } from "./limiter";
+
+/** Provider used when a run does not specify one */
+export const DEFAULT_PROVIDER: ProviderId = "openrouter";
+
+// Provider registry
+const providerRegistry: Map<string, LLMProvider> = new Map();
+
+/**
+ * Register a provider
+ */
+export function registerProvider(provider: LLMProvider): void {
+  providerRegistry.set(provider.id, provider);
+}
+
+registerProvider(openRouterProvider);
+registerProvider(openAIProvider);
+registerProvider(anthropicProvider);
+registerProvider(localProvider);
+registerProvider(mockProvider);
+
+/**
+ * Get a provider by ID
+ */
+export function getProvider(id: string): LLMProvider | null {
+  return providerRegistry.get(id) ?? null;
+}
+
+/**
+ * Check if a provider ID is registered
+ */
+export function isProviderId(id: unknown): id is ProviderId {
+  return typeof id === "string" && providerRegistry.has(id);
+}
+
+/**
+ * List all registered providers (metadata only)
+ */
+export function listProviders(): ProviderInfo[] {
+  return Array.from(providerRegistry.values()).map((provider) => {
+    const { complete: _complete, ...info } = provider;
+    void _complete;
+    return info;
+  });
+}
+
+/**
+ * Static list of providers for synchronous access in client components
+ */
+export const AVAILABLE_PROVIDERS: ProviderInfo[] = listProviders();
+
+/**
+ * Read the API key for a provider from the server environment
+ * (server-side only)
+ */
+export function getProviderApiKey(id: ProviderId): string | undefined {
+  const provider = getProvider(id);
+  if (!provider?.apiKeyEnv) return undefined;
+  return process.env[provider.apiKeyEnv] || undefined;
+}
+
+/**
+ * Resolve the base URL for a provider: explicit override, then environment,
+ * then the provider default (server-side only). Only the OpenAI-compatible
+ * provider accepts an override, so hosted providers' API keys are never
+ * sent to a caller-chosen URL.
+ */
+export function getProviderBaseUrl(id: ProviderId, override?: string): string | undefined {
+  if (id !== "openai-compatible") return getProvider(id)?.defaultBaseUrl;
+  return override || process.env.LOCAL_LLM_BASE_URL || getProvider(id)?.defaultBaseUrl;
+}
+
+/**
+ * Resolve the max in-flight requests for a provider: explicit override,
+ * then <PROVIDER_ID>_MAX_CONCURRENCY (e.g. OPENAI_COMPATIBLE_MAX_CONCURRENCY),
+ * then the provider default (server-side only)
+ */
+export function getProviderMaxConcurrency(id: ProviderId, override?: number): number {
+  if (override !== undefined && override >= 1) return Math.floor(override);
+  const fromEnv = Number(process.env[`${id.toUpperCase().replace(/-/g, "_")}_MAX_CONCURRENCY`]);
+  if (Number.isInteger(fromEnv) && fromEnv >= 1) return fromEnv;
+  return getProvider(id)?.maxConcurrency ?? 1;
+}
@@ -0,0 +1,54 @@
+/**
+ * Per-Provider Concurrency Limits
+ *
+ * Caps the number of in-flight requests to each provider across all runs in
+ * the process, so parallel scenarios and rollouts can't exceed its rate
+ * limits.
+ */
+
+interface Limiter {
+  active: number;
+  waiting: Array<() => void>;
+}
+
+// Kept on globalThis so all route handlers share the same limits
+const globalForLimits = globalThis as unknown as { __providerLimits?: Map<string, Limiter> };
+const limiters = (globalForLimits.__providerLimits ??= new Map());
+
+function getLimiter(providerId: string): Limiter {
+  let limiter = limiters.get(providerId);
+  if (!limiter) {
+    limiter = { active: 0, waiting: [] };
+    limiters.set(providerId, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Run a task once fewer than maxConcurrency tasks for the provider are running
+ */
+export async function withProviderLimit<T>(
+  providerId: string,
+  maxConcurrency: number,
+  task: () => Promise<T>
+): Promise<T> {
+  const limiter = getLimiter(providerId);
+
+  if (limiter.active < maxConcurrency) {
+    limiter.active++;
+  } else {
+    // The slot is handed over directly by the task that releases it
+    await new Promise<void>((resolve) => limiter.waiting.push(resolve));
+  }
+
+  try {
+    return await task();
+  } finally {
+    const next = limiter.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      limiter.active--;
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import type { BenchmarkRun, DomainConfig, Scenario } from "@/domains/schema";
+import { callOpenRouter, callOpenRouterMultiple } from "@/lib/openrouter";
+import { evaluateMultipleRollouts } from "@/lib/evaluator";
+import { buildCassetteFromRun, formatMockResponse } from "./mock";
+
+const scenario: Scenario = {
+  id: "s1",
+  anchor: "office_oslo_cbd",
+  appliedDeltas: ["long_lease"],
+  distractors: [],
+  contextDescription: "",
+  groundTruth: { value: 5, tolerance: 0.25, calculation: "5.25 - 0.25 = 5.00" },
+};
+
+describe("mock provider", () => {
+  it("answers with the ground truth", async () => {
+    const results = await callOpenRouterMultiple("prompt", {
+      provider: "mock",
+      model: "mock/ground-truth",
+      context: { scenario },
+    }, 3);
+
+    const evaluated = evaluateMultipleRollouts(scenario, results, "mock/ground-truth");
+    expect(evaluated.meanPrediction).toBe(5);
+    expect(evaluated.withinTolerance).toBe(true);
+    expect(evaluated.rollouts.every((r) => r.parseStrategy === "json")).toBe(true);
+  });
+
+  it("adds the same noise for the same seed and rollout", async () => {
+    const config = {
+      provider: "mock" as const,
+      model: "mock/ground-truth-noise",
+      context: { scenario },
+      mock: { seed: 7 },
+    };
+    const first = await callOpenRouterMultiple("prompt", config, 3);
+    const second = await callOpenRouterMultiple("prompt", config, 3);
+    expect(second.map((r) => r.prediction.estimate)).toEqual(first.map((r) => r.prediction.estimate));
+    expect(new Set(first.map((r) => r.prediction.estimate)).size).toBeGreaterThan(1);
+  });
+
+  it("replays recorded responses through the fallback parsers", async () => {
+    const results = await callOpenRouterMultiple("prompt", {
+      provider: "mock",
+      model: "mock/replay",
+      context: { scenario },
+      mock: { cassette: { s1: [formatMockResponse(5.1, "ok"), "Base: 5.25%\n- Long lease: 0.25%\n= Final: 5.00%"] } },
+    }, 2);
+
+    expect(results.map((r) => r.prediction.estimate)).toEqual([5.1, 5]);
+    expect(results.map((r) => r.parseStrategy)).toEqual(["json", "final_line"]);
+  });
+
+  it("wraps around a cassette with fewer responses than rollouts", async () => {
+    const results = await callOpenRouterMultiple("prompt", {
+      provider: "mock",
+      model: "mock/replay",
+      context: { scenario },
+      mock: { cassette: { s1: [formatMockResponse(4.8, "a"), formatMockResponse(5.2, "b")] } },
+    }, 5);
+
+    expect(results.map((r) => r.prediction.estimate)).toEqual([4.8, 5.2, 4.8, 5.2, 4.8]);
+  });
+
+  it("fails rollouts of scenarios missing from the cassette", async () => {
+    const [result] = await callOpenRouterMultiple("prompt", {
+      provider: "mock",
+      model: "mock/replay",
+      context: { scenario },
+      mock: { cassette: { other: [formatMockResponse(5, "ok")] } },
+    }, 1);
+
+    expect(result.status).toBe("http_error");
+    expect(result.error).toBe("No recorded response for scenario s1");
+  });
+
+  it("answers with the anchor's base value", async () => {
+    const domainConfig = { anchors: { office_oslo_cbd: { value: 4.875, description: "" } } } as unknown as DomainConfig;
+    const result = await callOpenRouter("prompt", {
+      provider: "mock",
+      model: "mock/anchor",
+      context: { scenario, domainConfig },
+    });
+
+    // Rounded to two decimals like a model answer
+    expect(result.prediction.estimate).toBe(4.88);
+  });
+
+  it("derives the hash estimate from the prompt alone", async () => {
+    const config = { provider: "mock" as const, model: "mock/hash" };
+    const first = await callOpenRouter("prompt A", config);
+    expect((await callOpenRouter("prompt A", config)).prediction.estimate).toBe(first.prediction.estimate);
+    expect(first.prediction.estimate).toBeGreaterThanOrEqual(1);
+    expect(first.prediction.estimate).toBeLessThan(11);
+  });
+});
+
+describe("buildCassetteFromRun", () => {
+  it("records raw responses and falls back to the parsed prediction", () => {
+    const run = {
+      results: [
+        {
+          scenarioId: "s1",
+          rollouts: [
+            { prediction: 5.1, reasoning: "raw", rawResponse: "Final: 5.1%", latencyMs: 1 },
+            { prediction: 4.9, reasoning: "parsed", latencyMs: 1 },
+          ],
+        },
+        { scenarioId: "s2", rollouts: [] },
+      ],
+    } as unknown as BenchmarkRun;
+
+    expect(buildCassetteFromRun(run)).toEqual({
+      s1: ["Final: 5.1%", formatMockResponse(4.9, "parsed")],
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Deterministic Mock / Replay Provider
+ *
+ * Answers prompts without any network access so the whole pipeline (run
+ * creation, evaluation, storage, analysis pages) can be exercised offline
+ * and in CI. The model ID selects the policy:
+ *
+ * - mock/hash: pseudo-random estimate derived from the prompt text
+ * - mock/ground-truth: the scenario's ground truth value
+ * - mock/ground-truth-noise: ground truth plus seeded gaussian noise
+ * - mock/anchor: the anchor's base value, ignoring all deltas
+ * - mock/replay: raw responses recorded in a previous run (cassette)
+ *
+ * The same prompt, scenario, rollout index and seed always produce the same
+ * answer.
+ */
+
+import type { BenchmarkRun, Scenario } from "@/domains/schema";
+import type { CompletionRequest, CompletionResult, LLMProvider, MockCassette } from "./types";
+
+export const MOCK_MODELS = [
+  { id: "mock/hash", name: "Hash", description: "Pseudo-random estimate from the prompt text" },
+  { id: "mock/ground-truth", name: "Ground Truth", description: "Always the exact answer" },
+  { id: "mock/ground-truth-noise", name: "Ground Truth + Noise", description: "Answer plus gaussian noise" },
+  { id: "mock/anchor", name: "Anchor Value", description: "Base rate, ignoring all adjustments" },
+  { id: "mock/replay", name: "Replay", description: "Raw responses recorded in a previous run" },
+] as const;
+
+export type MockModelId = (typeof MOCK_MODELS)[number]["id"];
+
+/**
+ * FNV-1a hash, used to derive stable pseudo-random values from a prompt
+ */
+export function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Seeded random number generator (Mulberry32), same as the scenario generator
+function createRng(seed: number) {
+  return function () {
+    let t = (seed += 0x6d2b79f5);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample via Box-Muller
+ */
+function gaussian(rng: () => number): number {
+  const u1 = Math.max(rng(), Number.EPSILON);
+  const u2 = rng();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Build the JSON body a well-behaved model would return
+ */
+export function formatMockResponse(estimate: number, reasoning: string): string {
+  return JSON.stringify({
+    reasoning,
+    estimate: Math.round(estimate * 100) / 100,
+  });
+}
+
+/**
+ * Build a replay cassette from the recorded raw responses of a run.
+ * Runs saved before raw responses were stored replay the parsed prediction.
+ */
+export function buildCassetteFromRun(run: BenchmarkRun): MockCassette {
+  const cassette: MockCassette = {};
+  for (const result of run.results) {
+    const responses = result.rollouts.map(
+      (rollout) => rollout.rawResponse ?? formatMockResponse(rollout.prediction, rollout.reasoning)
+    );
+    if (responses.length > 0) {
+      cassette[result.scenarioId] = responses;
+    }
+  }
+  return cassette;
+}
+
+function requireScenario(request: CompletionRequest): Scenario {
+  const scenario = request.context?.scenario;
+  if (!scenario) {
+    throw new Error(`Mock model "${request.model}" needs the scenario in the request context`);
+  }
+  return scenario;
+}
+
+function respond(request: CompletionRequest): string {
+  const policy = request.model.replace(/^mock\//, "");
+  const rolloutIndex = request.context?.rolloutIndex ?? 0;
+
+  switch (policy) {
+    case "hash": {
+      const hash = hashString(`${request.model}\n${request.prompt}`);
+      // Spread estimates over 1.00-10.99 so runs produce varied, plausible numbers
+      const estimate = 1 + (hash % 1000) / 100;
+      return formatMockResponse(estimate, `Mock estimate from prompt hash ${hash.toString(16)}`);
+    }
+
+    case "ground-truth": {
+      const scenario = requireScenario(request);
+      return formatMockResponse(
+        scenario.groundTruth.value,
+        `Mock ground truth: ${scenario.groundTruth.calculation}`
+      );
+    }
+
+    case "ground-truth-noise": {
+      const scenario = requireScenario(request);
+      const stdDev = request.mock?.noiseStdDev ?? scenario.groundTruth.tolerance;
+      const rng = createRng(
+        hashString(`${scenario.id}:${rolloutIndex}:${request.mock?.seed ?? 0}`)
+      );
+      const noise = gaussian(rng) * stdDev;
+      return formatMockResponse(
+        scenario.groundTruth.value + noise,
+        `Mock ground truth ${scenario.groundTruth.value} with noise ${noise.toFixed(3)} (sd ${stdDev})`
+      );
+    }
+
+    case "anchor": {
+      const scenario = requireScenario(request);
+      const anchor = request.context?.domainConfig?.anchors[scenario.anchor];
+      if (!anchor) {
+        throw new Error(`Mock model "${request.model}" needs the domain config for anchor "${scenario.anchor}"`);
+      }
+      return formatMockResponse(anchor.value, `Mock anchor value for ${scenario.anchor}`);
+    }
+
+    case "replay": {
+      const scenario = requireScenario(request);
+      const recorded = request.mock?.cassette?.[scenario.id];
+      if (!recorded || recorded.length === 0) {
+        throw new Error(`No recorded response for scenario ${scenario.id}`);
+      }
+      return recorded[rolloutIndex % recorded.length];
+    }
+
+    default:
+      throw new Error(
+        `Unknown mock model "${request.model}". Expected one of: ${MOCK_MODELS.map((m) => m.id).join(", ")}`
+      );
+  }
+}
+
+async function complete(request: CompletionRequest): Promise<CompletionResult> {
+  return {
+    text: respond(request),
+    latencyMs: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+  };
+}
+
+export const mockProvider: LLMProvider = {
+  id: "mock",
+  name: "Mock",
+  description: "Deterministic offline responses for development and CI",
+  requiresApiKey: false,
+  free: true,
+  structuredOutput: false,
+  maxConcurrency: 32,
+  complete,
+};
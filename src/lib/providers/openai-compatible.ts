@@ -0,0 +1,170 @@
+/**
+ * OpenAI-Compatible Chat Completions Provider
+ *
+ * OpenRouter, the OpenAI API and self-hosted servers (vLLM, llama.cpp,
+ * Ollama) all speak the same /chat/completions protocol, so they share
+ * this implementation and differ only in endpoint, headers and key.
+ */
+
+import type { CompletionRequest, CompletionResult, LLMProvider, ProviderId } from "./types";
+import { ProviderHttpError, parseRetryAfter } from "./errors";
+
+export interface ChatCompletionResponse {
+  id: string;
+  choices: Array<{
+    message: {
+      content: string;
+      role: string;
+    };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+interface OpenAICompatibleOptions {
+  id: ProviderId;
+  name: string;
+  description: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+  apiKeyEnv?: string;
+  free?: boolean;
+  maxConcurrency: number;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  /** Strip a vendor prefix from model IDs (e.g. "openai/gpt-4o" -> "gpt-4o") */
+  modelPrefix?: string;
+}
+
+/**
+ * Create a provider for an OpenAI-compatible chat completions endpoint
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+    const startTime = Date.now();
+    const baseUrl = (request.baseUrl || options.defaultBaseUrl).replace(/\/+$/, "");
+    const model =
+      options.modelPrefix && request.model.startsWith(options.modelPrefix)
+        ? request.model.slice(options.modelPrefix.length)
+        : request.model;
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      ...options.headers,
+    };
+    if (request.apiKey) {
+      headers.Authorization = `Bearer ${request.apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      signal: request.timeoutMs ? AbortSignal.timeout(request.timeoutMs) : undefined,
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [
+          {
+            role: "user",
+            content: request.prompt,
+          },
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.responseSchema && {
+          response_format: {
+            type: "json_schema",
+            json_schema: {
+              name: request.responseSchema.name,
+              description: request.responseSchema.description,
+              schema: request.responseSchema.schema,
+            },
+          },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new ProviderHttpError(
+        options.name,
+        response.status,
+        errorText,
+        parseRetryAfter(response.headers.get("retry-after"))
+      );
+    }
+
+    const data: ChatCompletionResponse = await response.json();
+
+    return {
+      text: data.choices[0]?.message?.content ?? "",
+      latencyMs: Date.now() - startTime,
+      promptTokens: data.usage?.prompt_tokens,
+      completionTokens: data.usage?.completion_tokens,
+      totalTokens: data.usage?.total_tokens,
+      ...(request.responseSchema && { structured: true }),
+    };
+  };
+
+  return {
+    id: options.id,
+    name: options.name,
+    description: options.description,
+    requiresApiKey: options.requiresApiKey,
+    apiKeyEnv: options.apiKeyEnv,
+    defaultBaseUrl: options.defaultBaseUrl,
+    free: options.free ?? false,
+    structuredOutput: true,
+    maxConcurrency: options.maxConcurrency,
+    complete,
+  };
+}
+
+/**
+ * OpenRouter (default provider)
+ */
+export const openRouterProvider = createOpenAICompatibleProvider({
+  id: "openrouter",
+  name: "OpenRouter",
+  description: "Hosted models from all major vendors via openrouter.ai",
+  defaultBaseUrl: "https://openrouter.ai/api/v1",
+  requiresApiKey: true,
+  apiKeyEnv: "OPENROUTER_API_KEY",
+  maxConcurrency: 8,
+  headers: {
+    "HTTP-Referer": "https://estimate-playground.local",
+    "X-Title": "Estimate Playground",
+  },
+});
+
+/**
+ * OpenAI API (direct)
+ */
+export const openAIProvider = createOpenAICompatibleProvider({
+  id: "openai",
+  name: "OpenAI",
+  description: "OpenAI models via api.openai.com",
+  defaultBaseUrl: "https://api.openai.com/v1",
+  requiresApiKey: true,
+  apiKeyEnv: "OPENAI_API_KEY",
+  maxConcurrency: 8,
+  modelPrefix: "openai/",
+});
+
+/**
+ * Self-hosted OpenAI-compatible server (vLLM, llama.cpp, Ollama)
+ */
+export const localProvider = createOpenAICompatibleProvider({
+  id: "openai-compatible",
+  name: "OpenAI-Compatible (Local)",
+  description: "Self-hosted server such as vLLM, llama.cpp or Ollama",
+  defaultBaseUrl: "http://localhost:8000/v1",
+  requiresApiKey: false,
+  apiKeyEnv: "LOCAL_LLM_API_KEY",
+  free: true,
+  // Self-hosted servers usually batch a handful of requests at most
+  maxConcurrency: 2,
+});
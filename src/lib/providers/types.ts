@@ -0,0 +1,148 @@
+/**
+ * LLM Provider Type System
+ *
+ * Defines the interface every model provider implements so that benchmark
+ * runs can target OpenRouter, direct vendor APIs, self-hosted
+ * OpenAI-compatible servers or a deterministic mock.
+ */
+
+import type { DomainConfig, Scenario } from "@/domains/schema";
+
+/**
+ * Identifiers for the built-in providers
+ */
+export type ProviderId =
+  | "openrouter"
+  | "openai"
+  | "anthropic"
+  | "openai-compatible"
+  | "mock";
+
+/**
+ * A single completion request, with sampling defaults already resolved
+ */
+export interface CompletionRequest {
+  prompt: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  /** API key (optional for local servers and the mock provider) */
+  apiKey?: string;
+  /** Base URL override (e.g. http://localhost:11434/v1 for Ollama) */
+  baseUrl?: string;
+  /** What the prompt is about; only the mock provider looks at this */
+  context?: CompletionContext;
+  /** Settings for the mock provider */
+  mock?: MockOptions;
+  /** Abort the request after this many milliseconds */
+  timeoutMs?: number;
+  /** Ask for output matching this JSON schema (providers with structuredOutput) */
+  responseSchema?: ResponseSchema;
+}
+
+/**
+ * Named JSON schema for structured output
+ */
+export interface ResponseSchema {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+}
+
+/**
+ * Benchmark context a prompt was rendered from
+ */
+export interface CompletionContext {
+  scenario?: Scenario;
+  domainConfig?: DomainConfig;
+  /** Index of the rollout within its scenario (0-based) */
+  rolloutIndex?: number;
+}
+
+/**
+ * Recorded raw responses keyed by scenario ID, one entry per rollout
+ */
+export type MockCassette = Record<string, string[]>;
+
+/**
+ * Mock provider settings
+ */
+export interface MockOptions {
+  /** Responses to replay for the "mock/replay" model */
+  cassette?: MockCassette;
+  /** Std deviation for "mock/ground-truth-noise" (defaults to the scenario tolerance) */
+  noiseStdDev?: number;
+  /** Seed mixed into noise so different runs can draw different samples */
+  seed?: number;
+}
+
+/**
+ * Raw text completion returned by a provider
+ */
+export interface CompletionResult {
+  text: string;
+  latencyMs: number;
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+  /** Served from the response cache; no request was sent */
+  cached?: boolean;
+  /** The provider constrained the output to the requested schema */
+  structured?: boolean;
+}
+
+/**
+ * What identifies a completion in the response cache
+ */
+export interface CompletionCacheKey {
+  provider: ProviderId;
+  model: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  rolloutIndex: number;
+  /** Structured output was requested */
+  structured?: boolean;
+  /** Endpoint override the request was sent to */
+  baseUrl?: string;
+}
+
+/**
+ * Store for completions, so identical requests aren't sent twice
+ */
+export interface CompletionCache {
+  get(key: CompletionCacheKey): Promise<CompletionResult | null>;
+  set(key: CompletionCacheKey, result: CompletionResult): Promise<void>;
+}
+
+/**
+ * Provider Interface
+ *
+ * Providers only deal with transport: they send a prompt and return the raw
+ * text. Parsing the prediction out of the text stays in the LLM client.
+ */
+export interface LLMProvider {
+  id: ProviderId;
+  /** Display name (e.g. "OpenRouter", "Anthropic") */
+  name: string;
+  description: string;
+  /** Whether a request fails without an API key */
+  requiresApiKey: boolean;
+  /** Environment variable the server reads the API key from */
+  apiKeyEnv?: string;
+  /** Default endpoint, overridable per run via baseUrl */
+  defaultBaseUrl?: string;
+  /** Self-hosted and mock providers incur no per-token cost */
+  free: boolean;
+  /** Honours responseSchema (JSON-schema response format or a forced tool call) */
+  structuredOutput: boolean;
+  /** Default max in-flight requests across all runs in this process */
+  maxConcurrency: number;
+
+  complete: (request: CompletionRequest) => Promise<CompletionResult>;
+}
+
+/**
+ * Provider metadata for listing and selection in the UI
+ */
+export type ProviderInfo = Omit<LLMProvider, "complete">;
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { DomainConfigSchema, type Scenario } from "@/domains/schema";
+import { identifyFactors } from "./reasoning";
+
+const domain = DomainConfigSchema.parse({
+  id: "test",
+  name: "Test",
+  description: "",
+  outputUnit: "%",
+  anchors: {
+    office_oslo_cbd: { value: 5, description: "Prime office in Oslo CBD" },
+    hotel_bergen: { value: 6, description: "Hotel in Bergen" },
+  },
+  deltas: {
+    long_lease: { type: "additive", value: -0.25, description: "Lease over 10 years" },
+    short_lease: { type: "additive", value: 0.3, description: "Lease under 3 years" },
+    green_certified: { type: "additive", value: -0.1, description: "BREEAM Excellent certification" },
+  },
+  distractors: ["The building has a rooftop terrace"],
+});
+
+const scenario: Scenario = {
+  id: "s1",
+  anchor: "office_oslo_cbd",
+  appliedDeltas: ["long_lease", "green_certified"],
+  distractors: ["The building has a rooftop terrace"],
+  contextDescription: "",
+  groundTruth: { value: 4.65, tolerance: 0.25, calculation: "" },
+};
+
+describe("identifyFactors", () => {
+  it("separates identified, missed and spurious factors", () => {
+    const factors = identifyFactors(
+      "Starting from the Oslo CBD office yield, the long lease compresses it. " +
+        "The rooftop terrace is irrelevant, and a short lease would push it up.",
+      scenario,
+      domain
+    );
+
+    expect(factors.anchorIdentified).toBe(true);
+    expect(factors.identifiedDeltas).toEqual(["long_lease"]);
+    expect(factors.missedDeltas).toEqual(["green_certified"]);
+    expect(factors.spuriousDeltas).toEqual(["short_lease"]);
+    expect(factors.mentionedDistractors).toEqual(["The building has a rooftop terrace"]);
+    // Anchor + long lease of 3 relevant; of 4 mentioned
+    expect(factors.recall).toBeCloseTo(2 / 3, 6);
+    expect(factors.precision).toBe(0.5);
+  });
+
+  it("has full precision when nothing is mentioned", () => {
+    const factors = identifyFactors("Around 5%.", scenario, domain);
+    expect(factors.recall).toBe(0);
+    expect(factors.precision).toBe(1);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Reasoning Trace Analysis
+ *
+ * Checks a model's reasoning text for the factors of a scenario: the
+ * anchor, each applied delta and any distractor. Matching is keyword
+ * based: a factor counts as mentioned when its key reads as a phrase in
+ * the text (e.g. "long lease") or at least half of its distinctive words
+ * (those not shared with other factors of the same kind) appear. Negated
+ * mentions ("no BREEAM certification") still count, so precision is a
+ * lower bound when the model explains why a factor does not apply.
+ *
+ * This module contains only pure functions that can be safely imported by
+ * both client and server components.
+ */
+
+import type { DomainConfig, Scenario } from "@/domains/schema";
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "has", "have", "was", "are", "its", "from", "that", "this",
+  "than", "above", "below", "over", "under", "into", "or", "a", "an", "of", "to", "in", "on",
+  "at", "by", "is", "be", "as", "years", "year", "recently", "high", "low",
+]);
+
+/** Lowercased words of a text, keeping letters (incl. æøå) and digits */
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((t) => !STOPWORDS.has(t));
+}
+
+// Words match on a shared stem so "leases"/"lease" and "certified"/"certification" agree
+function stem(word: string): string {
+  return word.length > 5 ? word.slice(0, 5) : word;
+}
+
+interface FactorMatcher {
+  key: string;
+  /** The key as a phrase, e.g. "long lease" */
+  phrase: string;
+  keywords: string[];
+}
+
+/**
+ * Keywords for each factor of one kind, without those shared with siblings
+ */
+function buildMatchers(factors: Record<string, string>): FactorMatcher[] {
+  const tokensByKey = Object.fromEntries(
+    Object.entries(factors).map(([key, description]) => [
+      key,
+      Array.from(new Set([...tokenize(key.replace(/_/g, " ")), ...tokenize(description)].map(stem))),
+    ])
+  );
+
+  return Object.keys(factors).map((key) => {
+    const tokens = tokensByKey[key];
+    const distinctive = tokens.filter((token) =>
+      Object.entries(tokensByKey).every(([other, otherTokens]) => other === key || !otherTokens.includes(token))
+    );
+    return {
+      key,
+      phrase: key.replace(/_/g, " ").toLowerCase(),
+      keywords: distinctive.length > 0 ? distinctive : tokens,
+    };
+  });
+}
+
+function isMentioned(matcher: FactorMatcher, text: string, stems: Set<string>): boolean {
+  if (text.includes(matcher.phrase)) return true;
+  const found = matcher.keywords.filter((keyword) => stems.has(keyword)).length;
+  return found > 0 && found >= Math.ceil(matcher.keywords.length / 2);
+}
+
+export interface FactorIdentification {
+  anchorIdentified: boolean;
+  /** Applied deltas the reasoning mentions */
+  identifiedDeltas: string[];
+  /** Applied deltas the reasoning does not mention */
+  missedDeltas: string[];
+  /** Deltas the reasoning mentions that do not apply to the scenario */
+  spuriousDeltas: string[];
+  /** Distractors of the scenario the reasoning picks up */
+  mentionedDistractors: string[];
+  /** Share of relevant factors (anchor + applied deltas) mentioned, 0-1 */
+  recall: number;
+  /** Share of mentioned factors that are relevant, 0-1 (1 when nothing is mentioned) */
+  precision: number;
+}
+
+/**
+ * Check one reasoning trace for the factors of its scenario
+ */
+export function identifyFactors(
+  reasoning: string,
+  scenario: Scenario,
+  domain: DomainConfig
+): FactorIdentification {
+  const text = reasoning.toLowerCase().replace(/[_-]/g, " ");
+  const stems = new Set(tokenize(reasoning).map(stem));
+
+  const anchors = buildMatchers(
+    Object.fromEntries(Object.entries(domain.anchors).map(([key, anchor]) => [key, anchor.description]))
+  );
+  const deltas = buildMatchers(
+    Object.fromEntries(Object.entries(domain.deltas).map(([key, delta]) => [key, delta.description]))
+  );
+  const distractors = buildMatchers(
+    Object.fromEntries(domain.distractors.map((distractor) => [distractor, distractor]))
+  );
+
+  const anchorMatcher = anchors.find((m) => m.key === scenario.anchor);
+  const anchorIdentified = anchorMatcher ? isMentioned(anchorMatcher, text, stems) : false;
+
+  const mentionedDeltas = deltas.filter((m) => isMentioned(m, text, stems)).map((m) => m.key);
+  const identifiedDeltas = scenario.appliedDeltas.filter((key) => mentionedDeltas.includes(key));
+  const missedDeltas = scenario.appliedDeltas.filter((key) => !mentionedDeltas.includes(key));
+  const spuriousDeltas = mentionedDeltas.filter((key) => !scenario.appliedDeltas.includes(key));
+
+  const mentionedDistractors = distractors
+    .filter((m) => scenario.distractors.includes(m.key) && isMentioned(m, text, stems))
+    .map((m) => m.key);
+
+  const relevant = 1 + scenario.appliedDeltas.length;
+  const identified = (anchorIdentified ? 1 : 0) + identifiedDeltas.length;
+  const mentioned = identified + spuriousDeltas.length + mentionedDistractors.length;
+
+  return {
+    anchorIdentified,
+    identifiedDeltas,
+    missedDeltas,
+    spuriousDeltas,
+    mentionedDistractors,
+    recall: identified / relevant,
+    precision: mentioned > 0 ? identified / mentioned : 1,
+  };
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import type { CompletionCacheKey } from "@/lib/providers";
+import { getCacheKeyHash } from "./response-cache";
+
+const key: CompletionCacheKey = {
+  provider: "openai-compatible",
+  model: "llama3",
+  prompt: "Estimate the growth rate",
+  temperature: 0.3,
+  maxTokens: 1024,
+  rolloutIndex: 0,
+};
+
+describe("getCacheKeyHash", () => {
+  it("separates requests sent to different endpoints", () => {
+    const ollama = getCacheKeyHash({ ...key, baseUrl: "http://localhost:11434/v1" });
+    const vllm = getCacheKeyHash({ ...key, baseUrl: "http://localhost:8000/v1" });
+    expect(ollama).not.toBe(vllm);
+    expect(ollama).not.toBe(getCacheKeyHash(key));
+  });
+
+  it("keeps the hash of requests without an endpoint override", () => {
+    expect(getCacheKeyHash({ ...key, baseUrl: undefined })).toBe(getCacheKeyHash(key));
+  });
+});
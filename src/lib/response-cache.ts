@@ -0,0 +1,163 @@
+/**
+ * Response Cache
+ *
+ * Content-addressed store for model completions under data/cache/responses.
+ * Each entry is keyed by a hash of the provider, endpoint, model, prompt,
+ * sampling parameters and rollout index, so re-running a test set with the same
+ * template and model reuses earlier answers instead of paying for them
+ * again (server-side only).
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { CompletionCache, CompletionCacheKey, CompletionResult } from "@/lib/providers";
+
+const CACHE_DIR = path.join(process.cwd(), "data", "cache", "responses");
+
+interface CacheEntry {
+  /** Key fields, with the prompt replaced by its hash */
+  key: Omit<CompletionCacheKey, "prompt"> & { promptHash: string };
+  result: CompletionResult;
+  createdAt: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+function sha256(input: string): string {
+  return createHash("sha256").update(input).digest("hex");
+}
+
+/**
+ * Hash identifying a cache entry
+ */
+export function getCacheKeyHash(key: CompletionCacheKey): string {
+  return sha256(
+    JSON.stringify([
+      key.provider,
+      key.model,
+      sha256(key.prompt),
+      key.temperature,
+      key.maxTokens,
+      key.rolloutIndex,
+      // Only structured requests carry the flag, so older entries keep their hash
+      ...(key.structured ? ["structured"] : []),
+      ...(key.baseUrl ? [`baseUrl:${key.baseUrl}`] : []),
+    ])
+  );
+}
+
+function entryPath(hash: string): string {
+  return path.join(CACHE_DIR, `${hash}.json`);
+}
+
+/**
+ * Create a cache that records its hits and misses. Pass earlier stats to
+ * keep counting from them (e.g. when a run is resumed).
+ */
+export function createResponseCache(initialStats?: CacheStats): CompletionCache & { stats: CacheStats } {
+  const stats: CacheStats = { hits: initialStats?.hits ?? 0, misses: initialStats?.misses ?? 0 };
+
+  return {
+    stats,
+
+    async get(key) {
+      try {
+        const content = await fs.readFile(entryPath(getCacheKeyHash(key)), "utf-8");
+        const entry = JSON.parse(content) as CacheEntry;
+        stats.hits++;
+        return entry.result;
+      } catch {
+        stats.misses++;
+        return null;
+      }
+    },
+
+    async set(key, result) {
+      const { prompt, ...rest } = key;
+      const entry: CacheEntry = {
+        key: { ...rest, promptHash: sha256(prompt) },
+        result: { ...result, cached: undefined },
+        createdAt: new Date().toISOString(),
+      };
+      try {
+        await fs.mkdir(CACHE_DIR, { recursive: true });
+        await fs.writeFile(entryPath(getCacheKeyHash(key)), JSON.stringify(entry));
+      } catch (error) {
+        // A failed write only costs a future cache hit
+        console.error("Failed to write response cache entry:", error);
+      }
+    },
+  };
+}
+
+async function listEntries(): Promise<{ file: string; entry: CacheEntry; sizeBytes: number }[]> {
+  let files: string[];
+  try {
+    files = (await fs.readdir(CACHE_DIR)).filter((f) => f.endsWith(".json"));
+  } catch {
+    return [];
+  }
+
+  const entries = [];
+  for (const file of files) {
+    try {
+      const content = await fs.readFile(path.join(CACHE_DIR, file), "utf-8");
+      entries.push({ file, entry: JSON.parse(content) as CacheEntry, sizeBytes: Buffer.byteLength(content) });
+    } catch {
+      // Skip unreadable entries
+    }
+  }
+  return entries;
+}
+
+/**
+ * Size of the cache, overall and per model
+ */
+export async function getResponseCacheStats(): Promise<{
+  entries: number;
+  sizeBytes: number;
+  oldestAt?: string;
+  newestAt?: string;
+  byModel: Record<string, number>;
+}> {
+  const entries = await listEntries();
+  const byModel: Record<string, number> = {};
+  let sizeBytes = 0;
+  let oldestAt: string | undefined;
+  let newestAt: string | undefined;
+
+  for (const { entry, sizeBytes: size } of entries) {
+    byModel[entry.key.model] = (byModel[entry.key.model] ?? 0) + 1;
+    sizeBytes += size;
+    if (!oldestAt || entry.createdAt < oldestAt) oldestAt = entry.createdAt;
+    if (!newestAt || entry.createdAt > newestAt) newestAt = entry.createdAt;
+  }
+
+  return { entries: entries.length, sizeBytes, oldestAt, newestAt, byModel };
+}
+
+/**
+ * Delete cache entries, optionally only those older than a number of days
+ * and/or for one model. Returns the number of entries removed.
+ */
+export async function clearResponseCache(options: {
+  olderThanDays?: number;
+  model?: string;
+} = {}): Promise<number> {
+  const cutoff = options.olderThanDays !== undefined
+    ? new Date(Date.now() - options.olderThanDays * 24 * 60 * 60 * 1000).toISOString()
+    : undefined;
+
+  let removed = 0;
+  for (const { file, entry } of await listEntries()) {
+    if (cutoff && entry.createdAt >= cutoff) continue;
+    if (options.model && entry.key.model !== options.model) continue;
+    await fs.unlink(path.join(CACHE_DIR, file));
+    removed++;
+  }
+  return removed;
+}
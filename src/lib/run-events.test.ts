@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { emitRunEvent, subscribeToRun, type RunEvent } from "./run-events";
+
+describe("subscribeToRun", () => {
+  it("delivers a run's events until unsubscribed", () => {
+    const received: RunEvent[] = [];
+    const unsubscribe = subscribeToRun("run-a", (event) => received.push(event));
+
+    emitRunEvent("run-a", { type: "status", status: "running" });
+    emitRunEvent("run-b", { type: "status", status: "failed" });
+    unsubscribe();
+    emitRunEvent("run-a", { type: "status", status: "completed" });
+
+    expect(received).toEqual([{ type: "status", status: "running" }]);
+  });
+});
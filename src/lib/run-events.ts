@@ -0,0 +1,73 @@
+/**
+ * Run Progress Events
+ *
+ * In-process event bus between the run executor and the SSE endpoint
+ * (/api/runs/[id]/events). Events describe incremental changes so clients
+ * can update a run without re-fetching the whole file (server-side only;
+ * clients import the types).
+ */
+
+import { EventEmitter } from "events";
+import type { BenchmarkRun, RolloutStatus, ScenarioResult } from "@/domains/schema";
+
+export type RunEvent =
+  /** Full run state, sent once when a client connects */
+  | { type: "snapshot"; run: BenchmarkRun }
+  | { type: "status"; status: BenchmarkRun["status"]; statusMessage?: string }
+  | {
+      type: "narrative_generated";
+      index: number;
+      contextDescription: string;
+      narrativesGenerated: number;
+      narrativesTotal: number;
+    }
+  | { type: "scenario_started"; index: number; startedAt: string }
+  | {
+      type: "rollout_completed";
+      index: number;
+      rolloutIndex: number;
+      prediction: number;
+      latencyMs: number;
+      status: RolloutStatus;
+      error?: string;
+    }
+  | {
+      type: "rollout_retrying";
+      index: number;
+      rolloutIndex: number;
+      attempt: number;
+      maxAttempts: number;
+      delayMs: number;
+      error: string;
+    }
+  | { type: "scenario_evaluated"; index: number; result: ScenarioResult }
+  | {
+      type: "aggregate_updated";
+      aggregateMetrics: NonNullable<BenchmarkRun["aggregateMetrics"]>;
+      completedScenarios: number;
+    };
+
+/** Statuses after which a run emits no further events until resumed */
+export const SETTLED_RUN_STATUSES: BenchmarkRun["status"][] = ["paused", "completed", "cancelled", "failed"];
+
+// Kept on globalThis so the executor and route handlers share one emitter
+const globalForEvents = globalThis as unknown as { __runEvents?: EventEmitter };
+const emitter = (globalForEvents.__runEvents ??= new EventEmitter());
+emitter.setMaxListeners(0);
+
+/**
+ * Publish an event for a run
+ */
+export function emitRunEvent(runId: string, event: RunEvent): void {
+  emitter.emit(runId, event);
+}
+
+/**
+ * Listen to events for a run; returns an unsubscribe function
+ */
+export function subscribeToRun(runId: string, listener: (event: RunEvent) => void): () => void {
+  emitter.on(runId, listener);
+  return () => {
+    emitter.off(runId, listener);
+  };
+}
@@ -0,0 +1,501 @@
+/**
+ * Benchmark Run Executor
+ *
+ * Drives a saved BenchmarkRun to completion: generates any missing
+ * narratives, then evaluates every scenario that is not yet completed or
+ * failed. All progress is written back to the run file after each batch, so
+ * a run can be picked up again from its saved state after a pause or a
+ * server restart (server-side only).
+ */
+
+import type { BenchmarkRun, RolloutResult, ScenarioResult } from "@/domains/schema";
+import {
+  loadBenchmarkRun,
+  saveBenchmarkRun,
+  loadDomainConfig,
+  loadExpertFacts,
+  loadJudgeTemplate,
+} from "@/lib/storage";
+import { generateNarrativeDescription, generateFallbackDescriptionSync } from "@/lib/narrative-generator";
+import { renderPrompt } from "@/prompts/engine";
+import { callOpenRouterMultiple, type OpenRouterConfig } from "@/lib/openrouter";
+import {
+  evaluateRollouts,
+  toRolloutResults,
+  calculateAggregateMetrics,
+  calculateScenarioDifficulty,
+  detectErrorPattern,
+  analyzeErrorPatterns,
+  calculateDifficultyMetrics,
+} from "@/lib/evaluator";
+import { DEFAULT_JUDGE_TEMPLATE, judgeScenarioResult, type JudgeOptions } from "@/lib/judge";
+import { emitRunEvent } from "@/lib/run-events";
+import { createResponseCache } from "@/lib/response-cache";
+import {
+  DEFAULT_PROVIDER,
+  buildCassetteFromRun,
+  getProviderApiKey,
+  getProviderBaseUrl,
+  type ProviderId,
+} from "@/lib/providers";
+
+// Work done between checkpoints (save + pause/cancel check). Request
+// concurrency itself is bounded by the provider limiter.
+const NARRATIVE_BATCH_SIZE = 5;
+const SCENARIO_BATCH_SIZE = 3;
+
+/**
+ * Why a run stopped before finishing
+ */
+export type StopReason = "pause" | "cancel";
+
+export interface RunControl {
+  /** Checked between batches; a non-null value stops the run at that point */
+  stopRequested: () => StopReason | null;
+  /** Called once the run stops executing, right before its final status is saved */
+  onSettling?: () => void;
+}
+
+/**
+ * Placeholder result for a scenario that has not been evaluated yet
+ */
+export function createPendingResult(scenarioId: string): ScenarioResult {
+  return {
+    scenarioId,
+    status: "pending",
+    rollouts: [],
+    meanPrediction: 0,
+    stdDeviation: 0,
+    minPrediction: 0,
+    maxPrediction: 0,
+    error: 0,
+    absoluteError: 0,
+    withinTolerance: false,
+    rolloutConsistency: 0,
+  };
+}
+
+/**
+ * Whether a run still has narratives left to generate
+ */
+function needsNarratives(run: BenchmarkRun): boolean {
+  return run.narrativesTotal !== undefined && (run.narrativesGenerated ?? 0) < run.narrativesTotal;
+}
+
+/**
+ * Calculate aggregate metrics over the finished scenarios of a run
+ */
+async function finalizeMetrics(run: BenchmarkRun): Promise<void> {
+  const domainConfig = await loadDomainConfig(run.domainId);
+  if (!domainConfig) return;
+
+  const completedResults = run.results.filter(r => r.status === "completed" || r.status === "failed");
+  if (completedResults.length === 0) return;
+
+  const baseMetrics = calculateAggregateMetrics(run.scenarios, completedResults);
+
+  // Calculate difficulty and error pattern summaries
+  const difficultyMetrics = calculateDifficultyMetrics(run.scenarios, domainConfig);
+  const errorPatternSummary = analyzeErrorPatterns(run.scenarios, completedResults, domainConfig);
+
+  // Merge all metrics - baseMetrics is guaranteed to have required fields
+  if (baseMetrics) {
+    run.aggregateMetrics = {
+      ...baseMetrics,
+      avgDifficulty: difficultyMetrics.avgDifficulty,
+      difficultyDistribution: difficultyMetrics.distribution,
+      errorPatternSummary,
+    };
+  }
+}
+
+/**
+ * Publish running metrics over the scenarios finished so far
+ */
+function emitLiveMetrics(run: BenchmarkRun): void {
+  const completedResults = run.results.filter(r => r.status === "completed" || r.status === "failed");
+  const aggregateMetrics = calculateAggregateMetrics(run.scenarios, completedResults);
+  if (!aggregateMetrics) return;
+
+  emitRunEvent(run.id, {
+    type: "aggregate_updated",
+    aggregateMetrics,
+    completedScenarios: completedResults.length,
+  });
+}
+
+/**
+ * Mark a run as stopped (paused or cancelled) and save it
+ */
+export async function stopRun(run: BenchmarkRun, reason: StopReason): Promise<void> {
+  // Scenarios that were mid-flight go back to pending so a resume picks them up
+  run.results = run.results.map((r) =>
+    r.status === "running" ? { ...r, status: "pending" } : r
+  );
+
+  if (reason === "pause") {
+    run.status = "paused";
+  } else {
+    // Scenarios waiting for a re-run or more rollouts keep the result of the
+    // rollouts they already have
+    run.results = run.results.map((r, i) =>
+      r.status === "pending" && r.rollouts.length > 0
+        ? { ...r, ...evaluateRollouts(run.scenarios[i], r.rollouts) }
+        : r
+    );
+    run.status = "cancelled";
+    run.rolloutsToAdd = undefined;
+    run.completedAt = new Date().toISOString();
+    await finalizeMetrics(run);
+  }
+
+  await saveBenchmarkRun(run);
+  emitRunEvent(run.id, { type: "status", status: run.status });
+}
+
+/**
+ * Generate LLM narratives for the scenarios that don't have one yet
+ */
+async function generateNarratives(run: BenchmarkRun, control: RunControl): Promise<StopReason | null> {
+  const domainConfig = await loadDomainConfig(run.domainId);
+  if (!domainConfig) {
+    throw new Error(`Domain "${run.domainId}" not found`);
+  }
+
+  const provider = (run.provider ?? DEFAULT_PROVIDER) as ProviderId;
+  const narrativeProvider = (run.narrativeProvider ?? DEFAULT_PROVIDER) as ProviderId;
+  const narrativeConfig = {
+    apiKey: getProviderApiKey(narrativeProvider),
+    model: run.narrativeModel,
+    provider: narrativeProvider,
+    baseUrl: narrativeProvider === provider
+      ? getProviderBaseUrl(provider, run.providerBaseUrl)
+      : getProviderBaseUrl(narrativeProvider),
+  };
+
+  run.status = "generating_narratives";
+  await saveBenchmarkRun(run);
+  emitRunEvent(run.id, { type: "status", status: run.status });
+
+  const total = run.narrativesTotal ?? run.scenarios.length;
+  console.log(`Generating ${total - (run.narrativesGenerated ?? 0)} scenarios with LLM-based narratives (parallel)...`);
+
+  for (let batchStart = run.narrativesGenerated ?? 0; batchStart < total; batchStart += NARRATIVE_BATCH_SIZE) {
+    const stop = control.stopRequested();
+    if (stop) return stop;
+
+    const batchEnd = Math.min(batchStart + NARRATIVE_BATCH_SIZE, total);
+    const batchIndices = Array.from({ length: batchEnd - batchStart }, (_, i) => batchStart + i);
+
+    // Generate narratives for this batch in parallel
+    const batchPromises = batchIndices.map(async (i) => {
+      const scenario = run.scenarios[i];
+      const narrativeSeed = (run.seed || Date.now()) + i * 1000;
+
+      try {
+        const narrative = await generateNarrativeDescription(
+          domainConfig,
+          scenario.anchor,
+          scenario.appliedDeltas,
+          scenario.distractors,
+          narrativeSeed,
+          narrativeConfig,
+          scenario.metrics
+        );
+
+        return {
+          index: i,
+          description: narrative.description,
+        };
+      } catch (error) {
+        console.error(`Failed to generate narrative for scenario ${i}:`, error);
+        return {
+          index: i,
+          description: generateFallbackDescriptionSync(
+            domainConfig,
+            scenario.anchor,
+            scenario.appliedDeltas,
+            scenario.distractors,
+            scenario.metrics
+          ),
+        };
+      }
+    });
+
+    const batchResults = await Promise.all(batchPromises);
+
+    // Update scenarios with generated narratives
+    for (const result of batchResults) {
+      run.scenarios[result.index] = {
+        ...run.scenarios[result.index],
+        contextDescription: result.description,
+      };
+    }
+
+    // Update progress
+    run.narrativesGenerated = batchEnd;
+    await saveBenchmarkRun(run);
+
+    for (const result of batchResults) {
+      emitRunEvent(run.id, {
+        type: "narrative_generated",
+        index: result.index,
+        contextDescription: result.description,
+        narrativesGenerated: batchEnd,
+        narrativesTotal: total,
+      });
+    }
+  }
+
+  console.log(`Generated ${total} scenarios with narratives`);
+  return null;
+}
+
+/**
+ * Evaluate every scenario that hasn't completed or failed yet
+ */
+async function evaluateScenarios(run: BenchmarkRun, control: RunControl): Promise<StopReason | null> {
+  const domainConfig = await loadDomainConfig(run.domainId);
+  const expertFacts = await loadExpertFacts(run.domainId);
+  if (!domainConfig || !expertFacts) {
+    throw new Error(`Domain "${run.domainId}" not found`);
+  }
+
+  const provider = (run.provider ?? DEFAULT_PROVIDER) as ProviderId;
+
+  // Replaying a run needs its recorded responses
+  let cassette;
+  if (provider === "mock" && run.replayRunId) {
+    const replayRun = await loadBenchmarkRun(run.replayRunId);
+    if (!replayRun) {
+      throw new Error(`Replay run "${run.replayRunId}" not found`);
+    }
+    cassette = buildCassetteFromRun(replayRun);
+  }
+
+  const cache = run.useCache === false ? undefined : createResponseCache(run.cacheStats);
+
+  const config: OpenRouterConfig = {
+    apiKey: getProviderApiKey(provider),
+    model: run.model,
+    temperature: 0.3,
+    provider,
+    baseUrl: getProviderBaseUrl(provider, run.providerBaseUrl),
+    mock: provider === "mock"
+      ? { cassette, noiseStdDev: run.mockNoiseStdDev, seed: run.seed }
+      : undefined,
+    retry: run.maxRetries !== undefined ? { maxRetries: run.maxRetries } : undefined,
+    maxConcurrency: run.maxConcurrency,
+    cache,
+    structuredOutput: run.structuredOutput,
+  };
+
+  // Optional judge pass over each scenario's reasoning
+  let judge: JudgeOptions | undefined;
+  if (run.judgeModel) {
+    const templateName = run.judgeTemplate ?? DEFAULT_JUDGE_TEMPLATE;
+    const template = await loadJudgeTemplate(templateName);
+    if (!template) {
+      throw new Error(`Judge template "${templateName}" not found`);
+    }
+    const judgeProvider = (run.judgeProvider ?? DEFAULT_PROVIDER) as ProviderId;
+    judge = {
+      template,
+      templateName,
+      config: {
+        apiKey: getProviderApiKey(judgeProvider),
+        model: run.judgeModel,
+        temperature: 0,
+        provider: judgeProvider,
+        baseUrl: judgeProvider === provider
+          ? getProviderBaseUrl(provider, run.providerBaseUrl)
+          : getProviderBaseUrl(judgeProvider),
+        retry: config.retry,
+      },
+    };
+  }
+
+  run.status = "running";
+  await saveBenchmarkRun(run);
+  emitRunEvent(run.id, { type: "status", status: run.status });
+
+  // Anything left "running" by an interrupted process is evaluated again
+  const remaining = run.results
+    .map((r, i) => ({ status: r.status, index: i }))
+    .filter(({ status }) => status === "pending" || status === "running")
+    .map(({ index }) => index);
+
+  for (let batchStart = 0; batchStart < remaining.length; batchStart += SCENARIO_BATCH_SIZE) {
+    const stop = control.stopRequested();
+    if (stop) return stop;
+
+    const batchIndices = remaining.slice(batchStart, batchStart + SCENARIO_BATCH_SIZE);
+
+    // Mark scenarios in this batch as running
+    const scenarioStartTimes: Record<number, string> = {};
+    for (const i of batchIndices) {
+      const scenarioStartedAt = new Date().toISOString();
+      scenarioStartTimes[i] = scenarioStartedAt;
+      run.results[i] = {
+        ...run.results[i],
+        status: "running",
+        startedAt: scenarioStartedAt,
+      };
+      emitRunEvent(run.id, { type: "scenario_started", index: i, startedAt: scenarioStartedAt });
+    }
+    await saveBenchmarkRun(run);
+
+    // Run this batch of scenarios in parallel
+    const batchPromises = batchIndices.map(async (i) => {
+      const scenario = run.scenarios[i];
+      const scenarioStartedAt = scenarioStartTimes[i];
+      // Re-run scenarios keep their earlier rollouts; new ones are appended
+      const previousRollouts = run.results[i].rollouts;
+
+      const prompt = renderPrompt(
+        run.promptTemplate,
+        domainConfig,
+        expertFacts,
+        scenario
+      );
+
+      try {
+        // Run multiple rollouts for variance estimation
+        const llmResults = await callOpenRouterMultiple(
+          prompt,
+          {
+            ...config,
+            context: { scenario, domainConfig, rolloutIndex: previousRollouts.length },
+            onRetry: (retry) => emitRunEvent(run.id, { type: "rollout_retrying", index: i, ...retry }),
+          },
+          // Re-runs add the run's original number of rollouts, not the topped-up total
+          run.rolloutsToAdd ?? run.rolloutsPerScenario - (run.rolloutsAdded ?? 0),
+          (llmResult, rolloutIndex) =>
+            emitRunEvent(run.id, {
+              type: "rollout_completed",
+              index: i,
+              rolloutIndex,
+              prediction: llmResult.prediction.estimate,
+              latencyMs: llmResult.latencyMs,
+              status: llmResult.status,
+              error: llmResult.error,
+            })
+        );
+        const result = evaluateRollouts(scenario, [...previousRollouts, ...toRolloutResults(llmResults)]);
+
+        // Calculate additional metrics
+        const difficulty = calculateScenarioDifficulty(scenario, domainConfig);
+        const errorPattern = result.status === "completed"
+          ? detectErrorPattern(scenario, result, domainConfig)
+          : undefined;
+        const judgeResult = judge && result.status === "completed"
+          ? await judgeScenarioResult(scenario, { ...result, judge: run.results[i].judge }, domainConfig, judge)
+          : run.results[i].judge;
+
+        return {
+          index: i,
+          result: {
+            ...result,
+            startedAt: scenarioStartedAt,
+            completedAt: new Date().toISOString(),
+            difficulty,
+            errorPattern,
+            judge: judgeResult,
+            renderedPrompt: prompt,
+          },
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        const failedRollout: RolloutResult = {
+          prediction: 0,
+          reasoning: `Error: ${message}`,
+          latencyMs: 0,
+          status: "http_error",
+          error: message,
+        };
+        // Scored like a scenario whose rollouts all failed; earlier rollouts are kept
+        return {
+          index: i,
+          result: {
+            ...evaluateRollouts(scenario, [failedRollout]),
+            rollouts: [...previousRollouts, failedRollout],
+            startedAt: scenarioStartedAt,
+            completedAt: new Date().toISOString(),
+            renderedPrompt: prompt,
+          },
+        };
+      }
+    });
+
+    const batchResults = await Promise.all(batchPromises);
+
+    // Update results
+    for (const { index, result } of batchResults) {
+      run.results[index] = result;
+    }
+    if (cache) {
+      run.cacheStats = { ...cache.stats };
+    }
+
+    // Save after each batch completes
+    await saveBenchmarkRun(run);
+
+    for (const { index, result } of batchResults) {
+      emitRunEvent(run.id, { type: "scenario_evaluated", index, result });
+    }
+    emitLiveMetrics(run);
+  }
+
+  return null;
+}
+
+/**
+ * Execute a run from its saved state until it completes, fails or is stopped.
+ * Returns the final run state.
+ */
+export async function executeRun(runId: string, control: RunControl): Promise<BenchmarkRun | null> {
+  const run = await loadBenchmarkRun(runId);
+  if (!run) return null;
+
+  if (!run.startedAt) {
+    run.startedAt = new Date().toISOString();
+  }
+
+  try {
+    if (needsNarratives(run)) {
+      const stop = await generateNarratives(run, control);
+      if (stop) {
+        control.onSettling?.();
+        await stopRun(run, stop);
+        return run;
+      }
+    }
+
+    const stop = await evaluateScenarios(run, control);
+    if (stop) {
+      control.onSettling?.();
+      await stopRun(run, stop);
+      return run;
+    }
+
+    // Calculate aggregate metrics and mark run as completed
+    await finalizeMetrics(run);
+    control.onSettling?.();
+    run.status = "completed";
+    run.rolloutsToAdd = undefined;
+    run.completedAt = new Date().toISOString();
+    await saveBenchmarkRun(run);
+    emitRunEvent(run.id, { type: "status", status: run.status });
+  } catch (error) {
+    console.error(`Run ${runId} failed:`, error);
+    control.onSettling?.();
+    run.status = "failed";
+    run.rolloutsToAdd = undefined;
+    run.statusMessage = error instanceof Error ? error.message : "Unknown error";
+    run.completedAt = new Date().toISOString();
+    await saveBenchmarkRun(run);
+    emitRunEvent(run.id, { type: "status", status: run.status, statusMessage: run.statusMessage });
+  }
+
+  return run;
+}
@@ -0,0 +1,273 @@
+/**
+ * Background Run Queue
+ *
+ * Runs are persisted first and executed here, outside the request that
+ * created them. The queue lives in process memory; the run files are the
+ * source of truth, so runs interrupted by a restart are re-queued from their
+ * saved state on startup (server-side only).
+ */
+
+import type { BenchmarkRun } from "@/domains/schema";
+import {
+  listBenchmarkRuns,
+  loadBenchmarkRun,
+  saveBenchmarkRun,
+  deleteBenchmarkRun,
+} from "@/lib/storage";
+import { executeRun, stopRun, type StopReason } from "@/lib/run-executor";
+import { emitRunEvent, SETTLED_RUN_STATUSES } from "@/lib/run-events";
+
+// Number of runs executed at the same time
+const MAX_CONCURRENT_RUNS = 2;
+
+// Same bound as rolloutsPerScenario at run creation
+const MAX_ROLLOUTS_TO_ADD = 10;
+
+type StopAction = StopReason | "discard";
+
+interface RunQueueState {
+  /** Run IDs waiting to start, in order */
+  pending: string[];
+  /** Runs currently executing, with any requested stop */
+  active: Map<string, StopAction | null>;
+  /** Runs saving their final status, with a discard requested meanwhile */
+  settling: Map<string, StopAction | null>;
+  recovered: boolean;
+}
+
+// Kept on globalThis so dev-server module reloads don't lose track of active runs
+const globalForQueue = globalThis as unknown as { __runQueue?: RunQueueState };
+const state: RunQueueState = (globalForQueue.__runQueue ??= {
+  pending: [],
+  active: new Map(),
+  settling: new Map(),
+  recovered: false,
+});
+
+/**
+ * Start queued runs while there is capacity
+ */
+function pump(): void {
+  while (state.active.size < MAX_CONCURRENT_RUNS && state.pending.length > 0) {
+    const runId = state.pending.shift()!;
+    state.active.set(runId, null);
+    let settling = false;
+
+    executeRun(runId, {
+      stopRequested: () => {
+        const action = state.active.get(runId) ?? null;
+        return action === "discard" ? "cancel" : action;
+      },
+      // Leave the active set before the final status is saved, so a resume
+      // that sees it can queue the run again
+      onSettling: () => {
+        settling = true;
+        state.settling.set(runId, state.active.get(runId) ?? null);
+        state.active.delete(runId);
+      },
+    })
+      .catch((error) => console.error(`Run ${runId} crashed:`, error))
+      .finally(async () => {
+        const slot = settling ? state.settling : state.active;
+        const action = slot.get(runId);
+        slot.delete(runId);
+        if (action === "discard") {
+          await deleteBenchmarkRun(runId);
+        }
+        pump();
+      });
+  }
+}
+
+/**
+ * Add a saved run to the queue
+ */
+export function enqueueRun(runId: string): void {
+  if (state.active.has(runId) || state.pending.includes(runId)) return;
+  state.pending.push(runId);
+  pump();
+}
+
+/**
+ * Remove a run from the pending queue; returns whether it was queued
+ */
+function dequeue(runId: string): boolean {
+  const index = state.pending.indexOf(runId);
+  if (index === -1) return false;
+  state.pending.splice(index, 1);
+  return true;
+}
+
+/**
+ * Whether a run is currently executing
+ */
+export function isRunActive(runId: string): boolean {
+  return state.active.has(runId);
+}
+
+const STOPPABLE_STATUSES: BenchmarkRun["status"][] = ["queued", "generating_narratives", "running", "paused"];
+
+/**
+ * Stop a run. Active runs stop after their current batch; queued and paused
+ * runs are updated immediately.
+ */
+async function requestStop(runId: string, reason: StopReason): Promise<BenchmarkRun> {
+  const run = await loadBenchmarkRun(runId);
+  if (!run) {
+    throw new Error("Run not found");
+  }
+  if (!STOPPABLE_STATUSES.includes(run.status) || (reason === "pause" && run.status === "paused")) {
+    throw new Error(`Cannot ${reason} a run that is ${run.status}`);
+  }
+
+  if (state.active.has(runId)) {
+    state.active.set(runId, reason);
+    return run;
+  }
+
+  dequeue(runId);
+  await stopRun(run, reason);
+  return run;
+}
+
+/**
+ * Pause a run; it keeps its progress and can be resumed later
+ */
+export async function pauseRun(runId: string): Promise<BenchmarkRun> {
+  return requestStop(runId, "pause");
+}
+
+/**
+ * Cancel a run; finished scenarios are kept and summarized
+ */
+export async function cancelRun(runId: string): Promise<BenchmarkRun> {
+  return requestStop(runId, "cancel");
+}
+
+/**
+ * Re-queue a paused run from its saved state
+ */
+export async function resumeRun(runId: string): Promise<BenchmarkRun> {
+  const run = await loadBenchmarkRun(runId);
+  if (!run) {
+    throw new Error("Run not found");
+  }
+  if (run.status !== "paused") {
+    throw new Error(`Cannot resume a run that is ${run.status}`);
+  }
+  if (state.active.has(runId)) {
+    throw new Error("Cannot resume a run that is still stopping");
+  }
+
+  run.status = "queued";
+  await saveBenchmarkRun(run);
+  emitRunEvent(runId, { type: "status", status: run.status });
+  enqueueRun(runId);
+  return run;
+}
+
+/**
+ * Re-queue selected scenarios of a finished, stopped or failed run. By
+ * default every failed or pending scenario is re-run. New rollouts are
+ * appended to the existing ones and the run's metrics are recomputed.
+ */
+export async function rerunScenarios(runId: string, scenarioIds?: string[]): Promise<BenchmarkRun> {
+  const run = await loadBenchmarkRun(runId);
+  if (!run) {
+    throw new Error("Run not found");
+  }
+  if (!SETTLED_RUN_STATUSES.includes(run.status) || state.active.has(runId)) {
+    throw new Error(`Cannot re-run scenarios of a run that is ${run.status}`);
+  }
+
+  const selected = scenarioIds
+    ? new Set(scenarioIds)
+    : new Set(run.results.filter((r) => r.status === "failed" || r.status === "pending").map((r) => r.scenarioId));
+  const unknown = [...selected].filter((id) => !run.results.some((r) => r.scenarioId === id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown scenario IDs: ${unknown.join(", ")}`);
+  }
+  if (selected.size === 0) {
+    throw new Error("No failed or pending scenarios to re-run");
+  }
+
+  run.results = run.results.map((result) =>
+    selected.has(result.scenarioId) ? { ...result, status: "pending" } : result
+  );
+  run.status = "queued";
+  run.statusMessage = undefined;
+  run.completedAt = undefined;
+  await saveBenchmarkRun(run);
+  emitRunEvent(runId, { type: "status", status: run.status });
+  enqueueRun(runId);
+  return run;
+}
+
+/**
+ * Top up a completed run with more rollouts for every scenario. Earlier
+ * rollouts are kept, so scenario variance and the run's metrics are
+ * recomputed over all of them.
+ */
+export async function addRollouts(runId: string, count: number): Promise<BenchmarkRun> {
+  const run = await loadBenchmarkRun(runId);
+  if (!run) {
+    throw new Error("Run not found");
+  }
+  if (run.status !== "completed" || state.active.has(runId)) {
+    throw new Error(`Cannot add rollouts to a run that is ${run.status}`);
+  }
+  if (!Number.isInteger(count) || count < 1 || count > MAX_ROLLOUTS_TO_ADD) {
+    throw new Error(`Rollouts to add must be a whole number between 1 and ${MAX_ROLLOUTS_TO_ADD}`);
+  }
+
+  run.results = run.results.map((result) => ({ ...result, status: "pending" }));
+  run.rolloutsPerScenario += count;
+  run.rolloutsAdded = (run.rolloutsAdded ?? 0) + count;
+  run.rolloutsToAdd = count;
+  run.status = "queued";
+  run.statusMessage = undefined;
+  run.completedAt = undefined;
+  await saveBenchmarkRun(run);
+  emitRunEvent(runId, { type: "status", status: run.status });
+  enqueueRun(runId);
+  return run;
+}
+
+/**
+ * Stop a run (if needed) and delete it once it is no longer executing
+ */
+export async function discardRun(runId: string): Promise<boolean> {
+  dequeue(runId);
+  if (state.active.has(runId)) {
+    state.active.set(runId, "discard");
+    return true;
+  }
+  if (state.settling.has(runId)) {
+    state.settling.set(runId, "discard");
+    return true;
+  }
+  return deleteBenchmarkRun(runId);
+}
+
+/**
+ * Re-queue runs that were interrupted by a server restart. Runs only once
+ * per process.
+ */
+export async function recoverInterruptedRuns(): Promise<void> {
+  if (state.recovered) return;
+  state.recovered = true;
+
+  const runs = await listBenchmarkRuns();
+  const interrupted = runs
+    .filter((run) => ["queued", "generating_narratives", "running"].includes(run.status))
+    .filter((run) => !state.active.has(run.id))
+    // Oldest first, so runs resume in the order they were created
+    .reverse();
+
+  for (const run of interrupted) {
+    console.log(`Resuming interrupted run ${run.id} (${run.status})`);
+    run.status = "queued";
+    await saveBenchmarkRun(run);
+    enqueueRun(run.id);
+  }
+}
@@ -6,7 +6,7 @@
  * imported by both client and server components.
  */
 
-import type { Scenario } from "@/domains/schema";
+import type { Scenario, TwinChange } from "@/domains/schema";
 
 /**
  * Get twin pairs from a list of scenarios
@@ -30,3 +30,15 @@ export function getTwinPairs(
 
   return pairs;
 }
+
+/**
+ * Delta keys removed and added going from a scenario to its twin. Falls
+ * back to comparing applied deltas for scenarios without twinChange.
+ */
+export function getTwinChange(scenario: Scenario, twin: Scenario): TwinChange {
+  if (scenario.twinChange) return scenario.twinChange;
+  return {
+    removed: scenario.appliedDeltas.find((key) => !twin.appliedDeltas.includes(key)),
+    added: twin.appliedDeltas.find((key) => !scenario.appliedDeltas.includes(key)),
+  };
+}
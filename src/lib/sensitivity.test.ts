@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { DomainConfigSchema, type RolloutResult, type Scenario } from "@/domains/schema";
+import { evaluateRollouts } from "./evaluator";
+import { analyzeDeltaSensitivity } from "./sensitivity";
+
+const delta = { type: "additive" as const, value: 0.1, description: "" };
+
+const domain = DomainConfigSchema.parse({
+  id: "test",
+  name: "Test",
+  description: "",
+  outputUnit: "%",
+  anchors: { office: { value: 5, description: "" } },
+  deltas: { short: delta, long: delta },
+  distractors: [],
+});
+
+function scenario(id: string, value: number, appliedDeltas: string[], twinId?: string): Scenario {
+  return {
+    id,
+    anchor: "office",
+    appliedDeltas,
+    distractors: [],
+    contextDescription: "",
+    groundTruth: { value, tolerance: 0.25, calculation: "" },
+    twinId,
+  };
+}
+
+function rollout(prediction: number, extra: Partial<RolloutResult> = {}): RolloutResult {
+  return { prediction, reasoning: "", latencyMs: 100, status: "ok", ...extra };
+}
+
+describe("analyzeDeltaSensitivity", () => {
+  it("orients each twin pair so the delta is applied and fits an elasticity per delta", () => {
+    // a → b adds long; c → d swaps long for short; e → f has a failed twin
+    const scenarios = [
+      scenario("a", 5, [], "b"),
+      scenario("b", 5.5, ["long"]),
+      scenario("c", 6, ["long"], "d"),
+      scenario("d", 5.8, ["short"]),
+      scenario("e", 5, [], "f"),
+      scenario("f", 5.5, ["long"]),
+    ];
+    const predictions = [5, 5.25, 6, 6.1, 5, 0];
+    const results = scenarios.map((s, i) =>
+      evaluateRollouts(s, [rollout(predictions[i], s.id === "f" ? { status: "http_error", error: "HTTP 500" } : {})])
+    );
+
+    const [short, long] = analyzeDeltaSensitivity(domain, scenarios, results);
+
+    expect(short.deltaKey).toBe("short");
+    expect(short.isolatedPairs).toBe(0);
+    expect(short.signAccuracy).toBe(0);
+    expect(short.elasticity).toBeCloseTo(-0.5, 6);
+
+    expect(long.deltaKey).toBe("long");
+    expect(long.shifts).toHaveLength(2);
+    expect(long.isolatedPairs).toBe(1);
+    expect(long.meanExpectedShift).toBeCloseTo(0.35, 6);
+    expect(long.meanPredictedShift).toBeCloseTo(0.075, 6);
+    expect(long.signAccuracy).toBe(50);
+    // (0.5·0.25 + 0.2·-0.1) / (0.5² + 0.2²)
+    expect(long.elasticity).toBeCloseTo(0.105 / 0.29, 6);
+  });
+});
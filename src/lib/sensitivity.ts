@@ -0,0 +1,125 @@
+/**
+ * Delta Sensitivity
+ *
+ * Per-delta analysis of twin pairs: for each adjustment in a domain, how
+ * far the ground truth moves when the delta is applied versus how far the
+ * model's prediction moves. Shows which adjustments a model under- or
+ * over-weights, rather than one directional-accuracy percentage.
+ *
+ * This module contains only pure functions that can be safely imported by
+ * both client and server components.
+ */
+
+import type { DomainConfig, Scenario, ScenarioResult } from "@/domains/schema";
+import { getTwinChange, getTwinPairs } from "./scenario-utils";
+import { mean } from "./statistics";
+
+/** Elasticity below which a delta is flagged as under-weighted */
+export const UNDER_WEIGHTED_ELASTICITY = 0.8;
+/** Elasticity above which a delta is flagged as over-weighted */
+export const OVER_WEIGHTED_ELASTICITY = 1.25;
+
+export interface DeltaShift {
+  /** Scenario without the delta */
+  fromId: string;
+  /** Scenario with the delta */
+  toId: string;
+  expectedShift: number;
+  predictedShift: number;
+  /** The pair differs only by this delta (no other delta swapped in) */
+  isolated: boolean;
+}
+
+export interface DeltaSensitivity {
+  deltaKey: string;
+  description?: string;
+  type?: "additive" | "multiplicative";
+  shifts: DeltaShift[];
+  isolatedPairs: number;
+  meanExpectedShift: number;
+  meanPredictedShift: number;
+  /** % of pairs where the prediction moved in the same direction as the ground truth */
+  signAccuracy?: number;
+  /** Slope of predicted on expected shift; 1 = fully weighted, below 1 = under-weighted */
+  elasticity?: number;
+}
+
+/**
+ * Sensitivity of a run's predictions to each delta of the domain. Every
+ * completed twin pair counts for the deltas it changes, oriented so the
+ * delta is being applied. Pairs that swap one delta for another also
+ * carry the other delta's effect; `isolatedPairs` counts the clean ones.
+ */
+export function analyzeDeltaSensitivity(
+  domain: DomainConfig | undefined,
+  scenarios: Scenario[],
+  results: ScenarioResult[]
+): DeltaSensitivity[] {
+  const predictions = new Map(
+    results.filter((r) => r.status === "completed").map((r) => [r.scenarioId, r.meanPrediction])
+  );
+  const shiftsByDelta = new Map<string, DeltaShift[]>();
+
+  for (const { original, twin } of getTwinPairs(scenarios)) {
+    const originalPrediction = predictions.get(original.id);
+    const twinPrediction = predictions.get(twin.id);
+    if (originalPrediction === undefined || twinPrediction === undefined) continue;
+
+    const change = getTwinChange(original, twin);
+    const isolated = !change.removed || !change.added;
+    const toTwin = {
+      expectedShift: twin.groundTruth.value - original.groundTruth.value,
+      predictedShift: twinPrediction - originalPrediction,
+    };
+
+    // The twin applies `added`; the original applies `removed`
+    if (change.added) {
+      const shifts = shiftsByDelta.get(change.added) ?? [];
+      shifts.push({ fromId: original.id, toId: twin.id, ...toTwin, isolated });
+      shiftsByDelta.set(change.added, shifts);
+    }
+    if (change.removed) {
+      const shifts = shiftsByDelta.get(change.removed) ?? [];
+      shifts.push({
+        fromId: twin.id,
+        toId: original.id,
+        expectedShift: -toTwin.expectedShift,
+        predictedShift: -toTwin.predictedShift,
+        isolated,
+      });
+      shiftsByDelta.set(change.removed, shifts);
+    }
+  }
+
+  // Domain order first, then any keys the domain no longer defines
+  const deltaKeys = [
+    ...Object.keys(domain?.deltas ?? {}),
+    ...Array.from(shiftsByDelta.keys()).filter((key) => !domain?.deltas[key]),
+  ];
+
+  return deltaKeys
+    .filter((key) => shiftsByDelta.has(key))
+    .map((deltaKey) => {
+      const shifts = shiftsByDelta.get(deltaKey)!;
+      const signed = shifts.filter((s) => s.expectedShift !== 0);
+      const sumSquares = shifts.reduce((sum, s) => sum + s.expectedShift * s.expectedShift, 0);
+      const sumProducts = shifts.reduce((sum, s) => sum + s.expectedShift * s.predictedShift, 0);
+
+      return {
+        deltaKey,
+        description: domain?.deltas[deltaKey]?.description,
+        type: domain?.deltas[deltaKey]?.type,
+        shifts,
+        isolatedPairs: shifts.filter((s) => s.isolated).length,
+        meanExpectedShift: mean(shifts.map((s) => s.expectedShift)),
+        meanPredictedShift: mean(shifts.map((s) => s.predictedShift)),
+        ...(signed.length > 0 && {
+          signAccuracy:
+            (signed.filter((s) => Math.sign(s.predictedShift) === Math.sign(s.expectedShift)).length /
+              signed.length) *
+            100,
+        }),
+        ...(sumSquares > 0 && { elasticity: sumProducts / sumSquares }),
+      };
+    });
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { pairedPermutationTest, wilcoxonSignedRankTest } from "./significance";
+
+describe("pairedPermutationTest", () => {
+  it("enumerates sign flips exactly for small samples", () => {
+    // Of the 8 sign flips of [1, 2, 3], only ±6 reach the observed sum
+    expect(pairedPermutationTest([1, 2, 3])).toBe(0.25);
+    expect(pairedPermutationTest([1, 1, 1, 1])).toBe(0.125);
+  });
+
+  it("gives p = 1 when differences cancel out", () => {
+    expect(pairedPermutationTest([1, -1, 1, -1])).toBe(1);
+    expect(pairedPermutationTest([])).toBe(1);
+  });
+
+  it("never returns 0 in Monte Carlo mode", () => {
+    const p = pairedPermutationTest(Array.from({ length: 20 }, (_, i) => i + 1));
+    expect(p).toBeCloseTo(1 / 2001, 6);
+  });
+});
+
+describe("wilcoxonSignedRankTest", () => {
+  it("matches the normal approximation for five positive differences", () => {
+    // W+ = 15, E = 7.5, Var = 13.75, z = (7.5 - 0.5) / sqrt(13.75)
+    expect(wilcoxonSignedRankTest([1, 2, 3, 4, 5])).toBeCloseTo(0.0591, 4);
+  });
+
+  it("gives p = 1 for symmetric or zero differences", () => {
+    expect(wilcoxonSignedRankTest([1, -1, 2, -2])).toBeCloseTo(1, 6);
+    expect(wilcoxonSignedRankTest([0, 0])).toBe(1);
+  });
+});
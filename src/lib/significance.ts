@@ -0,0 +1,243 @@
+/**
+ * Significance Testing
+ *
+ * Paired comparisons between benchmark configurations (model + prompt
+ * strategy) evaluated on the same test set: bootstrap confidence intervals
+ * for hit rate, RMSE and directional accuracy, and paired tests on the
+ * per-scenario absolute error. Resampling is seeded, so the same runs
+ * always give the same intervals and p-values.
+ *
+ * This module contains only pure functions that can be safely imported by
+ * both client and server components.
+ */
+
+import type { BenchmarkRun } from "@/domains/schema";
+import { getDirectionalOutcomes } from "./evaluator";
+import {
+  DEFAULT_ITERATIONS,
+  DEFAULT_SEED,
+  bootstrapCI,
+  createRng,
+  mean,
+  normalCdf,
+  type ConfidenceInterval,
+  type ResamplingOptions,
+} from "./statistics";
+
+export type { ConfidenceInterval, ResamplingOptions } from "./statistics";
+
+/** p-value below which a difference is reported as significant */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+// Sign flips are enumerated exactly up to this many pairs (2^16 permutations)
+const MAX_EXACT_PERMUTATION_PAIRS = 16;
+
+/**
+ * Two-sided paired permutation (sign-flip) test on per-item differences.
+ * Exact for small samples, Monte Carlo otherwise. Returns the p-value.
+ */
+export function pairedPermutationTest(differences: number[], options: ResamplingOptions = {}): number {
+  const n = differences.length;
+  if (n === 0) return 1;
+
+  // Small tolerance so permutations equal to the observed sum count as extreme
+  const observed = Math.abs(differences.reduce((sum, d) => sum + d, 0)) - 1e-9;
+
+  if (n <= MAX_EXACT_PERMUTATION_PAIRS) {
+    const total = 1 << n;
+    let extreme = 0;
+    for (let mask = 0; mask < total; mask++) {
+      let sum = 0;
+      for (let i = 0; i < n; i++) {
+        sum += mask & (1 << i) ? -differences[i] : differences[i];
+      }
+      if (Math.abs(sum) >= observed) extreme++;
+    }
+    return extreme / total;
+  }
+
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  const rng = createRng(options.seed ?? DEFAULT_SEED);
+  let extreme = 0;
+  for (let i = 0; i < iterations; i++) {
+    let sum = 0;
+    for (const d of differences) {
+      sum += rng() < 0.5 ? -d : d;
+    }
+    if (Math.abs(sum) >= observed) extreme++;
+  }
+  // Include the observed arrangement so the p-value is never 0
+  return (extreme + 1) / (iterations + 1);
+}
+
+/**
+ * Two-sided Wilcoxon signed-rank test on per-item differences, using the
+ * normal approximation with tie and continuity corrections. Zero
+ * differences are dropped. Returns the p-value.
+ */
+export function wilcoxonSignedRankTest(differences: number[]): number {
+  const nonZero = differences.filter((d) => Math.abs(d) > 1e-12);
+  const n = nonZero.length;
+  if (n === 0) return 1;
+
+  // Rank absolute differences, averaging ranks of ties
+  const sorted = nonZero
+    .map((d) => ({ d, abs: Math.abs(d) }))
+    .sort((a, b) => a.abs - b.abs);
+  let positiveRankSum = 0;
+  let tieCorrection = 0;
+  for (let i = 0; i < n; ) {
+    let j = i;
+    while (j + 1 < n && sorted[j + 1].abs === sorted[i].abs) j++;
+    const rank = (i + j + 2) / 2;
+    const ties = j - i + 1;
+    tieCorrection += ties * ties * ties - ties;
+    for (let k = i; k <= j; k++) {
+      if (sorted[k].d > 0) positiveRankSum += rank;
+    }
+    i = j + 1;
+  }
+
+  const expected = (n * (n + 1)) / 4;
+  const variance = (n * (n + 1) * (2 * n + 1)) / 24 - tieCorrection / 48;
+  if (variance <= 0) return 1;
+
+  const deviation = Math.max(0, Math.abs(positiveRankSum - expected) - 0.5);
+  const z = deviation / Math.sqrt(variance);
+  return Math.min(1, 2 * (1 - normalCdf(z)));
+}
+
+/**
+ * Outcome of one scenario, averaged over the runs of a configuration
+ */
+export interface ScenarioOutcome {
+  absoluteError: number;
+  squaredError: number;
+  /** Share of runs within tolerance (0-1) */
+  hit: number;
+}
+
+export interface ConfigurationSummary {
+  key: string;
+  model: string;
+  promptStrategy: string;
+  runIds: string[];
+  /** Per-scenario outcomes by scenario ID (failed scenarios excluded) */
+  outcomes: Record<string, ScenarioOutcome>;
+  /** Share of runs with the right direction, by twin pair ("originalId:twinId") */
+  directional: Record<string, number>;
+  meanAbsoluteError: number;
+  hitRate?: ConfidenceInterval;
+  rmse?: ConfidenceInterval;
+  directionalAccuracy?: ConfidenceInterval;
+}
+
+/**
+ * Configuration a run belongs to
+ */
+export function getConfigurationKey(run: BenchmarkRun): string {
+  return `${run.model}::${run.promptStrategy}`;
+}
+
+/**
+ * Group runs by model and prompt strategy
+ */
+export function groupRunsByConfiguration(runs: BenchmarkRun[]): Record<string, BenchmarkRun[]> {
+  return runs.reduce((acc, run) => {
+    const key = getConfigurationKey(run);
+    if (!acc[key]) acc[key] = [];
+    acc[key].push(run);
+    return acc;
+  }, {} as Record<string, BenchmarkRun[]>);
+}
+
+/**
+ * Per-scenario outcomes and bootstrap intervals for the runs of one
+ * configuration. Repeated runs are averaged per scenario.
+ */
+export function summarizeConfiguration(
+  runs: BenchmarkRun[],
+  options: ResamplingOptions = {}
+): ConfigurationSummary {
+  const totals: Record<string, { absoluteError: number; squaredError: number; hits: number; count: number }> = {};
+  const directionalTotals: Record<string, { correct: number; count: number }> = {};
+
+  for (const run of runs) {
+    const results = run.results.filter((r) => r.status === "completed");
+    for (const result of results) {
+      const total = (totals[result.scenarioId] ??= { absoluteError: 0, squaredError: 0, hits: 0, count: 0 });
+      total.absoluteError += result.absoluteError;
+      total.squaredError += result.error * result.error;
+      total.hits += result.withinTolerance ? 1 : 0;
+      total.count++;
+    }
+    for (const outcome of getDirectionalOutcomes(run.scenarios, results)) {
+      const total = (directionalTotals[`${outcome.originalId}:${outcome.twinId}`] ??= { correct: 0, count: 0 });
+      total.correct += outcome.correct ? 1 : 0;
+      total.count++;
+    }
+  }
+
+  const outcomes: Record<string, ScenarioOutcome> = {};
+  for (const [scenarioId, total] of Object.entries(totals)) {
+    outcomes[scenarioId] = {
+      absoluteError: total.absoluteError / total.count,
+      squaredError: total.squaredError / total.count,
+      hit: total.hits / total.count,
+    };
+  }
+  const directional: Record<string, number> = {};
+  for (const [pairId, total] of Object.entries(directionalTotals)) {
+    directional[pairId] = total.correct / total.count;
+  }
+
+  const outcomeList = Object.values(outcomes);
+  const directionalList = Object.values(directional);
+
+  return {
+    key: getConfigurationKey(runs[0]),
+    model: runs[0].model,
+    promptStrategy: runs[0].promptStrategy,
+    runIds: runs.map((r) => r.id),
+    outcomes,
+    directional,
+    meanAbsoluteError: outcomeList.length > 0 ? mean(outcomeList.map((o) => o.absoluteError)) : 0,
+    hitRate: bootstrapCI(outcomeList, (sample) => mean(sample.map((o) => o.hit)) * 100, options),
+    rmse: bootstrapCI(outcomeList, (sample) => Math.sqrt(mean(sample.map((o) => o.squaredError))), options),
+    directionalAccuracy: bootstrapCI(directionalList, (sample) => mean(sample) * 100, options),
+  };
+}
+
+export interface PairedComparison {
+  /** Scenarios completed by both configurations */
+  sharedScenarios: number;
+  /** Mean absolute error of B minus A; negative means B is more accurate */
+  meanDifference?: ConfidenceInterval;
+  permutationPValue: number;
+  wilcoxonPValue: number;
+  significant: boolean;
+}
+
+/**
+ * Compare two configurations on the scenarios both completed, using the
+ * per-scenario absolute error
+ */
+export function comparePaired(
+  a: ConfigurationSummary,
+  b: ConfigurationSummary,
+  options: ResamplingOptions = {}
+): PairedComparison {
+  const differences = Object.keys(a.outcomes)
+    .filter((scenarioId) => b.outcomes[scenarioId] !== undefined)
+    .map((scenarioId) => b.outcomes[scenarioId].absoluteError - a.outcomes[scenarioId].absoluteError);
+
+  const permutationPValue = pairedPermutationTest(differences, options);
+
+  return {
+    sharedScenarios: differences.length,
+    meanDifference: bootstrapCI(differences, mean, options),
+    permutationPValue,
+    wilcoxonPValue: wilcoxonSignedRankTest(differences),
+    significant: differences.length > 0 && permutationPValue < SIGNIFICANCE_LEVEL,
+  };
+}
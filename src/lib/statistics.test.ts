@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  bootstrapCI,
+  createRng,
+  mean,
+  normalCdf,
+  normalCrps,
+  normalQuantile,
+  pinballLoss,
+  quantile,
+  wilsonInterval,
+} from "./statistics";
+
+describe("normal distribution", () => {
+  it("matches tabulated values", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 4);
+    expect(normalCdf(-1.96)).toBeCloseTo(0.025, 4);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.96, 2);
+  });
+});
+
+describe("quantile", () => {
+  it("interpolates between sorted values", () => {
+    expect(quantile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(quantile([1, 2, 3, 4], 0)).toBe(1);
+    expect(quantile([1, 2, 3, 4], 1)).toBe(4);
+  });
+});
+
+describe("predictive scores", () => {
+  it("weights pinball loss by the quantile level", () => {
+    expect(pinballLoss(5, 4, 0.9)).toBeCloseTo(0.9, 10);
+    expect(pinballLoss(4, 5, 0.9)).toBeCloseTo(0.1, 10);
+  });
+
+  it("matches the closed-form CRPS of a standard normal", () => {
+    expect(normalCrps(0, 0, 1)).toBeCloseTo(0.2337, 4);
+    expect(normalCrps(3, 1, 0)).toBe(2);
+  });
+});
+
+describe("wilsonInterval", () => {
+  it("matches the known interval for 8 of 10", () => {
+    const interval = wilsonInterval(8, 10)!;
+    expect(interval.estimate).toBe(0.8);
+    expect(interval.lower).toBeCloseTo(0.4902, 4);
+    expect(interval.upper).toBeCloseTo(0.9433, 4);
+  });
+
+  it("stays within [0, 1] at the extremes", () => {
+    const none = wilsonInterval(0, 10)!;
+    expect(none.lower).toBeCloseTo(0, 10);
+    expect(none.upper).toBeCloseTo(0.2775, 4);
+    expect(wilsonInterval(10, 10)!.upper).toBeLessThanOrEqual(1);
+  });
+
+  it("is undefined without observations", () => {
+    expect(wilsonInterval(0, 0)).toBeUndefined();
+  });
+});
+
+describe("bootstrapCI", () => {
+  it("is reproducible for the same seed", () => {
+    const interval = bootstrapCI([1, 2, 3, 4, 5], mean);
+    expect(interval).toEqual({ estimate: 3, lower: 1.8, upper: 4.2 });
+    expect(bootstrapCI([1, 2, 3, 4, 5], mean)).toEqual(interval);
+  });
+
+  it("collapses for a constant sample", () => {
+    expect(bootstrapCI([2, 2, 2], mean)).toEqual({ estimate: 2, lower: 2, upper: 2 });
+  });
+
+  it("is undefined for an empty sample", () => {
+    expect(bootstrapCI([], mean)).toBeUndefined();
+  });
+});
+
+describe("createRng", () => {
+  it("repeats the same sequence for the same seed", () => {
+    const a = createRng(7);
+    const b = createRng(7);
+    expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Statistics Utilities
+ *
+ * Confidence intervals shared by the evaluator and significance testing:
+ * seeded percentile bootstrap for arbitrary statistics and Wilson score
+ * intervals for proportions. Also the proper scoring rules used for
+ * model-reported uncertainty (pinball loss, CRPS).
+ *
+ * This module contains only pure functions that can be safely imported by
+ * both client and server components.
+ */
+
+export const DEFAULT_ITERATIONS = 2000;
+export const DEFAULT_CONFIDENCE = 0.95;
+export const DEFAULT_SEED = 42;
+
+export interface ConfidenceInterval {
+  estimate: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ResamplingOptions {
+  /** Bootstrap resamples or random permutations (default 2000) */
+  iterations?: number;
+  /** Confidence level for intervals (default 0.95) */
+  confidence?: number;
+  seed?: number;
+}
+
+// Seeded random number generator (Mulberry32), same as the scenario generator
+export function createRng(seed: number) {
+  return function () {
+    let t = (seed += 0x6d2b79f5);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Quantile of sorted values with linear interpolation
+ */
+export function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26 approximation of erf)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Inverse of the standard normal CDF, by bisection
+ */
+export function normalQuantile(p: number): number {
+  let low = -10;
+  let high = 10;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (normalCdf(mid) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Percentile bootstrap confidence interval for a statistic of a sample
+ */
+export function bootstrapCI<T>(
+  items: T[],
+  statistic: (sample: T[]) => number,
+  options: ResamplingOptions = {}
+): ConfidenceInterval | undefined {
+  if (items.length === 0) return undefined;
+
+  const iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  const confidence = options.confidence ?? DEFAULT_CONFIDENCE;
+  const rng = createRng(options.seed ?? DEFAULT_SEED);
+
+  const estimates: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    const sample = Array.from({ length: items.length }, () => items[Math.floor(rng() * items.length)]);
+    estimates.push(statistic(sample));
+  }
+  estimates.sort((a, b) => a - b);
+
+  const alpha = (1 - confidence) / 2;
+  return {
+    estimate: statistic(items),
+    lower: quantile(estimates, alpha),
+    upper: quantile(estimates, 1 - alpha),
+  };
+}
+
+/**
+ * Wilson score interval for a proportion (0-1). Stays within [0, 1] and
+ * behaves well for small samples and rates near 0% or 100%.
+ */
+export function wilsonInterval(
+  successes: number,
+  total: number,
+  confidence: number = DEFAULT_CONFIDENCE
+): ConfidenceInterval | undefined {
+  if (total === 0) return undefined;
+
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const p = successes / total;
+  const denominator = 1 + (z * z) / total;
+  const center = (p + (z * z) / (2 * total)) / denominator;
+  const margin = (z / denominator) * Math.sqrt((p * (1 - p)) / total + (z * z) / (4 * total * total));
+
+  return {
+    estimate: p,
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin),
+  };
+}
+
+/**
+ * Pinball (quantile) loss of a predicted quantile at the given level (0-1)
+ * for the observed value
+ */
+export function pinballLoss(observed: number, predicted: number, level: number): number {
+  const diff = observed - predicted;
+  return diff >= 0 ? level * diff : (level - 1) * diff;
+}
+
+/**
+ * Closed-form CRPS of a normal predictive distribution for the observed
+ * value. A zero spread reduces to the absolute error.
+ */
+export function normalCrps(observed: number, mu: number, sigma: number): number {
+  if (sigma <= 0) return Math.abs(observed - mu);
+  const z = (observed - mu) / sigma;
+  const pdf = Math.exp(-(z * z) / 2) / Math.sqrt(2 * Math.PI);
+  return sigma * (z * (2 * normalCdf(z) - 1) + 2 * pdf - 1 / Math.sqrt(Math.PI));
+}
+
+/**
+ * Pearson correlation coefficient; undefined when either series is constant
+ */
+export function pearsonCorrelation(xs: number[], ys: number[]): number | undefined {
+  if (xs.length < 2 || xs.length !== ys.length) return undefined;
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+  if (varianceX === 0 || varianceY === 0) return undefined;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+// Ranks starting at 1, averaging the ranks of ties
+function rank(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = (i + j + 2) / 2;
+    i = j + 1;
+  }
+  return ranks;
+}
+
+/**
+ * Spearman rank correlation (Pearson correlation of the ranks)
+ */
+export function spearmanCorrelation(xs: number[], ys: number[]): number | undefined {
+  return pearsonCorrelation(rank(xs), rank(ys));
+}
@@ -21,6 +21,7 @@ const RUNS_DIR = path.join(DATA_DIR, "runs");
 const TEST_SETS_DIR = path.join(DATA_DIR, "test-sets");
 const DOMAINS_DIR = path.join(process.cwd(), "src", "domains");
 const TEMPLATES_DIR = path.join(process.cwd(), "src", "prompts", "templates");
+const JUDGE_TEMPLATES_DIR = path.join(process.cwd(), "src", "prompts", "judge");
 
 /**
  * Ensure directories exist
@@ -319,6 +320,17 @@ export async function listPromptTemplates(domainId?: string): Promise<PromptTemp
   }
 }
 
+/**
+ * Load a judge rubric template by name
+ */
+export async function loadJudgeTemplate(name: string): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(JUDGE_TEMPLATES_DIR, `${name}.mustache`), "utf-8");
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Save a custom prompt template
  */
@@ -349,6 +361,7 @@ function getTemplateDescription(name: string, domainId?: string): string {
       "few-shot": "Learning from company growth examples",
       minimal: "Minimal context, baseline test",
       "benchmark-only": "Only growth benchmarks, no additional guidance",
+      uncertainty: "Growth benchmarks with an 80% interval around the estimate",
     };
     if (financialDescriptions[name]) {
       return financialDescriptions[name];
@@ -363,6 +376,7 @@ function getTemplateDescription(name: string, domainId?: string): string {
     "few-shot": "Learning from examples approach",
     minimal: "Bare minimum context, baseline test",
     "benchmark-only": "Only benchmark ranges, no additional guidance",
+    uncertainty: "Benchmark ranges with an 80% interval around the estimate",
   };
   return descriptions[name] ?? "Custom template";
 }
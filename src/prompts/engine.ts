@@ -2,6 +2,7 @@ import Mustache from "mustache";
 import type {
   DomainConfig,
   ExpertFacts,
+  RolloutResult,
   Scenario,
 } from "@/domains/schema";
 
@@ -61,6 +62,18 @@ export function renderPrompt(
   return renderTemplate(template, context);
 }
 
+/**
+ * Render a judge rubric template for one rollout of a scenario
+ */
+export function renderJudgePrompt(
+  template: string,
+  domain: DomainConfig,
+  scenario: Scenario,
+  rollout: RolloutResult
+): string {
+  return Mustache.render(template, { domain, scenario, rollout });
+}
+
 /**
  * Parse a template to extract all variable references
  * Useful for the UI to show what variables are available